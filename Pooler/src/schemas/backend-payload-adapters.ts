@@ -0,0 +1,151 @@
+// Backend Payload Adapters for KALE Pool Mining Pooler
+// Map legacy (unversioned) Backend payloads onto the v1 schemas before validation, and v1 payloads onto internal types
+
+import { BACKEND_PAYLOAD_SCHEMA_VERSION } from './backend-payloads';
+import type { PlantingStatusV1, PlantedFarmersV1, PlantedFarmerV1, PlantedBlockDataV1 } from './backend-payloads.generated';
+import type { PlantingNotification } from '../services/pool-coordinator';
+import { keyCustody } from '../services/key-custody';
+
+type LegacyPayload = Record<string, any>;
+
+/**
+ * Whether a body predates schema versioning (and so goes through an adapter)
+ */
+export function isLegacyPayload(body: unknown): body is LegacyPayload {
+  return typeof body === 'object' && body !== null && !Array.isArray(body) && !('schema_version' in body);
+}
+
+/**
+ * Legacy planting status: camelCase or snake_case top-level fields, counts possibly nested under `results`,
+ * farmers under `planted_farmers` or `plantedFarmers`, block data under `block_data` or `blockData`
+ */
+export function adaptLegacyPlantingStatus(body: LegacyPayload): PlantingStatusV1 {
+  const results = body.results ?? {};
+  const blockData = body.block_data ?? body.blockData;
+
+  return withoutUndefined({
+    schema_version: BACKEND_PAYLOAD_SCHEMA_VERSION,
+    block_index: body.block_index ?? body.blockIndex,
+    pooler_id: body.pooler_id ?? body.poolerId,
+    successful_plants: body.successful_plants ?? results.successfulPlants,
+    failed_plants: body.failed_plants ?? results.failedPlants,
+    farmers_planted: body.farmers_planted ?? results.farmersPlanted,
+    duration_ms: body.duration_ms ?? results.duration,
+    block_data: blockData && typeof blockData === 'object' ? adaptLegacyBlockData(blockData) : blockData,
+    planted_farmers: mapArray(body.planted_farmers ?? body.plantedFarmers, adaptLegacyFarmer)
+  });
+}
+
+/**
+ * Legacy planted farmers: the unversioned PlantingNotification shape
+ */
+export function adaptLegacyPlantedFarmers(body: LegacyPayload): PlantedFarmersV1 {
+  return withoutUndefined({
+    schema_version: BACKEND_PAYLOAD_SCHEMA_VERSION,
+    blockIndex: body.blockIndex ?? body.block_index,
+    entropy: body.entropy,
+    blockTimestamp: body.blockTimestamp ?? body.block_timestamp,
+    blockParams: body.blockParams ?? body.block_params,
+    plantedFarmers: mapArray(body.plantedFarmers ?? body.planted_farmers, adaptLegacyFarmer)
+  });
+}
+
+/**
+ * Validated planting status → planting notification (undefined when it carries nothing to work on)
+ */
+export function plantingStatusToNotification(status: PlantingStatusV1): PlantingNotification | undefined {
+  const blockData = status.block_data;
+  if (!blockData || status.planted_farmers.length === 0) {
+    return undefined;
+  }
+
+  return {
+    blockIndex: status.block_index,
+    entropy: blockData.entropy,
+    blockTimestamp: toUnixSeconds(blockData.timestamp),
+    blockParams: blockData.min_gap !== undefined && blockData.max_gap !== undefined ? {
+      minGap: blockData.min_gap,
+      maxGap: blockData.max_gap,
+      minZeros: blockData.min_zeros,
+      maxZeros: blockData.max_zeros
+    } : undefined,
+    plantedFarmers: status.planted_farmers.map(toPlantedFarmer)
+  };
+}
+
+/**
+ * Validated planted farmers payload → planting notification
+ */
+export function plantedFarmersToNotification(payload: PlantedFarmersV1): PlantingNotification {
+  return {
+    blockIndex: payload.blockIndex,
+    entropy: payload.entropy,
+    blockTimestamp: payload.blockTimestamp,
+    blockParams: payload.blockParams,
+    plantedFarmers: payload.plantedFarmers.map(toPlantedFarmer)
+  };
+}
+
+function adaptLegacyBlockData(blockData: LegacyPayload): PlantedBlockDataV1 {
+  return withoutUndefined({
+    entropy: blockData.entropy,
+    timestamp: blockData.timestamp,
+    min_gap: blockData.min_gap ?? blockData.minGap,
+    max_gap: blockData.max_gap ?? blockData.maxGap,
+    min_zeros: blockData.min_zeros ?? blockData.minZeros,
+    max_zeros: blockData.max_zeros ?? blockData.maxZeros
+  });
+}
+
+function adaptLegacyFarmer(farmer: any): PlantedFarmerV1 {
+  if (typeof farmer !== 'object' || farmer === null) {
+    return farmer; // Left for the validator to reject
+  }
+
+  const custodialWallet = farmer.custodialWallet ?? farmer.custodial_wallet;
+  const plaintextKey = farmer.custodialSecretKey ?? farmer.custodial_secret_key;
+
+  return withoutUndefined({
+    farmerId: farmer.farmerId ?? farmer.farmer_id,
+    custodialWallet,
+    // Plaintext secret keys are sealed (or dropped) here, before anything else sees them
+    custodialKey: farmer.custodialKey ?? farmer.custodial_key
+      ?? (typeof plaintextKey === 'string' && typeof custodialWallet === 'string'
+        ? keyCustody.acceptPlaintext(plaintextKey, custodialWallet)
+        : undefined),
+    // Legacy senders sometimes send the stake as a number
+    stakeAmount: typeof farmer.stakeAmount === 'number' ? String(farmer.stakeAmount) : farmer.stakeAmount ?? farmer.stake_amount,
+    plantingTime: farmer.plantingTime ?? farmer.planting_time,
+    plantLedger: farmer.plantLedger ?? farmer.plant_ledger
+  });
+}
+
+function toPlantedFarmer(farmer: PlantedFarmerV1): PlantingNotification['plantedFarmers'][number] {
+  return {
+    farmerId: farmer.farmerId,
+    custodialWallet: farmer.custodialWallet,
+    custodialKey: farmer.custodialKey,
+    stakeAmount: farmer.stakeAmount,
+    plantingTime: farmer.plantingTime ? new Date(farmer.plantingTime) : new Date(),
+    plantLedger: farmer.plantLedger
+  };
+}
+
+function toUnixSeconds(timestamp: number | string | undefined): number {
+  if (typeof timestamp === 'number') {
+    return timestamp;
+  }
+  return Math.floor((timestamp ? new Date(timestamp).getTime() : Date.now()) / 1000);
+}
+
+// Missing lists become empty; anything else that isn't a list is left for the validator to reject
+function mapArray<T>(value: unknown, adapt: (item: any) => T): T[] {
+  if (value === undefined) {
+    return [];
+  }
+  return Array.isArray(value) ? value.map(adapt) : value as T[];
+}
+
+function withoutUndefined<T extends object>(value: T): T {
+  return Object.fromEntries(Object.entries(value).filter(([, field]) => field !== undefined)) as T;
+}
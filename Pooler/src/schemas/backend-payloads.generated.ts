@@ -0,0 +1,48 @@
+// Backend Payload Types for KALE Pool Mining Pooler
+// Generated from src/schemas/backend-payloads.ts by `bun run schemas:generate` - do not edit
+
+export interface PlantingStatusV1 {
+  schema_version: 1;
+  block_index: number;
+  pooler_id?: string;
+  successful_plants?: number;
+  failed_plants?: number;
+  farmers_planted?: number;
+  duration_ms?: number;
+  block_data?: PlantedBlockDataV1;
+  planted_farmers: Array<PlantedFarmerV1>;
+}
+
+export interface PlantedBlockDataV1 {
+  entropy: string;
+  timestamp?: number | string; // Block timestamp (unix seconds or ISO 8601)
+  min_gap?: number;
+  max_gap?: number;
+  min_zeros?: number;
+  max_zeros?: number;
+}
+
+export interface PlantedFarmerV1 {
+  farmerId: string;
+  custodialWallet: string;
+  custodialKey?: string; // Secret key sealed to the pooler custody key, or a custody reference
+  stakeAmount: string; // Stake in stroops (i128 as a decimal string)
+  plantingTime?: string;
+  plantLedger?: number;
+}
+
+export interface PlantedFarmersV1 {
+  schema_version: 1;
+  blockIndex: number;
+  entropy: string;
+  blockTimestamp: number; // Block timestamp (unix seconds)
+  blockParams?: BlockParamsV1;
+  plantedFarmers: Array<PlantedFarmerV1>;
+}
+
+export interface BlockParamsV1 {
+  minGap: number;
+  maxGap: number;
+  minZeros?: number;
+  maxZeros?: number;
+}
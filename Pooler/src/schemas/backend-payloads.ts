@@ -0,0 +1,99 @@
+// Backend Payload Schemas for KALE Pool Mining Pooler
+// Versioned JSON schemas for Backend → Pooler notifications; TypeScript types are generated from these
+
+export const BACKEND_PAYLOAD_SCHEMA_VERSION = 1;
+
+const STELLAR_PUBLIC_KEY = '^G[A-Z2-7]{55}$';
+const CUSTODY_HANDLE = '^(sealed:v1\\.[A-Za-z0-9_-]+\\.[A-Za-z0-9_-]+\\.[A-Za-z0-9_-]+|ref:.+)$';
+const ENTROPY_HEX = '^[0-9a-fA-F]{64}$';
+
+const blockIndex = { type: 'integer', minimum: 0 } as const;
+const count = { type: 'integer', minimum: 0 } as const;
+
+export const plantedFarmerSchema = {
+  title: 'PlantedFarmerV1',
+  type: 'object',
+  additionalProperties: false,
+  required: ['farmerId', 'custodialWallet', 'stakeAmount'],
+  properties: {
+    farmerId: { type: 'string', minLength: 1 },
+    custodialWallet: { type: 'string', pattern: STELLAR_PUBLIC_KEY },
+    custodialKey: {
+      type: 'string',
+      pattern: CUSTODY_HANDLE,
+      description: 'Secret key sealed to the pooler custody key, or a custody reference'
+    },
+    stakeAmount: { type: 'string', pattern: '^[0-9]+$', description: 'Stake in stroops (i128 as a decimal string)' },
+    plantingTime: { type: 'string', format: 'date-time' },
+    plantLedger: { type: 'integer', minimum: 0 }
+  }
+} as const;
+
+export const plantedBlockDataSchema = {
+  title: 'PlantedBlockDataV1',
+  type: 'object',
+  additionalProperties: false,
+  required: ['entropy'],
+  properties: {
+    entropy: { type: 'string', pattern: ENTROPY_HEX },
+    timestamp: {
+      anyOf: [{ type: 'integer', minimum: 0 }, { type: 'string', format: 'date-time' }],
+      description: 'Block timestamp (unix seconds or ISO 8601)'
+    },
+    min_gap: count,
+    max_gap: count,
+    min_zeros: count,
+    max_zeros: count
+  }
+} as const;
+
+export const plantingStatusSchema = {
+  $id: 'kale-pool/backend/planting-status/v1',
+  title: 'PlantingStatusV1',
+  type: 'object',
+  additionalProperties: false,
+  required: ['schema_version', 'block_index', 'planted_farmers'],
+  properties: {
+    schema_version: { const: BACKEND_PAYLOAD_SCHEMA_VERSION },
+    block_index: blockIndex,
+    pooler_id: { type: 'string' },
+    successful_plants: count,
+    failed_plants: count,
+    farmers_planted: count,
+    duration_ms: { type: 'number', minimum: 0 },
+    block_data: plantedBlockDataSchema,
+    planted_farmers: { type: 'array', items: plantedFarmerSchema }
+  }
+} as const;
+
+export const blockParamsSchema = {
+  title: 'BlockParamsV1',
+  type: 'object',
+  additionalProperties: false,
+  required: ['minGap', 'maxGap'],
+  properties: {
+    minGap: count,
+    maxGap: count,
+    minZeros: count,
+    maxZeros: count
+  }
+} as const;
+
+export const plantedFarmersSchema = {
+  $id: 'kale-pool/backend/planted-farmers/v1',
+  title: 'PlantedFarmersV1',
+  type: 'object',
+  additionalProperties: false,
+  required: ['schema_version', 'blockIndex', 'entropy', 'blockTimestamp', 'plantedFarmers'],
+  properties: {
+    schema_version: { const: BACKEND_PAYLOAD_SCHEMA_VERSION },
+    blockIndex: blockIndex,
+    entropy: { type: 'string', pattern: ENTROPY_HEX },
+    blockTimestamp: { type: 'integer', minimum: 0, description: 'Block timestamp (unix seconds)' },
+    blockParams: blockParamsSchema,
+    plantedFarmers: { type: 'array', minItems: 1, items: plantedFarmerSchema }
+  }
+} as const;
+
+// Schemas that get a generated TypeScript type (nested titled schemas are emitted too)
+export const BACKEND_PAYLOAD_SCHEMAS = [plantingStatusSchema, plantedFarmersSchema];
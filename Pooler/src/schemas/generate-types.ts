@@ -0,0 +1,91 @@
+// Schema Type Generator for KALE Pool Mining Pooler
+// Emits TypeScript interfaces for the Backend payload schemas (bun run schemas:generate)
+
+import { writeFileSync } from 'fs';
+import { join } from 'path';
+import { BACKEND_PAYLOAD_SCHEMAS } from './backend-payloads';
+
+type JsonSchema = {
+  title?: string;
+  description?: string;
+  type?: string;
+  const?: unknown;
+  enum?: readonly unknown[];
+  anyOf?: readonly JsonSchema[];
+  items?: JsonSchema;
+  required?: readonly string[];
+  properties?: Record<string, JsonSchema>;
+};
+
+const OUTPUT_PATH = join(import.meta.dir, 'backend-payloads.generated.ts');
+
+/**
+ * Render every titled object schema (depth first, each once) as an exported interface
+ */
+export function generateSchemaTypes(schemas: readonly JsonSchema[]): string {
+  const interfaces = new Map<string, string>();
+
+  const render = (schema: JsonSchema, indent: string): string => {
+    if (schema.const !== undefined) {
+      return JSON.stringify(schema.const);
+    }
+    if (schema.enum) {
+      return schema.enum.map(value => JSON.stringify(value)).join(' | ');
+    }
+    if (schema.anyOf) {
+      return schema.anyOf.map(option => render(option, indent)).join(' | ');
+    }
+
+    switch (schema.type) {
+      case 'string':
+        return 'string';
+      case 'integer':
+      case 'number':
+        return 'number';
+      case 'boolean':
+        return 'boolean';
+      case 'array':
+        return `Array<${schema.items ? render(schema.items, indent) : 'unknown'}>`;
+      case 'object':
+        if (schema.title) {
+          emit(schema);
+          return schema.title;
+        }
+        return renderObject(schema, indent);
+      default:
+        return 'unknown';
+    }
+  };
+
+  const renderObject = (schema: JsonSchema, indent: string): string => {
+    const required = new Set(schema.required ?? []);
+    const fields = Object.entries(schema.properties ?? {}).map(([name, property]) => {
+      const comment = property.description ? ` // ${property.description}` : '';
+      return `${indent}  ${name}${required.has(name) ? '' : '?'}: ${render(property, `${indent}  `)};${comment}`;
+    });
+    return `{\n${fields.join('\n')}\n${indent}}`;
+  };
+
+  const emit = (schema: JsonSchema): void => {
+    if (!schema.title || interfaces.has(schema.title)) {
+      return;
+    }
+    interfaces.set(schema.title, ''); // Reserve the name before rendering nested schemas
+    interfaces.set(schema.title, `export interface ${schema.title} ${renderObject(schema, '')}`);
+  };
+
+  schemas.forEach(emit);
+
+  return [
+    '// Backend Payload Types for KALE Pool Mining Pooler',
+    '// Generated from src/schemas/backend-payloads.ts by `bun run schemas:generate` - do not edit',
+    '',
+    [...interfaces.values()].join('\n\n'),
+    ''
+  ].join('\n');
+}
+
+if (import.meta.main) {
+  writeFileSync(OUTPUT_PATH, generateSchemaTypes(BACKEND_PAYLOAD_SCHEMAS));
+  console.log(`Wrote ${OUTPUT_PATH}`);
+}
@@ -2,21 +2,54 @@
 // Block discovery and pool coordination service
 
 import fastify from 'fastify';
-import type { FastifyInstance } from 'fastify';
+import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import type { FastifySchemaValidationError } from 'fastify/types/schema';
 import * as dotenv from 'dotenv';
 import chalk from 'chalk';
 import BlockMonitor from './services/block-monitor';
 import { poolCoordinator, type PlantingNotification } from './services/pool-coordinator';
+import { jobStore } from './services/job-store';
+import { outbox, type OutboxStatus } from './services/outbox';
+import { harvestManager } from './services/harvest-manager';
+import { rpcGateway } from './services/rpc-gateway';
+import { blockHistory } from './services/block-history';
+import { poolEvents, type PoolEvent } from './services/pool-events';
+import { EventSocket } from './services/event-socket';
+import { requestAuth } from './services/request-auth';
+import { keyCustody } from './services/key-custody';
+import { transactionTracker, type TransactionStatus } from './services/transaction-tracker';
+import { feeManager } from './services/fee-manager';
+import { plantingStatusSchema, plantedFarmersSchema } from './schemas/backend-payloads';
+import type { PlantingStatusV1, PlantedFarmersV1 } from './schemas/backend-payloads.generated';
+import {
+  isLegacyPayload,
+  adaptLegacyPlantingStatus,
+  adaptLegacyPlantedFarmers,
+  plantingStatusToNotification,
+  plantedFarmersToNotification
+} from './schemas/backend-payload-adapters';
 import { blockMonitorLogger as logger } from '../../Shared/utils/logger';
 import Config from '../../Shared/config';
 
+// List endpoints (blocks, outbox, transactions)
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+
 // Load environment configuration
 dotenv.config({ path: '.env.mainnet' });
 
+declare module 'fastify' {
+  interface FastifyRequest {
+    rawBody?: string; // JSON body as received, for signature checks
+  }
+}
+
 class PoolerService {
   private app: FastifyInstance;
   private blockMonitor: BlockMonitor;
   private startTime: Date;
+  private eventSocket = new EventSocket('/events/ws');
+  private eventStreams = new Set<() => void>(); // Closers for open SSE streams
 
   constructor() {
     this.startTime = new Date();
@@ -27,12 +60,24 @@ class PoolerService {
         level: Config.LOG_LEVEL
       } : {
         level: 'info'
+      },
+      // Report every failing field of a Backend payload, and reject (not strip) unknown ones
+      ajv: {
+        customOptions: { allErrors: true, removeAdditional: false }
       }
     });
 
     // Initialize block monitor
     this.blockMonitor = new BlockMonitor();
 
+    // Hold work scheduling while the KALE farm is paused
+    this.blockMonitor.onFarmStateChanged(async (change) => {
+      if (change.event !== 'contract_upgraded') {
+        await poolCoordinator.setFarmPaused(change.current.paused, change.current.index);
+      }
+    });
+
+    this.setupBodyParser();
     this.setupRoutes();
     this.setupShutdownHandlers();
     
@@ -43,6 +88,19 @@ class PoolerService {
     });
   }
 
+  /**
+   * JSON bodies are kept raw as well - signatures cover the exact bytes sent
+   */
+  private setupBodyParser(): void {
+    const parseJson = this.app.getDefaultJsonParser('error', 'error');
+
+    this.app.removeContentTypeParser('application/json');
+    this.app.addContentTypeParser('application/json', { parseAs: 'string' }, (request, body, done) => {
+      request.rawBody = body as string;
+      parseJson(request, body as string, done);
+    });
+  }
+
   /**
    * Setup HTTP routes
    */
@@ -62,12 +120,16 @@ class PoolerService {
           current_block: status.currentBlock,
           blocks_discovered: status.blocksDiscovered,
           last_block_age: status.lastBlockAge,
-          error_count: status.errorCount
+          error_count: status.errorCount,
+          discovery: status.discovery,
+          missed_blocks: status.missedBlocks
         },
         connections: {
           stellar_rpc: status.contractConnection,
           backend_api: status.backendConnection
         },
+        farm: status.farm,
+        rpc_endpoints: rpcGateway.getHealth(),
         configuration: {
           network: Config.STELLAR.NETWORK,
           contract_id: Config.STELLAR.CONTRACT_ID,
@@ -98,7 +160,8 @@ class PoolerService {
         },
         network_config: {
           stellar_network: Config.STELLAR.NETWORK,
-          rpc_url: Config.STELLAR.RPC_URL,
+          rpc_url: rpcGateway.getPrimaryUrl(),
+          rpc_urls: Config.STELLAR.RPC_URLS,
           contract_id: Config.STELLAR.CONTRACT_ID,
           network_passphrase: Config.STELLAR.NETWORK_PASSPHRASE
         },
@@ -110,113 +173,73 @@ class PoolerService {
       });
     });
 
-    // Backend planting status notification endpoint
-    this.app.post('/backend/planting-status', async (request, reply) => {
+    // Backend planting status notification endpoint (legacy unversioned shapes are adapted to v1 first)
+    this.app.post('/backend/planting-status', {
+      schema: { body: plantingStatusSchema },
+      attachValidation: true,
+      preValidation: [this.requireSignature(), this.adaptLegacyBody('planting-status', adaptLegacyPlantingStatus)]
+    }, async (request, reply) => {
+      if (request.validationError) {
+        return this.sendValidationError(reply, request.validationError, plantingStatusSchema.$id);
+      }
+
       try {
-        // Log the full request body for debugging
-        this.log(`🌱 Received planting status notification (full payload)`, {
-          body: request.body,
-          headers: request.headers
-        });
+        const status = request.body as PlantingStatusV1;
+        const plantedFarmers = status.planted_farmers;
 
-        const { 
-          block_index, blockIndex, pooler_id, successful_plants, failed_plants, farmers_planted, duration_ms,
-          planted_farmers, plantedFarmers, blockData, block_data, results 
-        } = request.body as any;
-
-        // Handle both camelCase and snake_case naming from Backend
-        // Also handle the nested results structure for backward compatibility
-        const actualBlockIndex = block_index || blockIndex;
-        const actualSuccessfulPlants = successful_plants || results?.successfulPlants;
-        const actualFailedPlants = failed_plants || results?.failedPlants;
-        const actualFarmersPlanted = farmers_planted || results?.farmersPlanted;
-        const actualDurationMs = duration_ms || results?.duration;
-        const actualPlantedFarmers = planted_farmers || plantedFarmers || [];
-        const actualBlockData = blockData || block_data || {};
-        
         this.log(`🌱 Received planting status notification`, {
-          block_index: actualBlockIndex,
-          pooler_id,
-          successful_plants: actualSuccessfulPlants,
-          failed_plants: actualFailedPlants,
-          farmers_planted: actualFarmersPlanted,
-          duration_ms: actualDurationMs,
-          has_planted_farmers: actualPlantedFarmers.length > 0,
-          planted_farmers_count: actualPlantedFarmers.length,
-          has_block_data: !!actualBlockData.entropy
+          block_index: status.block_index,
+          pooler_id: status.pooler_id,
+          successful_plants: status.successful_plants,
+          failed_plants: status.failed_plants,
+          farmers_planted: status.farmers_planted,
+          duration_ms: status.duration_ms,
+          planted_farmers_count: plantedFarmers.length,
+          has_block_data: !!status.block_data
         });
 
         // Log planting results
-        if (actualSuccessfulPlants > 0) {
-          this.log(`✅ Block ${actualBlockIndex}: ${actualSuccessfulPlants} successful plants`);
+        if (status.successful_plants) {
+          this.log(`✅ Block ${status.block_index}: ${status.successful_plants} successful plants`);
         }
-        if (actualFailedPlants > 0) {
-          this.log(`❌ Block ${actualBlockIndex}: ${actualFailedPlants} failed plants`);
+        if (status.failed_plants) {
+          this.log(`❌ Block ${status.block_index}: ${status.failed_plants} failed plants`);
         }
 
         // If we have planted farmers details, schedule work execution
-        if (actualPlantedFarmers.length > 0 && actualBlockData.entropy) {
-          this.log(`🚜 Scheduling work execution for ${actualPlantedFarmers.length} planted farmers`, {
-            block_index: actualBlockIndex,
-            entropy: actualBlockData.entropy?.substring(0, 16) + '...',
-            farmers: actualPlantedFarmers.map((f: any) => ({
+        const plantingNotification = plantingStatusToNotification(status);
+        if (plantingNotification) {
+          this.log(`🚜 Scheduling work execution for ${plantedFarmers.length} planted farmers`, {
+            block_index: status.block_index,
+            entropy: plantingNotification.entropy.substring(0, 16) + '...',
+            farmers: plantedFarmers.map(f => ({
               farmer_id: f.farmerId,
               custodial_wallet: f.custodialWallet
             }))
           });
 
           try {
-            // Create planting notification for pool coordinator
-            // Debug block_index parsing
-            this.log(`🔍 DEBUG: Parsing blockIndex`, {
-              raw_block_index: actualBlockIndex,
-              type: typeof actualBlockIndex,
-              parsed: parseInt(actualBlockIndex),
-              is_nan: isNaN(parseInt(actualBlockIndex))
-            });
-
-            const parsedBlockIndex = parseInt(actualBlockIndex);
-            if (isNaN(parsedBlockIndex)) {
-              throw new Error(`Invalid block_index received: ${actualBlockIndex} (type: ${typeof actualBlockIndex})`);
-            }
-
-            const plantingNotification: PlantingNotification = {
-              blockIndex: parsedBlockIndex,
-              entropy: actualBlockData.entropy,
-              blockTimestamp: actualBlockData.timestamp ? 
-                Math.floor(new Date(actualBlockData.timestamp).getTime() / 1000) :
-                Math.floor(Date.now() / 1000),
-              plantedFarmers: actualPlantedFarmers.map((farmer: any) => ({
-                farmerId: farmer.farmerId,
-                custodialWallet: farmer.custodialWallet,
-                custodialSecretKey: farmer.custodialSecretKey,
-                stakeAmount: farmer.stakeAmount,
-                plantingTime: new Date(farmer.plantingTime || Date.now())
-              }))
-            };
-
             // Schedule work execution via pool coordinator
             await poolCoordinator.receivePlantingNotification(plantingNotification);
 
             this.log(`✅ Work execution scheduled successfully`, {
-              block_index: actualBlockIndex,
-              farmers_scheduled: actualPlantedFarmers.length
+              block_index: status.block_index,
+              farmers_scheduled: plantedFarmers.length
             });
 
           } catch (error) {
             this.logError('Failed to schedule work execution', error, {
-              block_index: actualBlockIndex,
-              farmer_count: actualPlantedFarmers.length
+              block_index: status.block_index,
+              farmer_count: plantedFarmers.length
             });
           }
 
         } else {
           this.log(`⚠️  Cannot schedule work - missing planted farmers details or block data`, {
-            block_index: actualBlockIndex,
-            successful_plants: actualSuccessfulPlants,
-            has_planted_farmers: actualPlantedFarmers.length > 0,
-            has_entropy: !!actualBlockData.entropy,
-            planted_farmers_count: actualPlantedFarmers.length
+            block_index: status.block_index,
+            successful_plants: status.successful_plants,
+            has_planted_farmers: plantedFarmers.length > 0,
+            has_block_data: !!status.block_data
           });
         }
 
@@ -235,26 +258,17 @@ class PoolerService {
     });
 
     // Planted farmers notification endpoint for work coordination
-    this.app.post('/backend/planted-farmers', async (request, reply) => {
+    this.app.post('/backend/planted-farmers', {
+      schema: { body: plantedFarmersSchema },
+      attachValidation: true,
+      preValidation: [this.requireSignature(), this.adaptLegacyBody('planted-farmers', adaptLegacyPlantedFarmers)]
+    }, async (request, reply) => {
       try {
-        // Validate authorization
-        const authorization = request.headers.authorization;
-        if (!authorization || !authorization.startsWith('Bearer ')) {
-          return reply.status(401).send({ 
-            success: false, 
-            error: 'Authorization header required' 
-          });
+        if (request.validationError) {
+          return this.sendValidationError(reply, request.validationError, plantedFarmersSchema.$id);
         }
 
-        const token = authorization.replace('Bearer ', '');
-        if (token !== Config.POOLER.AUTH_TOKEN) {
-          return reply.status(403).send({ 
-            success: false, 
-            error: 'Invalid authorization token' 
-          });
-        }
-
-        const plantingNotification = request.body as PlantingNotification;
+        const plantingNotification = plantedFarmersToNotification(request.body as PlantedFarmersV1);
         
         this.log(`🌱 Received planted farmers notification for work coordination`, {
           block_index: plantingNotification.blockIndex,
@@ -323,9 +337,200 @@ class PoolerService {
         work_coordination: {
           pending_work_blocks: coordinatorStatus.pendingWorkBlocks,
           active_work_blocks: coordinatorStatus.activeWorkBlocks,
-          work_manager: coordinatorStatus.workManagerStatus
-        }
+          work_manager: coordinatorStatus.workManagerStatus,
+          job_store: coordinatorStatus.jobStore
+        },
+        outbox: outbox.getStats(),
+        harvest: harvestManager.getStats()
+      });
+    });
+
+    // Custody public key the Backend seals custodial secret keys to
+    this.app.get('/custody/public-key', async (request, reply) => {
+      reply.send({
+        algorithm: 'X25519-HKDF-SHA256-AES-256-GCM',
+        format: 'sealed:v1',
+        public_key: keyCustody.getPublicKey()
+      });
+    });
+
+    // Live pool events as Server-Sent Events (WebSocket: /events/ws with the same filters)
+    this.app.get('/events', async (request, reply) => {
+      const filter = poolEvents.parseFilter(request.query as Record<string, unknown>);
+      if ('error' in filter) {
+        return reply.status(400).send({ success: false, error: filter.error });
+      }
+
+      reply.hijack();
+      reply.raw.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no'
       });
+
+      const write = (event: PoolEvent) => {
+        reply.raw.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+      };
+
+      // Resume after a reconnect from the events still buffered
+      const lastEventId = parseInt(String(request.headers['last-event-id'] ?? ''));
+      if (!isNaN(lastEventId)) {
+        poolEvents.since(lastEventId, filter).forEach(write);
+      }
+
+      const unsubscribe = poolEvents.subscribe(filter, write);
+      const keepAlive = setInterval(() => reply.raw.write(': keep-alive\n\n'), 15000);
+      const close = () => {
+        clearInterval(keepAlive);
+        unsubscribe();
+        this.eventStreams.delete(close);
+        reply.raw.end();
+      };
+
+      this.eventStreams.add(close);
+      request.raw.on('close', close);
+    });
+
+    // Block history: decoded blocks with the pool's farmer activity
+    this.app.get('/blocks', async (request, reply) => {
+      const { limit, before } = request.query as { limit?: string; before?: string };
+      const beforeIndex = before !== undefined ? parseInt(before) : undefined;
+      if (beforeIndex !== undefined && isNaN(beforeIndex)) {
+        return reply.status(400).send({ success: false, error: 'before must be a block index' });
+      }
+      const pageSize = this.parseLimit(limit);
+      if (pageSize === undefined) {
+        return reply.status(400).send({ success: false, error: `limit must be a whole number from 1 to ${MAX_PAGE_SIZE}` });
+      }
+
+      reply.send({
+        success: true,
+        blocks: blockHistory.list(pageSize, beforeIndex)
+      });
+    });
+
+    this.app.get('/blocks/latest', async (request, reply) => {
+      const block = blockHistory.getLatest();
+      if (!block) {
+        return reply.status(404).send({ success: false, error: 'No blocks recorded yet' });
+      }
+      reply.send({ success: true, block });
+    });
+
+    this.app.get('/blocks/:index', async (request, reply) => {
+      const index = parseInt((request.params as { index: string }).index);
+      if (isNaN(index)) {
+        return reply.status(400).send({ success: false, error: 'index must be a block index' });
+      }
+
+      const block = blockHistory.get(index);
+      if (!block) {
+        return reply.status(404).send({ success: false, error: 'Block not in history' });
+      }
+      reply.send({ success: true, block });
+    });
+
+    // Outbox admin: inspect queued / dead-lettered Backend notifications
+    this.app.get('/admin/outbox', async (request, reply) => {
+      if (!this.checkAuthorization(request, reply)) {
+        return;
+      }
+
+      const { status, limit } = request.query as { status?: string; limit?: string };
+      if (status && !['pending', 'delivered', 'dead'].includes(status)) {
+        return reply.status(400).send({ success: false, error: 'status must be one of: pending, delivered, dead' });
+      }
+      const pageSize = this.parseLimit(limit);
+      if (pageSize === undefined) {
+        return reply.status(400).send({ success: false, error: `limit must be a whole number from 1 to ${MAX_PAGE_SIZE}` });
+      }
+
+      reply.send({
+        success: true,
+        stats: outbox.getStats(),
+        messages: outbox.list(status as OutboxStatus | undefined, pageSize)
+      });
+    });
+
+    this.app.get('/admin/outbox/:id', async (request, reply) => {
+      if (!this.checkAuthorization(request, reply)) {
+        return;
+      }
+
+      const message = outbox.get(parseInt((request.params as { id: string }).id));
+      if (!message) {
+        return reply.status(404).send({ success: false, error: 'Outbox message not found' });
+      }
+      reply.send({ success: true, message });
+    });
+
+    // Outbox admin: replay a stuck message, or every dead-lettered one
+    this.app.post('/admin/outbox/:id/replay', async (request, reply) => {
+      if (!this.checkAuthorization(request, reply)) {
+        return;
+      }
+
+      const id = parseInt((request.params as { id: string }).id);
+      if (!outbox.replay(id)) {
+        return reply.status(404).send({ success: false, error: 'No replayable outbox message with that id' });
+      }
+
+      this.log('🔁 Outbox message replayed via API', { id });
+      reply.send({ success: true, id, replayed_at: new Date().toISOString() });
+    });
+
+    this.app.post('/admin/outbox/replay-dead', async (request, reply) => {
+      if (!this.checkAuthorization(request, reply)) {
+        return;
+      }
+
+      const replayed = outbox.replayDead();
+      this.log('🔁 Dead-lettered outbox messages replayed via API', { replayed });
+      reply.send({ success: true, replayed, replayed_at: new Date().toISOString() });
+    });
+
+    // Transaction admin: submitted transactions and their confirmation status
+    this.app.get('/admin/transactions', async (request, reply) => {
+      if (!this.checkAuthorization(request, reply)) {
+        return;
+      }
+
+      const { status, limit } = request.query as { status?: string; limit?: string };
+      if (status && !transactionTracker.isStatus(status)) {
+        return reply.status(400).send({ success: false, error: 'status must be one of: PENDING, SUCCESS, FAILED, NOT_FOUND' });
+      }
+      const pageSize = this.parseLimit(limit);
+      if (pageSize === undefined) {
+        return reply.status(400).send({ success: false, error: `limit must be a whole number from 1 to ${MAX_PAGE_SIZE}` });
+      }
+
+      reply.send({
+        success: true,
+        stats: transactionTracker.getStats(),
+        transactions: transactionTracker.list(status as TransactionStatus | undefined, pageSize)
+      });
+    });
+
+    this.app.get('/admin/transactions/:hash', async (request, reply) => {
+      if (!this.checkAuthorization(request, reply)) {
+        return;
+      }
+
+      const transaction = transactionTracker.get((request.params as { hash: string }).hash);
+      if (!transaction) {
+        return reply.status(404).send({ success: false, error: 'Transaction not tracked' });
+      }
+      reply.send({ success: true, transaction });
+    });
+
+    // Fee admin: fee spend against the per-block and per-day caps
+    this.app.get('/admin/fees', async (request, reply) => {
+      if (!this.checkAuthorization(request, reply)) {
+        return;
+      }
+
+      reply.send({ success: true, fees: feeManager.getSpendReport() });
     });
 
     // Emergency stop endpoint (debug)
@@ -381,7 +586,6 @@ class PoolerService {
           plantedFarmers: farmers.map((farmer: any) => ({
             farmerId: farmer.farmerId || `test-farmer-${Math.random().toString(36).substring(7)}`,
             custodialWallet: farmer.custodialWallet || 'GBQHTQ7NTSKHVTSVM6EHUO3TU4P4BK2TAAII25V2TT2Q6OWXUJWEKALE',
-            custodialSecretKey: farmer.custodialSecretKey || 'SCQHTQ7NTSKHVTSVM6EHUO3TU4P4BK2TAAII25V2TT2Q6OWXUJWEKALE',
             stakeAmount: farmer.stakeAmount || '1000000',
             plantingTime: new Date()
           }))
@@ -440,7 +644,6 @@ class PoolerService {
           plantedFarmers: [{
             farmerId: 'test-farmer-123',
             custodialWallet: 'GBQHTQ7NTSKHVTSVM6EHUO3TU4P4BK2TAAII25V2TT2Q6OWXUJWEKALE',
-            custodialSecretKey: 'SAQHTQ7NTSKHVTSVM6EHUO3TU4P4BK2TAAII25V2TT2Q6OWXUJWEKALE',
             stakeAmount: '1000000',
             plantingTime: new Date().toISOString()
           }],
@@ -451,15 +654,16 @@ class PoolerService {
           timestamp: new Date().toISOString()
         };
 
-        // Simulate the enhanced planting notification
-        const response = await fetch('http://localhost:3001/backend/planting-status', {
+        // Simulate the enhanced planting notification, signed the way the Backend signs it
+        const body = JSON.stringify(mockNotification);
+        const response = await fetch(`http://localhost:${Config.POOLER.PORT}/backend/planting-status`, {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
-            'Authorization': `Bearer ${Config.POOLER.AUTH_TOKEN}`,
-            'X-Backend-ID': 'test-backend'
+            'X-Backend-ID': 'test-backend',
+            ...requestAuth.sign({ method: 'POST', path: '/backend/planting-status', body })
           },
-          body: JSON.stringify(mockNotification)
+          body
         });
 
         const result = await response.json();
@@ -491,6 +695,95 @@ class PoolerService {
     }
   }
 
+  /**
+   * preValidation hook that maps an unversioned legacy body onto the current schema version
+   */
+  private adaptLegacyBody(route: string, adapt: (body: Record<string, any>) => unknown) {
+    return async (request: FastifyRequest) => {
+      if (isLegacyPayload(request.body)) {
+        request.body = adapt(request.body);
+        logger.debug('Adapted legacy Backend payload', { route });
+      }
+    };
+  }
+
+  /**
+   * Field-level 400 for a body that failed schema validation
+   */
+  private sendValidationError(reply: FastifyReply, error: FastifyRequest['validationError'], schemaId: string) {
+    const fields = ((error?.validation ?? []) as FastifySchemaValidationError[]).map(issue => {
+      const path = issue.instancePath.split('/').filter(Boolean)
+        .map(segment => /^\d+$/.test(segment) ? `[${segment}]` : `.${segment}`)
+        .join('')
+        .replace(/^\./, '');
+      const property = (issue.params.missingProperty ?? issue.params.additionalProperty) as string | undefined;
+
+      return {
+        field: property ? (path ? `${path}.${property}` : property) : path || '(body)',
+        message: issue.keyword === 'additionalProperties' ? 'is not allowed' : issue.message ?? 'is invalid'
+      };
+    });
+
+    return reply.status(400).send({
+      success: false,
+      error: 'Invalid payload',
+      schema: schemaId,
+      fields
+    });
+  }
+
+  /**
+   * preValidation hook for Backend routes: rejects requests without a valid HMAC signature
+   */
+  private requireSignature() {
+    return async (request: FastifyRequest, reply: FastifyReply) => {
+      const result = requestAuth.verify({
+        method: request.method,
+        path: request.raw.url ?? request.url,
+        body: request.rawBody ?? ''
+      }, request.headers);
+
+      if (!result.ok) {
+        logger.warn('Rejected unsigned or invalid Backend request', {
+          route: request.routeOptions.url,
+          ip: request.ip,
+          error: result.error
+        });
+        return reply.status(result.status).send({ success: false, error: result.error });
+      }
+    };
+  }
+
+  /**
+   * Page size from a `limit` query value: DEFAULT_PAGE_SIZE when absent, capped at MAX_PAGE_SIZE, undefined when it
+   * isn't a positive whole number (SQLite reads LIMIT -1 as no limit)
+   */
+  private parseLimit(limit: string | undefined): number | undefined {
+    if (limit === undefined || limit === '') {
+      return DEFAULT_PAGE_SIZE;
+    }
+    if (!/^\d+$/.test(limit) || parseInt(limit) < 1) {
+      return undefined;
+    }
+    return Math.min(parseInt(limit), MAX_PAGE_SIZE);
+  }
+
+  /**
+   * Check the operator Bearer token; sends 401/403 and returns false when it is missing or wrong
+   */
+  private checkAuthorization(request: FastifyRequest, reply: FastifyReply): boolean {
+    const result = requestAuth.verifyBearer(request.headers.authorization);
+    if (!result.ok) {
+      reply.status(result.status).send({ 
+        success: false, 
+        error: result.error 
+      });
+      return false;
+    }
+
+    return true;
+  }
+
   /**
    * Setup graceful shutdown handlers
    */
@@ -502,9 +795,21 @@ class PoolerService {
         // Stop block monitoring first
         await this.blockMonitor.stopMonitoring();
         
-        // Close Fastify server
+        // Drop event stream subscribers, then close Fastify server
+        this.eventStreams.forEach(close => close());
+        this.eventSocket.close();
         await this.app.close();
         
+        // Flush and close the harvester, outbox and job store
+        rpcGateway.stop();
+        blockHistory.close();
+        requestAuth.close();
+        transactionTracker.close();
+        feeManager.close();
+        harvestManager.close();
+        outbox.close();
+        jobStore.close();
+        
         this.log('✅ Pooler service shut down gracefully');
         process.exit(0);
       } catch (error) {
@@ -517,6 +822,26 @@ class PoolerService {
     process.on('SIGTERM', () => gracefulShutdown('SIGTERM'));
   }
 
+  /**
+   * Re-schedule or finalize work jobs left unfinished by a previous run
+   */
+  private async recoverStoredWork(): Promise<void> {
+    try {
+      const contractData = await this.blockMonitor.getCurrentContractData();
+      const recovery = await poolCoordinator.recoverPendingWork(contractData.index || undefined);
+
+      if (recovery.rescheduled.length > 0 || recovery.finalized.length > 0) {
+        this.log('♻️  Recovered stored work jobs', {
+          rescheduled_blocks: recovery.rescheduled,
+          finalized_blocks: recovery.finalized
+        });
+      }
+    } catch (error) {
+      this.logError('Failed to recover stored work jobs', error);
+      // Don't throw - new blocks can still be worked
+    }
+  }
+
   /**
    * Check for recent blocks on startup and send discovery notification if needed
    */
@@ -555,8 +880,8 @@ class PoolerService {
           block_age_seconds: blockAgeSeconds
         });
 
-        // Send block discovery notification to Backend
-        await this.sendBlockDiscoveryNotification(blockIndex, contractData.block);
+        // Queue block discovery notification for the Backend
+        this.sendBlockDiscoveryNotification(blockIndex, contractData.block);
       } else {
         logger.info('⏰ Block is too old - skipping startup discovery', {
           block_index: blockIndex,
@@ -572,54 +897,41 @@ class PoolerService {
   }
 
   /**
-   * Send block discovery notification to Backend
+   * Queue block discovery notification for the Backend
    */
-  private async sendBlockDiscoveryNotification(blockIndex: number, block: any): Promise<void> {
-    try {
-      const entropy = block.entropy ? block.entropy.toString('hex') : '';
-      const blockTimestamp = block.timestamp;
-      const currentTimeMs = Date.now();
-      const blockTimeMs = typeof blockTimestamp === 'bigint' 
-        ? Number(blockTimestamp) * 1000 
-        : blockTimestamp * 1000;
-      const blockAgeSeconds = Math.floor((currentTimeMs - blockTimeMs) / 1000);
-
-      const notification = {
-        poolerId: Config.POOLER.ID,
-        blockIndex,
-        entropy,
-        blockTimestamp: Math.floor(blockTimeMs / 1000), // Convert to seconds
-        blockAge: blockAgeSeconds,
-        discoveredAt: new Date().toISOString(),
-        source: 'startup_check'
-      };
-
-      const response = await fetch(`${Config.BACKEND_API.URL}/pooler/block-discovered`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'User-Agent': 'KALE-Pool-Pooler/1.0.0'
-        },
-        body: JSON.stringify(notification),
-        signal: AbortSignal.timeout(Config.BACKEND_API.TIMEOUT_MS)
-      });
-
-      if (!response.ok) {
-        throw new Error(`Backend notification failed: ${response.status} ${response.statusText}`);
-      }
+  private sendBlockDiscoveryNotification(blockIndex: number, block: any): void {
+    const entropy = block.entropy ? block.entropy.toString('hex') : '';
+    const blockTimestamp = block.timestamp;
+    const currentTimeMs = Date.now();
+    const blockTimeMs = typeof blockTimestamp === 'bigint' 
+      ? Number(blockTimestamp) * 1000 
+      : blockTimestamp * 1000;
+    const blockAgeSeconds = Math.floor((currentTimeMs - blockTimeMs) / 1000);
+
+    const notification = {
+      poolerId: Config.POOLER.ID,
+      blockIndex,
+      entropy,
+      blockTimestamp: Math.floor(blockTimeMs / 1000), // Convert to seconds
+      blockAge: blockAgeSeconds,
+      discoveredAt: new Date().toISOString(),
+      source: 'startup_check'
+    };
 
-      const result = await response.json();
-      
-      logger.info('✅ Startup block discovery notification sent successfully', {
-        block_index: blockIndex,
-        response_status: response.status,
-        backend_response: result
-      });
+    // Same key as the block monitor's notification, so the block is delivered once whichever queues it first
+    const queued = outbox.enqueue({
+      eventType: 'block_discovered',
+      idempotencyKey: `block-discovered:${Config.POOLER.ID}:${blockIndex}`,
+      url: `${Config.BACKEND_API.URL}/pooler/block-discovered`,
+      payload: notification,
+      headers: { 'User-Agent': 'KALE-Pool-Pooler/1.0.0' },
+      authenticated: true
+    });
 
-    } catch (error) {
-      logger.error('Failed to send startup block discovery notification', error as Error);
-      throw error; // Re-throw so caller can handle
-    }
+    logger.info('✅ Startup block discovery notification queued', {
+      block_index: blockIndex,
+      already_queued: !queued
+    });
   }
 
   /**
@@ -635,13 +947,24 @@ class PoolerService {
       const host = Config.POOLER.HOST;
       
       await this.app.listen({ port, host });
+      this.eventSocket.attach(this.app.server);
       this.log(`🚀 Pooler HTTP server started`, { host, port });
 
+      // Track RPC endpoint health, then resume delivering queued Backend notifications
+      rpcGateway.start();
+      outbox.start();
+
+      // Harvest worked pails as their blocks close
+      harvestManager.start();
+
       // Start block monitoring after a brief delay
       setTimeout(async () => {
         try {
           await this.blockMonitor.startMonitoring();
           
+          // Pick up work stored by a previous run before new blocks arrive
+          await this.recoverStoredWork();
+          
           // Check for recent blocks on startup and send discovery if needed
           await this.checkStartupBlockDiscovery();
           
@@ -0,0 +1,184 @@
+// Block History for KALE Pool Mining Pooler
+// Rolling, persisted record of discovered blocks joined with the pool's farmer activity
+
+import { Database } from 'bun:sqlite';
+import { mkdirSync } from 'fs';
+import { dirname } from 'path';
+import { jobStore } from './job-store';
+import { harvestManager } from './harvest-manager';
+import Config from '../../../Shared/config';
+import { blockMonitorLogger as logger } from '../../../Shared/utils/logger';
+import type { BlockDiscoveryEvent } from '../types/block-types';
+
+// Decoded block; i128 values as decimal strings
+export interface BlockHistoryEntry {
+  index: number;
+  timestamp: number | null; // Block timestamp (seconds)
+  entropy: string;
+  minGap: number;
+  maxGap: number;
+  minStake: string;
+  maxStake: string;
+  minZeros: number;
+  maxZeros: number;
+  stakedTotal: string | null;
+  normalizedTotal: string | null;
+  discoveredAt: string;
+  discoveryLatencyMs: number | null; // Block timestamp to discovery
+  backfilled: boolean;
+}
+
+export interface BlockFarmerActivity {
+  planted: string[];
+  worked: string[];
+  harvested: Array<{ farmerId: string; reward?: string; transactionHash?: string }>;
+}
+
+export type BlockHistoryDetail = BlockHistoryEntry & { farmers: BlockFarmerActivity };
+
+class BlockHistory {
+  private db: Database;
+  private readonly MAX_BLOCKS = Config.BLOCK_HISTORY.MAX_BLOCKS;
+
+  constructor(path: string) {
+    if (path !== ':memory:') {
+      mkdirSync(dirname(path), { recursive: true });
+    }
+
+    this.db = new Database(path, { create: true });
+    this.db.exec('PRAGMA journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS block_history (
+        block_index INTEGER PRIMARY KEY,
+        block_timestamp INTEGER,
+        entropy TEXT NOT NULL,
+        min_gap INTEGER NOT NULL,
+        max_gap INTEGER NOT NULL,
+        min_stake TEXT NOT NULL,
+        max_stake TEXT NOT NULL,
+        min_zeros INTEGER NOT NULL,
+        max_zeros INTEGER NOT NULL,
+        staked_total TEXT,
+        normalized_total TEXT,
+        discovered_at TEXT NOT NULL,
+        discovery_latency_ms INTEGER,
+        backfilled INTEGER NOT NULL DEFAULT 0
+      );
+    `);
+
+    logger.info('BlockHistory initialized', { path, max_blocks: this.MAX_BLOCKS });
+  }
+
+  /**
+   * Store a discovered block and drop entries beyond the rolling window
+   */
+  record(event: BlockDiscoveryEvent): void {
+    const block = event.block;
+    const blockTimestamp = block?.timestamp !== undefined ? Number(block.timestamp) : null;
+
+    this.db.prepare(`
+      INSERT INTO block_history
+        (block_index, block_timestamp, entropy, min_gap, max_gap, min_stake, max_stake, min_zeros, max_zeros,
+         staked_total, normalized_total, discovered_at, discovery_latency_ms, backfilled)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT (block_index) DO UPDATE SET
+        block_timestamp = excluded.block_timestamp,
+        entropy = excluded.entropy,
+        min_gap = excluded.min_gap,
+        max_gap = excluded.max_gap,
+        min_stake = excluded.min_stake,
+        max_stake = excluded.max_stake,
+        min_zeros = excluded.min_zeros,
+        max_zeros = excluded.max_zeros,
+        staked_total = excluded.staked_total,
+        normalized_total = excluded.normalized_total
+    `).run(
+      event.newIndex,
+      blockTimestamp,
+      event.entropy,
+      Number(block?.min_gap ?? 0),
+      Number(block?.max_gap ?? 0),
+      (block?.min_stake ?? 0n).toString(),
+      (block?.max_stake ?? 0n).toString(),
+      Number(block?.min_zeros ?? 0),
+      Number(block?.max_zeros ?? 0),
+      block?.staked_total?.toString() ?? null,
+      block?.normalized_total?.toString() ?? null,
+      event.timestamp.toISOString(),
+      blockTimestamp !== null ? event.timestamp.getTime() - blockTimestamp * 1000 : null,
+      event.backfilled ? 1 : 0
+    );
+
+    this.db.prepare(`
+      DELETE FROM block_history WHERE block_index <= (SELECT MAX(block_index) FROM block_history) - ?
+    `).run(this.MAX_BLOCKS);
+  }
+
+  /**
+   * Most recent blocks first, optionally only those below an index
+   */
+  list(limit = 50, before?: number): BlockHistoryEntry[] {
+    const rows = before !== undefined
+      ? this.db.prepare(`SELECT * FROM block_history WHERE block_index < ? ORDER BY block_index DESC LIMIT ?`).all(before, limit)
+      : this.db.prepare(`SELECT * FROM block_history ORDER BY block_index DESC LIMIT ?`).all(limit);
+
+    return (rows as any[]).map(row => this.toEntry(row));
+  }
+
+  /**
+   * A block with the pool's planted / worked / harvested farmers
+   */
+  get(blockIndex: number): BlockHistoryDetail | undefined {
+    const row = this.db.prepare(`SELECT * FROM block_history WHERE block_index = ?`).get(blockIndex);
+    return row ? { ...this.toEntry(row), farmers: this.getFarmerActivity(blockIndex) } : undefined;
+  }
+
+  /**
+   * The newest stored block
+   */
+  getLatest(): BlockHistoryDetail | undefined {
+    const row = this.db.prepare(`SELECT block_index FROM block_history ORDER BY block_index DESC LIMIT 1`).get() as
+      { block_index: number } | null;
+    return row ? this.get(row.block_index) : undefined;
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private getFarmerActivity(blockIndex: number): BlockFarmerActivity {
+    const jobs = jobStore.getBlockJobs(blockIndex);
+
+    return {
+      planted: jobs.map(job => job.farmerId),
+      worked: jobs
+        .filter(job => job.result?.status === 'success' || job.result?.status === 'recovered')
+        .map(job => job.farmerId),
+      harvested: harvestManager.getBlockHarvests(blockIndex)
+        .filter(harvest => harvest.status === 'harvested')
+        .map(harvest => ({ farmerId: harvest.farmerId, reward: harvest.reward, transactionHash: harvest.transactionHash }))
+    };
+  }
+
+  private toEntry(row: any): BlockHistoryEntry {
+    return {
+      index: row.block_index,
+      timestamp: row.block_timestamp ?? null,
+      entropy: row.entropy,
+      minGap: row.min_gap,
+      maxGap: row.max_gap,
+      minStake: row.min_stake,
+      maxStake: row.max_stake,
+      minZeros: row.min_zeros,
+      maxZeros: row.max_zeros,
+      stakedTotal: row.staked_total ?? null,
+      normalizedTotal: row.normalized_total ?? null,
+      discoveredAt: row.discovered_at,
+      discoveryLatencyMs: row.discovery_latency_ms ?? null,
+      backfilled: row.backfilled === 1
+    };
+  }
+}
+
+// Export singleton instance (shares the job store's SQLite file)
+export const blockHistory = new BlockHistory(Config.JOB_STORE.PATH);
@@ -2,11 +2,17 @@
 // Based on enhanced-farmer.ts pattern from KALE-farmer reference
 
 import { scValToNative, xdr } from '@stellar/stellar-sdk';
-import { Server, Durability } from '@stellar/stellar-sdk/rpc';
+import { Durability } from '@stellar/stellar-sdk/rpc';
 import * as dotenv from 'dotenv';
 import chalk from 'chalk';
 import { blockMonitorLogger as logger } from '../../../Shared/utils/logger';
 import Config from '../../../Shared/config';
+import { outbox } from './outbox';
+import { rpcGateway } from './rpc-gateway';
+import { ContractEventStream, type KaleContractEvent } from './contract-event-stream';
+import { blockHistory } from './block-history';
+import { poolEvents } from './pool-events';
+import { BLOCK_INTERVAL_SECONDS } from '../../../Shared/types/blockchain';
 import { calculateTimingPredictions, formatISTTime, getISTDate } from '../../../Shared/utils/timing';
 import type { 
   ContractData, 
@@ -16,29 +22,50 @@ import type {
   PoolerState,
   BlockMonitorConfig,
   BackendNotification,
-  BackendResponse
+  BackendResponse,
+  FarmState,
+  FarmStateChange
 } from '../types/block-types';
 
+// Oldest skipped blocks are not fetched beyond this many
+const MAX_BACKFILL_BLOCKS = 20;
+
 // Load environment configuration
 dotenv.config({ path: '.env.mainnet' });
 
 class BlockMonitor {
-  private rpc: Server;
   private state: PoolerState;
   private config: BlockMonitorConfig;
   private monitoringInterval: NodeJS.Timeout | null = null;
   private isShuttingDown = false;
 
+  // Farm pause / upgrade tracking, read alongside FarmIndex
+  private farmState: FarmState | null = null;
+  private farmStateChangedAt: Date | null = null;
+  private farmStateListeners: Array<(change: FarmStateChange) => void | Promise<void>> = [];
+
+  // Event-driven discovery (BLOCK_DISCOVERY_MODE=events)
+  private eventStream = new ContractEventStream();
+  private currentBlockTimeMs: number | null = null;
+  private lastIndexCheckAt = 0;
+  private eventDiscovery = {
+    fallbackActive: false,
+    eventsProcessed: 0,
+    eventCounts: {} as Record<string, number>,
+    lastEventLedger: 0,
+    lagLedgers: 0
+  };
+
   constructor() {
-    // Initialize Stellar RPC connection
-    this.rpc = new Server(Config.STELLAR.RPC_URL);
-    
     // Initialize pooler state
     this.state = {
       currentBlockIndex: 0,
       lastBlockTimestamp: null,
       isMonitoring: false,
       consecutiveMissedBlocks: 0,
+      missedBlockAlert: false,
+      totalBlocksBackfilled: 0,
+      totalBlocksLost: 0,
       totalBlocksDiscovered: 0,
       startTime: new Date(),
       lastNotificationSent: null,
@@ -57,11 +84,19 @@ class BlockMonitor {
     };
 
     this.log('BlockMonitor initialized', {
-      rpc_url: Config.STELLAR.RPC_URL,
+      rpc_urls: Config.STELLAR.RPC_URLS,
       contract_id: Config.STELLAR.CONTRACT_ID,
       poll_interval: this.config.pollIntervalMs,
       backend_url: this.config.backendApiUrl
     });
+
+    outbox.onDelivered('block_discovered', (_payload, result: BackendResponse | null) => {
+      this.state.lastNotificationSent = new Date();
+      this.log('✅ Backend notified successfully', {
+        acknowledged: result?.acknowledged,
+        message: result?.message
+      });
+    });
   }
 
   /**
@@ -75,13 +110,15 @@ class BlockMonitor {
 
     this.log('🔍 Starting KALE block monitoring...', { 
       network: Config.STELLAR.NETWORK,
-      contract: Config.STELLAR.CONTRACT_ID
+      contract: Config.STELLAR.CONTRACT_ID,
+      discovery_mode: Config.BLOCK_MONITOR.DISCOVERY_MODE
     });
 
     try {
       // Get initial block index
       const initialData = await this.getContractData();
       this.state.currentBlockIndex = initialData.index;
+      this.currentBlockTimeMs = initialData.block?.timestamp ? Number(initialData.block.timestamp) * 1000 : null;
       this.state.isMonitoring = true;
       
       this.log('📊 Initial block state', {
@@ -90,16 +127,21 @@ class BlockMonitor {
         has_pail_data: !!initialData.pail
       });
 
+      // Events mode follows contract events and only reads FarmIndex when they point to a new block
+      const useEvents = Config.BLOCK_MONITOR.DISCOVERY_MODE === 'events';
+      const check = () => useEvents ? this.checkForNewEvents() : this.checkForNewBlocks();
+      const intervalMs = useEvents ? Config.BLOCK_MONITOR.EVENT_POLL_INTERVAL_MS : this.config.pollIntervalMs;
+
       // Start monitoring loop with initial delay
       setTimeout(() => {
         this.monitoringInterval = setInterval(() => {
-          this.checkForNewBlocks().catch(error => {
+          check().catch(error => {
             this.logError('Monitoring loop error', error);
           });
-        }, this.config.pollIntervalMs);
+        }, intervalMs);
 
         // Run first check immediately after delay
-        this.checkForNewBlocks().catch(error => {
+        check().catch(error => {
           this.logError('Initial block check error', error);
         });
       }, this.config.initialDelayMs);
@@ -142,6 +184,7 @@ class BlockMonitor {
 
     try {
       // Get current contract state
+      this.lastIndexCheckAt = Date.now();
       const contractData = await this.getContractData();
       
       // Check for new block
@@ -167,6 +210,74 @@ class BlockMonitor {
     }
   }
 
+  /**
+   * Follow contract events; read FarmIndex only when they hint at a new block,
+   * the current block is past its interval, or the event stream has fallen behind
+   */
+  private async checkForNewEvents(): Promise<void> {
+    if (this.isShuttingDown) {
+      return;
+    }
+
+    let needsIndexCheck: boolean;
+    try {
+      const batch = await this.eventStream.poll();
+      this.recordEvents(batch.events, batch.lagLedgers);
+
+      const blockElapsed = this.currentBlockTimeMs === null
+        || Date.now() - this.currentBlockTimeMs >= BLOCK_INTERVAL_SECONDS * 1000;
+      const newBlockHinted = batch.events.some(event => event.blockIndex !== undefined
+        ? event.blockIndex > this.state.currentBlockIndex
+        : event.type === 'plant' && blockElapsed);
+      const overdueCheck = blockElapsed && Date.now() - this.lastIndexCheckAt >= this.config.pollIntervalMs;
+
+      this.setEventFallback(batch.behind, `event stream ${batch.lagLedgers} ledgers behind`);
+      needsIndexCheck = batch.behind || newBlockHinted || overdueCheck;
+
+    } catch (error) {
+      // A cursor outside the RPC's retention window can't be resumed - start again from the tip
+      this.eventStream.reset();
+      this.setEventFallback(true, (error as Error).message);
+      needsIndexCheck = Date.now() - this.lastIndexCheckAt >= this.config.pollIntervalMs;
+    }
+
+    if (needsIndexCheck) {
+      await this.checkForNewBlocks();
+    }
+  }
+
+  /**
+   * Count processed contract events by type
+   */
+  private recordEvents(events: KaleContractEvent[], lagLedgers: number): void {
+    for (const event of events) {
+      this.eventDiscovery.eventCounts[event.type] = (this.eventDiscovery.eventCounts[event.type] ?? 0) + 1;
+      this.eventDiscovery.lastEventLedger = event.ledger;
+
+      logger.debug(`Contract event ${JSON.stringify({
+        type: event.type,
+        farmer: event.farmer,
+        block_index: event.blockIndex,
+        ledger: event.ledger
+      })}`);
+    }
+    this.eventDiscovery.eventsProcessed += events.length;
+    this.eventDiscovery.lagLedgers = lagLedgers;
+  }
+
+  private setEventFallback(active: boolean, reason: string): void {
+    if (active === this.eventDiscovery.fallbackActive) {
+      return;
+    }
+    this.eventDiscovery.fallbackActive = active;
+
+    if (active) {
+      this.log('⚠️ Event discovery degraded - falling back to FarmIndex polling', { reason });
+    } else {
+      this.log('✅ Event discovery caught up - polling fallback off');
+    }
+  }
+
   /**
    * Handle new block discovery
    */
@@ -209,8 +320,8 @@ class BlockMonitor {
     // Update state
     this.state.currentBlockIndex = newIndex;
     this.state.lastBlockTimestamp = blockTimestamp;
+    this.currentBlockTimeMs = blockTimestamp.getTime();
     this.state.totalBlocksDiscovered++;
-    this.state.consecutiveMissedBlocks = 0;
 
     // Create block discovery event
     const blockEvent: BlockDiscoveryEvent = {
@@ -230,13 +341,100 @@ class BlockMonitor {
       total_discovered: this.state.totalBlocksDiscovered
     });
 
-    // Notify backend
+    this.recordHistory(blockEvent);
+
+    // Notify backend first - the new block is the only one that can still be planted
     await this.notifyBackend(blockEvent);
 
+    // Then recover any blocks skipped between the previous and the new index
+    await this.backfillSkippedBlocks(previousIndex, newIndex);
+
     // Log discovery summary
     this.logBlockSummary(contractData, blockEvent);
   }
 
+  /**
+   * Fetch blocks skipped by an index jump from temporary storage and emit them as backfilled
+   */
+  private async backfillSkippedBlocks(previousIndex: number, newIndex: number): Promise<void> {
+    // Nothing to compare against on the first discovery
+    if (previousIndex <= 0 || newIndex <= previousIndex + 1) {
+      this.state.consecutiveMissedBlocks = 0;
+      if (this.state.missedBlockAlert) {
+        this.state.missedBlockAlert = false;
+        this.log('✅ Blocks discovered in sequence again - missed block alert cleared');
+      }
+      return;
+    }
+
+    const skipped = newIndex - previousIndex - 1;
+    this.state.consecutiveMissedBlocks += skipped;
+
+    this.log(chalk.yellow.bold(`⚠️ ${skipped} block(s) skipped: ${previousIndex + 1} - ${newIndex - 1}`), {
+      consecutive_missed_blocks: this.state.consecutiveMissedBlocks,
+      max_missed_blocks: this.config.maxMissedBlocks
+    });
+
+    if (this.state.consecutiveMissedBlocks > this.config.maxMissedBlocks && !this.state.missedBlockAlert) {
+      this.state.missedBlockAlert = true;
+      logger.error('Missed block threshold exceeded', undefined, {
+        consecutive_missed_blocks: this.state.consecutiveMissedBlocks,
+        max_missed_blocks: this.config.maxMissedBlocks
+      });
+    }
+
+    // Only the most recent skipped blocks are worth fetching - older ones have expired
+    const firstIndex = Math.max(previousIndex + 1, newIndex - MAX_BACKFILL_BLOCKS);
+    this.state.totalBlocksLost += firstIndex - (previousIndex + 1);
+
+    for (let index = firstIndex; index < newIndex; index++) {
+      const block = await this.getBlock(Config.STELLAR.CONTRACT_ID, index);
+      if (!block) {
+        this.state.totalBlocksLost++;
+        continue;
+      }
+
+      const now = new Date();
+      const blockTimestamp = block.timestamp ? new Date(Number(block.timestamp) * 1000) : now;
+      this.state.totalBlocksBackfilled++;
+
+      const backfillEvent: BlockDiscoveryEvent = {
+        previousIndex: index - 1,
+        newIndex: index,
+        block,
+        entropy: block.entropy?.toString('hex') || Buffer.alloc(32).toString('hex'),
+        timestamp: now,
+        blockAge: Math.floor((now.getTime() - blockTimestamp.getTime()) / 1000),
+        backfilled: true
+      };
+      this.recordHistory(backfillEvent);
+      await this.notifyBackend(backfillEvent);
+    }
+
+    this.log('📥 Skipped blocks backfilled', {
+      backfilled: this.state.totalBlocksBackfilled,
+      lost: this.state.totalBlocksLost
+    });
+  }
+
+  /**
+   * Keep the block in the local history (never blocks discovery)
+   */
+  private recordHistory(blockEvent: BlockDiscoveryEvent): void {
+    poolEvents.publish('block_discovered', {
+      previousIndex: blockEvent.previousIndex,
+      entropy: blockEvent.entropy,
+      blockTimestamp: blockEvent.block?.timestamp !== undefined ? Number(blockEvent.block.timestamp) : null,
+      backfilled: blockEvent.backfilled ?? false
+    }, { blockIndex: blockEvent.newIndex });
+
+    try {
+      blockHistory.record(blockEvent);
+    } catch (error) {
+      this.logError('Failed to record block history', error, { block_index: blockEvent.newIndex });
+    }
+  }
+
   /**
    * Notify backend of new block discovery
    */
@@ -251,13 +449,14 @@ class BlockMonitor {
           timestamp: blockEvent.timestamp.toISOString(),
           entropy: blockEvent.entropy,
           blockAge: blockEvent.blockAge,
-          plantable: blockEvent.blockAge >= 30 && blockEvent.blockAge < 240,
+          plantable: !blockEvent.backfilled && blockEvent.blockAge >= 30 && blockEvent.blockAge < 240,
           min_stake: blockEvent.block?.min_stake?.toString() || '0',
           max_stake: blockEvent.block?.max_stake?.toString() || '0',
           min_zeros: Number(blockEvent.block?.min_zeros) || 0,
           max_zeros: Number(blockEvent.block?.max_zeros) || 0,
           min_gap: Number(blockEvent.block?.min_gap) || 0,
           max_gap: Number(blockEvent.block?.max_gap) || 0,
+          backfilled: blockEvent.backfilled,
         },
         metadata: {
           discoveredAt: blockEvent.timestamp.toISOString(),
@@ -271,29 +470,18 @@ class BlockMonitor {
         block_index: blockEvent.newIndex
       });
 
-      const response = await fetch(`${this.config.backendApiUrl}/pooler/block-discovered`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'User-Agent': 'KALE-Pool-Pooler/1.0.0'
-        },
-        body: JSON.stringify(notification),
-        signal: AbortSignal.timeout(this.config.backendTimeout)
+      // Queued in the outbox - delivery is retried until the Backend acknowledges it
+      outbox.enqueue({
+        eventType: 'block_discovered',
+        idempotencyKey: `block-discovered:${Config.POOLER.ID}:${blockEvent.newIndex}`,
+        url: `${this.config.backendApiUrl}/pooler/block-discovered`,
+        payload: notification,
+        headers: { 'User-Agent': 'KALE-Pool-Pooler/1.0.0' },
+        authenticated: true
       });
 
-      if (response.ok) {
-        const result: BackendResponse = await response.json();
-        this.state.lastNotificationSent = new Date();
-        this.log('✅ Backend notified successfully', {
-          acknowledged: result.acknowledged,
-          message: result.message
-        });
-      } else {
-        throw new Error(`Backend responded with status ${response.status}: ${await response.text()}`);
-      }
-
     } catch (error) {
-      this.logError('Failed to notify backend', error, {
+      this.logError('Failed to queue backend notification', error, {
         block_index: blockEvent.newIndex,
         backend_url: this.config.backendApiUrl
       });
@@ -315,10 +503,13 @@ class BlockMonitor {
     let index = 0;
     let block: KaleBlock | undefined;
     let pail: KalePail | undefined;
+    let farm: FarmState | undefined;
 
     try {
-      // Get farm index
-      index = await this.getIndex(contractId);
+      // Get farm index (with pause flag and wasm hash from the same instance read)
+      farm = await this.getFarmState(contractId);
+      index = farm.index;
+      await this.updateFarmState(farm);
       
       // Get block data if index > 0
       if (index > 0) {
@@ -330,33 +521,130 @@ class BlockMonitor {
       this.logError('Error getting contract data', error);
     }
 
-    return { index, block, pail };
+    return { index, block, pail, farm };
   }
 
   /**
-   * Get current farm index from contract
+   * Get farm index, pause flag and wasm hash from contract instance storage
    */
-  private async getIndex(contractId: string): Promise<number> {
-    const response = await this.rpc.getContractData(
+  private async getFarmState(contractId: string): Promise<FarmState> {
+    const response = await rpcGateway.call('get_farm_index', ({ server }) => server.getContractData(
       contractId,
       xdr.ScVal.scvLedgerKeyContractInstance()
-    );
+    ));
 
-    const storage = response.val
+    const instance = response.val
       .contractData()
       .val()
-      .instance()
-      .storage();
+      .instance();
+    const storage = instance.storage();
 
     let index = 0;
+    let paused = false;
     storage?.forEach((entry) => {
       const key: string = scValToNative(entry.key())[0];
       if (key === 'FarmIndex') {
         index = entry.val().u32();
+      } else if (key === 'FarmPaused') {
+        paused = scValToNative(entry.val()) === true;
+      }
+    });
+
+    const executable = instance.executable();
+    const wasmHash = executable.switch() === xdr.ContractExecutableType.contractExecutableWasm()
+      ? executable.wasmHash().toString('hex')
+      : null;
+
+    return { index, paused, wasmHash };
+  }
+
+  /**
+   * Register a handler for farm pause / resume / upgrade
+   */
+  onFarmStateChanged(listener: (change: FarmStateChange) => void | Promise<void>): void {
+    this.farmStateListeners.push(listener);
+  }
+
+  /**
+   * Compare with the last farm state and announce pause / resume / upgrade
+   */
+  private async updateFarmState(current: FarmState): Promise<void> {
+    const previous = this.farmState;
+    this.farmState = current;
+
+    const events: FarmStateChange['event'][] = [];
+    if (previous === null) {
+      // First read - only a farm that is already paused needs announcing
+      if (current.paused) {
+        events.push('farm_paused');
+      }
+    } else {
+      if (!previous.paused && current.paused) {
+        events.push('farm_paused');
+      } else if (previous.paused && !current.paused) {
+        events.push('farm_resumed');
       }
+      if (previous.wasmHash !== current.wasmHash) {
+        events.push('contract_upgraded');
+      }
+    }
+
+    for (const event of events) {
+      const change: FarmStateChange = { event, previous, current, detectedAt: new Date() };
+      this.farmStateChangedAt = change.detectedAt;
+
+      this.log(chalk.yellow.bold(`🚜 FARM STATE CHANGED: ${event}`), {
+        farm_index: current.index,
+        paused: current.paused,
+        previous_wasm_hash: previous?.wasmHash,
+        wasm_hash: current.wasmHash
+      });
+
+      this.notifyBackendFarmState(change);
+      poolEvents.publish('farm_state_changed', {
+        event,
+        paused: current.paused,
+        wasmHash: current.wasmHash,
+        previousWasmHash: previous?.wasmHash ?? null
+      }, { blockIndex: current.index });
+
+      for (const listener of this.farmStateListeners) {
+        try {
+          await listener(change);
+        } catch (error) {
+          this.logError('Farm state listener failed', error, { event });
+        }
+      }
+    }
+  }
+
+  /**
+   * Queue a farm pause / resume / upgrade notification for the Backend
+   */
+  private notifyBackendFarmState(change: FarmStateChange): void {
+    outbox.enqueue({
+      eventType: 'farm_state_changed',
+      idempotencyKey: `farm-state:${Config.POOLER.ID}:${change.event}:${change.current.wasmHash}:${change.detectedAt.getTime()}`,
+      url: `${this.config.backendApiUrl}/pooler/farm-state`,
+      payload: {
+        event: change.event,
+        poolerId: Config.POOLER.ID,
+        farmIndex: change.current.index,
+        paused: change.current.paused,
+        wasmHash: change.current.wasmHash,
+        previousWasmHash: change.previous?.wasmHash ?? null,
+        detectedAt: change.detectedAt.toISOString()
+      },
+      headers: { 'User-Agent': 'KALE-Pool-Pooler/1.0.0' },
+      authenticated: true
     });
+  }
 
-    return index;
+  /**
+   * Whether the farm was paused at the last read
+   */
+  isFarmPaused(): boolean {
+    return this.farmState?.paused ?? false;
   }
 
   /**
@@ -364,14 +652,14 @@ class BlockMonitor {
    */
   private async getBlock(contractId: string, index: number): Promise<KaleBlock | undefined> {
     try {
-      const response = await this.rpc.getContractData(
+      const response = await rpcGateway.call('get_block', ({ server }) => server.getContractData(
         contractId, 
         xdr.ScVal.scvVec([
           xdr.ScVal.scvSymbol('Block'),
           xdr.ScVal.scvU32(index)
         ]), 
         Durability.Temporary
-      );
+      ));
 
       const blockData = scValToNative(response.val.contractData().val());
       return {
@@ -429,7 +717,7 @@ class BlockMonitor {
 
     return {
       status: this.state.isMonitoring ? 
-        (this.state.errorCount < this.state.maxErrorCount ? 'healthy' : 'degraded') : 
+        (this.state.errorCount < this.state.maxErrorCount && !this.state.missedBlockAlert ? 'healthy' : 'degraded') : 
         'unhealthy',
       uptime: Math.floor(uptime / 1000),
       currentBlock: this.state.currentBlockIndex,
@@ -438,8 +726,28 @@ class BlockMonitor {
       errorCount: this.state.errorCount,
       isMonitoring: this.state.isMonitoring,
       lastNotification: this.state.lastNotificationSent?.toISOString() || null,
-      contractConnection: 'connected', // TODO: Add actual connection checking
-      backendConnection: 'connected'    // TODO: Add actual connection checking
+      missedBlocks: {
+        consecutive: this.state.consecutiveMissedBlocks,
+        threshold: this.config.maxMissedBlocks,
+        alert: this.state.missedBlockAlert,
+        backfilled: this.state.totalBlocksBackfilled,
+        lost: this.state.totalBlocksLost
+      },
+      farm: {
+        index: this.farmState?.index ?? null,
+        paused: this.farmState?.paused ?? null,
+        wasmHash: this.farmState?.wasmHash ?? null,
+        lastChangedAt: this.farmStateChangedAt?.toISOString() ?? null
+      },
+      contractConnection: rpcGateway.isAvailable() ? 'connected' : 'disconnected',
+      backendConnection: 'connected',    // TODO: Add actual connection checking
+      discovery: {
+        mode: Config.BLOCK_MONITOR.DISCOVERY_MODE,
+        ...(Config.BLOCK_MONITOR.DISCOVERY_MODE === 'events' ? {
+          ...this.eventDiscovery,
+          position: this.eventStream.getPosition()
+        } : {})
+      }
     };
   }
 
@@ -456,6 +764,7 @@ class BlockMonitor {
   private logError(message: string, error: any, data?: any): void {
     const errorObj = error instanceof Error ? error : new Error(String(error));
     logger.error(message, errorObj, data);
+    poolEvents.publish('error', { source: 'block_monitor', message, error: errorObj.message });
   }
 }
 
@@ -0,0 +1,340 @@
+// Compensation Executor for KALE Pool Mining Pooler
+// Carries out the Backend's compensation instructions and reports each outcome back
+
+import { WorkSubmissionService } from './work-submission-service';
+import { workManager, type WorkRequest, type WorkResult, type BlockParams } from './work-manager';
+import { jobStore, type StoredWorkBlock } from './job-store';
+import { outbox } from './outbox';
+import { harvestManager } from './harvest-manager';
+import { keyCustody } from './key-custody';
+import { BLOCK_INTERVAL_SECONDS } from '../../../Shared/types/blockchain';
+import { parseStakeAmount } from '../../../Shared/utils/kale-scoring';
+import { blockMonitorLogger as logger } from '../../../Shared/utils/logger';
+import Config from '../../../Shared/config';
+
+export type CompensationAction = 'retry_work' | 'replant_next_block' | 'credit_farmer' | 'ignore';
+
+export const COMPENSATION_ACTIONS: CompensationAction[] = ['retry_work', 'replant_next_block', 'credit_farmer', 'ignore'];
+
+export interface CompensationInstruction {
+  instructionId: string; // Backend-assigned; executed at most once per pooler run
+  action: CompensationAction;
+  farmerId: string;
+  blockIndex: number; // Block the failed work belonged to
+  custodialWallet?: string;
+  custodialKey?: string; // Sealed key or key reference - needed to sign the plant for replant_next_block
+  stakeAmount?: string;
+  amount?: string; // Credit amount (credit_farmer) - settled by the Backend
+  reason?: string;
+}
+
+export type CompensationOutcomeStatus = 'completed' | 'failed' | 'acknowledged' | 'skipped';
+
+export interface CompensationOutcome {
+  instructionId: string;
+  action: CompensationAction;
+  farmerId: string;
+  blockIndex: number;
+  status: CompensationOutcomeStatus;
+  detail?: string;
+  replantBlockIndex?: number;
+  plantTransactionHash?: string;
+  workResult?: WorkResult;
+  executedAt: string;
+}
+
+export interface CompensationReport {
+  poolerId: string;
+  sourceBlockIndex: number;
+  outcomes: CompensationOutcome[];
+  timestamp: string;
+}
+
+class CompensationExecutor {
+  private workSubmissionService = new WorkSubmissionService();
+  private executedInstructions = new Set<string>();
+
+  /**
+   * Validate raw instructions from a Backend response; malformed entries are dropped
+   */
+  parseInstructions(raw: unknown): CompensationInstruction[] {
+    if (!Array.isArray(raw)) {
+      return [];
+    }
+
+    const instructions: CompensationInstruction[] = [];
+    for (const entry of raw) {
+      const instructionId = entry?.instructionId ?? entry?.instruction_id ?? entry?.id;
+      const farmerId = entry?.farmerId ?? entry?.farmer_id;
+      const blockIndex = Number(entry?.blockIndex ?? entry?.block_index);
+
+      if (!instructionId || !farmerId || !Number.isInteger(blockIndex) || !COMPENSATION_ACTIONS.includes(entry?.action)) {
+        logger.warn('Dropping malformed compensation instruction', {
+          instruction_id: instructionId,
+          action: entry?.action,
+          farmer_id: farmerId
+        });
+        continue;
+      }
+
+      const custodialWallet = entry.custodialWallet ?? entry.custodial_wallet
+        ?? jobStore.getBlockJobs(blockIndex).find(job => job.farmerId === String(farmerId))?.custodialWallet;
+      const plaintextKey = entry.custodialSecretKey ?? entry.custodial_secret_key;
+
+      instructions.push({
+        instructionId: String(instructionId),
+        action: entry.action,
+        farmerId: String(farmerId),
+        blockIndex,
+        custodialWallet,
+        custodialKey: entry.custodialKey ?? entry.custodial_key
+          ?? (plaintextKey && custodialWallet ? keyCustody.acceptPlaintext(plaintextKey, custodialWallet) : undefined),
+        stakeAmount: entry.stakeAmount ?? entry.stake_amount,
+        amount: entry.amount !== undefined ? String(entry.amount) : undefined,
+        reason: entry.reason
+      });
+    }
+    return instructions;
+  }
+
+  /**
+   * Execute a batch of instructions and queue a report with every outcome
+   */
+  async execute(sourceBlockIndex: number, instructions: CompensationInstruction[]): Promise<CompensationOutcome[]> {
+    const outcomes = await Promise.all(instructions.map(instruction => this.executeInstruction(instruction)));
+
+    if (outcomes.length > 0) {
+      this.reportOutcomes(sourceBlockIndex, outcomes);
+    }
+    return outcomes;
+  }
+
+  /**
+   * Execute one instruction; never throws - failures become a 'failed' outcome
+   */
+  private async executeInstruction(instruction: CompensationInstruction): Promise<CompensationOutcome> {
+    if (this.executedInstructions.has(instruction.instructionId)) {
+      return this.outcome(instruction, 'skipped', 'Instruction already executed');
+    }
+    this.executedInstructions.add(instruction.instructionId);
+
+    logger.info('Executing compensation instruction', {
+      instruction_id: instruction.instructionId,
+      action: instruction.action,
+      farmer_id: instruction.farmerId,
+      block_index: instruction.blockIndex,
+      reason: instruction.reason
+    });
+
+    try {
+      switch (instruction.action) {
+        case 'retry_work':
+          return await this.retryWork(instruction);
+        case 'replant_next_block':
+          return await this.replantNextBlock(instruction);
+        case 'credit_farmer':
+          // Credits are booked by the Backend; the pooler only confirms receipt
+          return this.outcome(instruction, 'acknowledged', instruction.amount ? `Credit of ${instruction.amount} noted` : undefined);
+        case 'ignore':
+          return this.outcome(instruction, 'acknowledged');
+      }
+    } catch (error) {
+      logger.error('Compensation instruction failed', error as Error, {
+        instruction_id: instruction.instructionId,
+        action: instruction.action,
+        farmer_id: instruction.farmerId
+      });
+      return this.outcome(instruction, 'failed', (error as Error).message);
+    }
+  }
+
+  /**
+   * Run the farmer's work again for the same block while it is still open
+   */
+  private async retryWork(instruction: CompensationInstruction): Promise<CompensationOutcome> {
+    const block = jobStore.getBlock(instruction.blockIndex);
+    if (!block) {
+      return this.outcome(instruction, 'failed', 'Block not known to this pooler');
+    }
+    if (!this.isBlockOpen(block)) {
+      return this.outcome(instruction, 'failed', 'Block already closed - work can no longer be submitted');
+    }
+
+    const job = jobStore.getBlockJobs(block.blockIndex).find(j => j.farmerId === instruction.farmerId);
+    const custodialWallet = job?.custodialWallet ?? instruction.custodialWallet;
+    if (!custodialWallet) {
+      return this.outcome(instruction, 'failed', 'No custodial wallet for farmer');
+    }
+
+    const workRequest: WorkRequest = {
+      farmerId: instruction.farmerId,
+      custodialWallet,
+      blockIndex: block.blockIndex,
+      entropy: block.entropy,
+      stakeAmount: job?.stakeAmount ?? instruction.stakeAmount ?? '0',
+      plantingTime: job?.plantingTime ? new Date(job.plantingTime) : undefined,
+      plantLedger: job?.plantLedger
+    };
+
+    jobStore.updateJobStatus(block.blockIndex, instruction.farmerId, 'pending');
+    const workResult = await this.runWork(block.blockIndex, block.entropy, block.blockTimestamp, workRequest, block.blockParams);
+
+    return this.outcome(
+      instruction,
+      workResult.status === 'failed' ? 'failed' : 'completed',
+      workResult.error,
+      { workResult }
+    );
+  }
+
+  /**
+   * Plant the farmer into the block after the failed one and work it
+   */
+  private async replantNextBlock(instruction: CompensationInstruction): Promise<CompensationOutcome> {
+    if (!instruction.custodialKey) {
+      return this.outcome(instruction, 'failed', 'Sealed custodial key required to re-plant');
+    }
+
+    const job = jobStore.getBlockJobs(instruction.blockIndex).find(j => j.farmerId === instruction.farmerId);
+    const custodialWallet = job?.custodialWallet ?? instruction.custodialWallet;
+    const stakeAmount = instruction.stakeAmount ?? job?.stakeAmount;
+    if (!custodialWallet) {
+      return this.outcome(instruction, 'failed', 'No custodial wallet for farmer');
+    }
+    if (stakeAmount === undefined) {
+      return this.outcome(instruction, 'failed', 'No stake amount for farmer - refusing to plant without one');
+    }
+
+    // A plant after the block's interval opens the next block
+    const failedBlock = jobStore.getBlock(instruction.blockIndex);
+    if (failedBlock && this.isBlockOpen(failedBlock)) {
+      await this.waitUntil(this.blockCloseMs(failedBlock));
+    }
+
+    const plantResult = await this.workSubmissionService.submitPlant({
+      signer: keyCustody.signerFor(instruction.custodialKey, custodialWallet),
+      amount: parseStakeAmount(stakeAmount)
+    });
+    if (!plantResult.success) {
+      return this.outcome(instruction, 'failed', `Plant failed: ${plantResult.error}`);
+    }
+
+    const plantedAt = new Date();
+    const replantBlockIndex = await this.workSubmissionService.getFarmIndex();
+    const replantBlock = await this.workSubmissionService.getBlock(replantBlockIndex);
+    if (!replantBlock?.entropy || replantBlock.timestamp === undefined) {
+      return this.outcome(instruction, 'failed', `Planted but block ${replantBlockIndex} could not be read`, {
+        replantBlockIndex,
+        plantTransactionHash: plantResult.transactionHash
+      });
+    }
+
+    const entropy = replantBlock.entropy.toString('hex');
+    const blockParams: BlockParams = {
+      minGap: Number(replantBlock.min_gap),
+      maxGap: Number(replantBlock.max_gap),
+      minZeros: Number(replantBlock.min_zeros),
+      maxZeros: Number(replantBlock.max_zeros)
+    };
+
+    const workResult = await this.runWork(replantBlockIndex, entropy, replantBlock.timestamp, {
+      farmerId: instruction.farmerId,
+      custodialWallet,
+      blockIndex: replantBlockIndex,
+      entropy,
+      stakeAmount,
+      plantingTime: plantedAt
+    }, blockParams);
+
+    return this.outcome(
+      instruction,
+      workResult.status === 'failed' ? 'failed' : 'completed',
+      workResult.error,
+      { replantBlockIndex, plantTransactionHash: plantResult.transactionHash, workResult }
+    );
+  }
+
+  /**
+   * Mine and submit a single farmer through the WorkManager
+   */
+  private async runWork(
+    blockIndex: number,
+    entropy: string,
+    blockTimestamp: number | bigint,
+    workRequest: WorkRequest,
+    blockParams?: BlockParams
+  ): Promise<WorkResult> {
+    const batch = await workManager.scheduleWork(blockTimestamp, blockIndex, entropy, [workRequest], blockParams);
+    const workResult = batch.workResults[0];
+    if (!workResult) {
+      throw new Error('Work batch returned no result');
+    }
+    if (workResult.status !== 'failed') {
+      harvestManager.queue(blockIndex, [workResult]);
+    }
+    return workResult;
+  }
+
+  /**
+   * Queue the outcomes for delivery to the Backend
+   */
+  private reportOutcomes(sourceBlockIndex: number, outcomes: CompensationOutcome[]): void {
+    const report: CompensationReport = {
+      poolerId: Config.POOLER.ID,
+      sourceBlockIndex,
+      outcomes,
+      timestamp: new Date().toISOString()
+    };
+
+    const queued = outbox.enqueue({
+      eventType: 'compensation_report',
+      idempotencyKey: `compensation-report:${Config.POOLER.ID}:${outcomes.map(o => o.instructionId).sort().join(',')}`,
+      url: `${Config.BACKEND_API.URL}/pooler/compensation-report`,
+      payload: report,
+      headers: { 'X-Pooler-ID': Config.POOLER.ID },
+      authenticated: true
+    });
+
+    logger.info('Compensation report queued for Backend', {
+      source_block_index: sourceBlockIndex,
+      queued,
+      outcomes: outcomes.map(o => ({ instruction_id: o.instructionId, action: o.action, status: o.status }))
+    });
+  }
+
+  private isBlockOpen(block: StoredWorkBlock): boolean {
+    return Date.now() < this.blockCloseMs(block);
+  }
+
+  private blockCloseMs(block: StoredWorkBlock): number {
+    return (block.blockTimestamp + BLOCK_INTERVAL_SECONDS) * 1000;
+  }
+
+  private async waitUntil(targetMs: number): Promise<void> {
+    const delayMs = targetMs - Date.now();
+    if (delayMs > 0) {
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+    }
+  }
+
+  private outcome(
+    instruction: CompensationInstruction,
+    status: CompensationOutcomeStatus,
+    detail?: string,
+    extra: Partial<CompensationOutcome> = {}
+  ): CompensationOutcome {
+    return {
+      instructionId: instruction.instructionId,
+      action: instruction.action,
+      farmerId: instruction.farmerId,
+      blockIndex: instruction.blockIndex,
+      status,
+      detail,
+      ...extra,
+      executedAt: new Date().toISOString()
+    };
+  }
+}
+
+// Export singleton instance
+export const compensationExecutor = new CompensationExecutor();
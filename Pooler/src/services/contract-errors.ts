@@ -0,0 +1,138 @@
+// Contract Error Classifier for KALE Pool Mining Pooler
+// Turns simulation errors, diagnostic events, transaction results and submission failures into typed failure reasons
+
+import { xdr } from '@stellar/stellar-sdk';
+import {
+  KaleContractError,
+  type ContractError,
+  type FailureCategory,
+  type FailureReason
+} from '../../../Shared/types/blockchain';
+import { MinedWorkRejectedError } from './work-verifier';
+import { FeeCapExceededError } from './fee-manager';
+
+export interface ClassifyOptions {
+  events?: readonly unknown[]; // Diagnostic events from simulation or the transaction meta (any stellar-base copy)
+  kaleContract?: boolean; // Error(Contract, #N) comes from the KALE contract (false for kale-tractor calls)
+  fallback?: FailureCategory; // Category for errors nothing else matches
+}
+
+// KALE errors that can clear up by themselves: the pail becomes harvestable, the gap grows with each ledger
+const RETRYABLE_CONTRACT_ERRORS = [KaleContractError.HarvestNotReady, KaleContractError.GapCountTooLow];
+
+// Transaction result codes worth re-simulating and sending again
+const RETRYABLE_RESULT_CODES = [
+  'txBadSeq',
+  'txTooLate',
+  'txTooEarly',
+  'txInsufficientFee',
+  'TRY_AGAIN_LATER',
+  'invokeHostFunctionResourceLimitExceeded',
+  'invokeHostFunctionInsufficientRefundableFee'
+];
+
+const NETWORK_ERROR_PATTERNS = [
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ENOTFOUND',
+  'ETIMEDOUT',
+  'EAI_AGAIN',
+  'socket hang up',
+  'fetch failed',
+  'network error'
+];
+
+const CONTRACT_ERROR_PATTERN = /Error\(Contract, #(\d+)\)/;
+const HOST_ERROR_PATTERN = /Error\((WasmVm|Context|Storage|Object|Crypto|Events|Budget|Value|Auth), ([A-Za-z]+)\)/;
+const RESULT_CODE_PATTERN = /\b(tx[A-Z][A-Za-z]+|invokeHostFunction[A-Z][A-Za-z]+|TRY_AGAIN_LATER)\b/;
+
+/**
+ * Classify any submission failure (thrown error or error string) into a typed, retry-aware reason
+ */
+export function classifyFailure(error: unknown, options: ClassifyOptions = {}): FailureReason {
+  // Refused by the pooler itself - the reason is already known
+  if (error instanceof MinedWorkRejectedError || error instanceof FeeCapExceededError) {
+    return error.failureReason;
+  }
+
+  const fullMessage = error instanceof Error ? error.message : String(error);
+  const message = summarize(fullMessage);
+  const text = [describeDiagnosticError(options.events), fullMessage].filter(Boolean).join(' ');
+
+  const contractMatch = text.match(CONTRACT_ERROR_PATTERN);
+  if (contractMatch) {
+    const code = Number(contractMatch[1]);
+    if (options.kaleContract === false) {
+      return { category: 'contract', code: `Contract#${code}`, retryable: false, message };
+    }
+    const contractError = toContractError(code, message);
+    return { category: 'contract', code: contractError.message, retryable: contractError.retryable, message, contractError };
+  }
+
+  const hostMatch = text.match(HOST_ERROR_PATTERN);
+  if (hostMatch) {
+    return { category: 'host', code: `${hostMatch[1]}.${hostMatch[2]}`, retryable: false, message };
+  }
+
+  const resultMatch = text.match(RESULT_CODE_PATTERN);
+  if (resultMatch) {
+    const code = resultMatch[1]!;
+    return { category: 'transaction', code, retryable: RETRYABLE_RESULT_CODES.includes(code), message };
+  }
+
+  // Includes transactions the tracker never saw land - they have expired by then, so sending again is safe
+  const lower = text.toLowerCase();
+  if (lower.includes('not_found') || lower.includes('timeout') || lower.includes('timed out')) {
+    return { category: 'timeout', code: 'NOT_FOUND', retryable: true, message };
+  }
+  if (NETWORK_ERROR_PATTERNS.some(pattern => lower.includes(pattern.toLowerCase()))) {
+    return { category: 'network', code: 'NETWORK_ERROR', retryable: true, message };
+  }
+  if (lower.includes('launchtube') || lower.includes('sendtransaction')) {
+    return { category: 'submission', code: 'SUBMISSION_REJECTED', retryable: false, message };
+  }
+
+  return { category: options.fallback ?? 'unknown', code: 'UNKNOWN', retryable: false, message };
+}
+
+/**
+ * KALE contract error for a numeric code
+ */
+export function toContractError(code: number, details?: string): ContractError {
+  return {
+    code: code as KaleContractError,
+    message: KaleContractError[code] ?? `Contract#${code}`,
+    retryable: RETRYABLE_CONTRACT_ERRORS.includes(code),
+    details
+  };
+}
+
+/**
+ * First error raised in diagnostic events, in host notation: Error(Contract, #N) or Error(Budget, ExceededLimit)
+ */
+export function describeDiagnosticError(events: readonly unknown[] | undefined): string | undefined {
+  // Contract clients bundle their own stellar-base, so events are read through the XDR accessors only
+  for (const event of (events ?? []) as xdr.DiagnosticEvent[]) {
+    try {
+      for (const topic of event.event().body().v0().topics()) {
+        if (topic.switch().name !== 'scvError') {
+          continue;
+        }
+        const scError = topic.error();
+        const type = scError.switch().name.replace(/^sce/, '');
+        return type === 'Contract'
+          ? `Error(Contract, #${scError.contractCode()})`
+          : `Error(${type}, ${scError.code().name.replace(/^scec/, '')})`;
+      }
+    } catch {
+      // Unreadable event - try the next one
+    }
+  }
+  return undefined;
+}
+
+// First line of the message (host errors append a long event log), bounded for logs and notifications
+function summarize(message: string): string {
+  const firstLine = message.split('\n').find(line => line.trim().length > 0)?.trim() ?? message;
+  return firstLine.length > 300 ? `${firstLine.slice(0, 300)}…` : firstLine;
+}
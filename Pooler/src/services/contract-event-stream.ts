@@ -0,0 +1,126 @@
+// KALE Contract Event Stream for KALE Pool Mining Pooler
+// Follows the KALE contract's Soroban events with a getEvents cursor
+
+import { scValToNative } from '@stellar/stellar-sdk';
+import type { Api } from '@stellar/stellar-sdk/rpc';
+import { rpcGateway } from './rpc-gateway';
+import Config from '../../../Shared/config';
+import { blockMonitorLogger as logger } from '../../../Shared/utils/logger';
+
+export interface KaleContractEvent {
+  id: string;
+  type: string; // First topic symbol, e.g. plant / work / harvest
+  ledger: number;
+  ledgerClosedAt: string;
+  txHash: string;
+  farmer?: string;
+  blockIndex?: number;
+  topics: unknown[];
+  value: unknown;
+}
+
+export interface EventStreamBatch {
+  events: KaleContractEvent[];
+  latestLedger: number;
+  lagLedgers: number; // Ledgers between the newest event read and the network tip
+  behind: boolean; // More pages are waiting and the lag exceeds the limit
+}
+
+const PAGE_LIMIT = 100;
+const START_LEDGER_LOOKBACK = 2;
+
+export class ContractEventStream {
+  private cursor: string | null = null;
+  private lastLedger = 0;
+
+  private readonly MAX_LAG_LEDGERS = Config.BLOCK_MONITOR.MAX_EVENT_LAG_LEDGERS;
+
+  /**
+   * Read the next page of KALE contract events
+   */
+  async poll(): Promise<EventStreamBatch> {
+    const response = await rpcGateway.call('get_events', async ({ server }) => {
+      if (this.cursor) {
+        return server.getEvents({ filters: this.filters(), cursor: this.cursor, limit: PAGE_LIMIT });
+      }
+
+      const latest = await server.getLatestLedger();
+      return server.getEvents({
+        filters: this.filters(),
+        startLedger: Math.max(1, latest.sequence - START_LEDGER_LOOKBACK),
+        limit: PAGE_LIMIT
+      });
+    });
+
+    const events = response.events
+      .filter(event => event.inSuccessfulContractCall)
+      .map(event => this.parseEvent(event));
+
+    const lastEvent = response.events[response.events.length - 1];
+    if (lastEvent) {
+      this.cursor = lastEvent.pagingToken;
+      this.lastLedger = lastEvent.ledger;
+    } else if (!this.cursor) {
+      // Nothing yet - stay at the tip rather than re-reading the lookback window
+      this.lastLedger = response.latestLedger;
+    }
+
+    const lagLedgers = Math.max(0, response.latestLedger - this.lastLedger);
+    const behind = response.events.length >= PAGE_LIMIT && lagLedgers > this.MAX_LAG_LEDGERS;
+
+    if (behind) {
+      logger.warn('Contract event stream falling behind', {
+        last_event_ledger: this.lastLedger,
+        latest_ledger: response.latestLedger,
+        lag_ledgers: lagLedgers
+      });
+    }
+
+    return { events, latestLedger: response.latestLedger, lagLedgers, behind };
+  }
+
+  /**
+   * Forget the cursor (e.g. after it fell out of the RPC's retention window)
+   */
+  reset(): void {
+    this.cursor = null;
+    this.lastLedger = 0;
+  }
+
+  getPosition() {
+    return { cursor: this.cursor, lastLedger: this.lastLedger };
+  }
+
+  private filters(): Api.EventFilter[] {
+    return [{ type: 'contract', contractIds: [Config.STELLAR.CONTRACT_ID] }];
+  }
+
+  /**
+   * Decode topics and value; farmer and block index are best-effort hints picked out when present
+   */
+  private parseEvent(event: Api.EventResponse): KaleContractEvent {
+    const topics = event.topic.map(topic => this.toNative(topic));
+    const value = this.toNative(event.value);
+    const fields = [...topics.slice(1), ...(Array.isArray(value) ? value : [value])];
+
+    return {
+      id: event.id,
+      type: typeof topics[0] === 'string' ? topics[0] : 'unknown',
+      ledger: event.ledger,
+      ledgerClosedAt: event.ledgerClosedAt,
+      txHash: event.txHash,
+      farmer: fields.find((field): field is string => typeof field === 'string' && /^[GC][A-Z2-7]{55}$/.test(field)),
+      blockIndex: fields.find((field): field is number => typeof field === 'number' && Number.isInteger(field)),
+      topics,
+      value
+    };
+  }
+
+  private toNative(scVal: Parameters<typeof scValToNative>[0]): unknown {
+    try {
+      return scValToNative(scVal);
+    } catch {
+      return undefined;
+    }
+  }
+}
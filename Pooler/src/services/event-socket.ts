@@ -0,0 +1,169 @@
+// Event WebSocket for KALE Pool Mining Pooler
+// WebSocket endpoint (via `ws`) on the HTTP server's upgrade event, streaming pool events as JSON text messages
+
+import type { IncomingMessage, Server } from 'http';
+import type { Duplex } from 'stream';
+import { WebSocket, WebSocketServer, type RawData } from 'ws';
+import { poolEvents, type PoolEvent, type PoolEventFilter } from './pool-events';
+import { blockMonitorLogger as logger } from '../../../Shared/utils/logger';
+
+const PING_INTERVAL_MS = 30000;
+const MAX_CLIENT_MESSAGE_BYTES = 64 * 1024; // Clients only send small filter updates
+const MAX_BUFFERED_BYTES = 1024 * 1024; // Unsent data a client may fall behind by before it is dropped
+
+interface SocketClient {
+  socket: WebSocket;
+  listener: (event: PoolEvent) => void;
+  unsubscribe: () => void;
+  alive: boolean;
+}
+
+export class EventSocket {
+  private clients = new Set<SocketClient>();
+  private pingTimer: NodeJS.Timeout | null = null;
+  private server = new WebSocketServer({ noServer: true, maxPayload: MAX_CLIENT_MESSAGE_BYTES });
+
+  constructor(private readonly path: string) {}
+
+  /**
+   * Accept WebSocket upgrades on the path; other upgrade requests are refused
+   */
+  attach(server: Server): void {
+    server.on('upgrade', (request: IncomingMessage, socket: Duplex, head: Buffer) => this.handleUpgrade(request, socket, head));
+    this.pingTimer = setInterval(() => this.pingClients(), PING_INTERVAL_MS);
+  }
+
+  /**
+   * Close every connection (e.g. on shutdown)
+   */
+  close(): void {
+    if (this.pingTimer) {
+      clearInterval(this.pingTimer);
+      this.pingTimer = null;
+    }
+    for (const client of this.clients) {
+      client.socket.close(1001, 'Server shutting down');
+      this.disconnect(client);
+    }
+    this.server.close();
+  }
+
+  getStats() {
+    return { clients: this.clients.size };
+  }
+
+  private handleUpgrade(request: IncomingMessage, socket: Duplex, head: Buffer): void {
+    const url = new URL(request.url ?? '/', 'http://localhost');
+
+    if (url.pathname !== this.path || request.headers.upgrade?.toLowerCase() !== 'websocket') {
+      socket.end('HTTP/1.1 400 Bad Request\r\nConnection: close\r\n\r\n');
+      return;
+    }
+
+    const filter = poolEvents.parseFilter(Object.fromEntries(url.searchParams));
+    if ('error' in filter) {
+      socket.end(`HTTP/1.1 400 Bad Request\r\nConnection: close\r\nContent-Type: text/plain\r\n\r\n${filter.error}`);
+      return;
+    }
+
+    this.server.handleUpgrade(request, socket, head, webSocket => this.handleConnection(webSocket, filter as PoolEventFilter));
+  }
+
+  private handleConnection(socket: WebSocket, filter: PoolEventFilter): void {
+    const client: SocketClient = {
+      socket,
+      listener: event => this.send(client, event),
+      unsubscribe: () => {},
+      alive: true
+    };
+    client.unsubscribe = poolEvents.subscribe(filter, client.listener);
+    this.clients.add(client);
+
+    socket.on('message', (data: RawData, isBinary: boolean) => {
+      if (isBinary) {
+        this.send(client, { type: 'error', error: 'Messages must be JSON text' });
+        return;
+      }
+      this.handleMessage(client, data.toString());
+    });
+    socket.on('pong', () => {
+      client.alive = true;
+    });
+    socket.on('close', () => this.disconnect(client));
+    socket.on('error', () => this.disconnect(client));
+
+    this.send(client, { type: 'subscribed', filter });
+    logger.info('Event WebSocket client connected', { filter, clients: this.clients.size });
+  }
+
+  /**
+   * `{"type":"subscribe","types":[...],"block_index":N,"farmer_id":"..."}` changes the filter
+   */
+  private handleMessage(client: SocketClient, message: string): void {
+    let parsed: any;
+    try {
+      parsed = JSON.parse(message);
+    } catch {
+      this.send(client, { type: 'error', error: 'Messages must be JSON' });
+      return;
+    }
+
+    if (parsed?.type !== 'subscribe') {
+      this.send(client, { type: 'error', error: 'Unknown message type' });
+      return;
+    }
+
+    const filter = poolEvents.parseFilter({
+      types: Array.isArray(parsed.types) ? parsed.types.join(',') : parsed.types,
+      block_index: parsed.block_index,
+      farmer_id: parsed.farmer_id
+    });
+    if ('error' in filter) {
+      this.send(client, { type: 'error', error: filter.error });
+      return;
+    }
+
+    poolEvents.updateFilter(client.listener, filter as PoolEventFilter);
+    this.send(client, { type: 'subscribed', filter });
+  }
+
+  private pingClients(): void {
+    for (const client of this.clients) {
+      if (!client.alive) {
+        client.socket.terminate();
+        this.disconnect(client);
+        continue;
+      }
+      client.alive = false;
+      client.socket.ping();
+    }
+  }
+
+  /**
+   * Send one JSON message; a client that cannot keep up with the stream is dropped
+   */
+  private send(client: SocketClient, message: PoolEvent | Record<string, unknown>): void {
+    if (client.socket.readyState !== WebSocket.OPEN) {
+      return;
+    }
+
+    if (client.socket.bufferedAmount > MAX_BUFFERED_BYTES) {
+      logger.warn('Event WebSocket client too slow - dropping it', {
+        buffered_bytes: client.socket.bufferedAmount
+      });
+      client.socket.terminate();
+      this.disconnect(client);
+      return;
+    }
+
+    client.socket.send(JSON.stringify(message));
+  }
+
+  private disconnect(client: SocketClient): void {
+    if (!this.clients.delete(client)) {
+      return;
+    }
+    client.unsubscribe();
+    logger.info('Event WebSocket client disconnected', { clients: this.clients.size });
+  }
+}
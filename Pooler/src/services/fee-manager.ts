@@ -0,0 +1,289 @@
+// Fee Manager for KALE Pool Mining Pooler
+// Prices contract calls from RPC fee stats, sizes fee bumps, and enforces and reports per-block and per-day fee spend
+
+import { Database } from 'bun:sqlite';
+import { mkdirSync } from 'fs';
+import { dirname } from 'path';
+import { Transaction, TransactionBuilder, xdr } from '@stellar/stellar-sdk';
+import { Api } from '@stellar/stellar-sdk/rpc';
+import { rpcGateway } from './rpc-gateway';
+import Config from '../../../Shared/config';
+import { blockMonitorLogger as logger } from '../../../Shared/utils/logger';
+import type { FailureReason } from '../../../Shared/types/blockchain';
+
+export interface FeeQuote {
+  operation: string;
+  inclusionFee: number; // Inclusion bid (stroops)
+  resourceFee: number; // Simulated resource fee plus margin (stroops)
+  maxFee: number; // Most the transaction can be charged (stroops)
+}
+
+export interface PricedTransaction {
+  transaction: Transaction;
+  quote: FeeQuote;
+}
+
+export interface FeeReservation {
+  operation: string;
+  blockIndex?: number;
+  maxFee: number;
+  feeBump?: boolean;
+}
+
+/**
+ * A submission refused because its maximum fee would take spend past a cap
+ */
+export class FeeCapExceededError extends Error {
+  constructor(readonly cap: 'block' | 'day', readonly limit: number, readonly spent: number, readonly maxFee: number) {
+    super(`Fee cap exceeded: ${cap} spend ${spent} + ${maxFee} stroops would pass the ${limit} stroop cap`);
+    this.name = 'FeeCapExceededError';
+  }
+
+  get failureReason(): FailureReason {
+    return { category: 'submission', code: 'FEE_CAP_EXCEEDED', retryable: false, message: this.message };
+  }
+}
+
+// stellar-core only replaces a queued transaction with a fee bump bidding at least ten times its inclusion fee
+const FEE_BUMP_MULTIPLIER = 10;
+const MIN_INCLUSION_FEE = 100;
+
+class FeeManager {
+  private db: Database;
+  private feeStats?: { stats: Api.GetFeeStatsResponse; fetchedAt: number };
+
+  private readonly PERCENTILES: Record<string, number> = {
+    work: Config.FEES.WORK_PERCENTILE,
+    plant: Config.FEES.PLANT_PERCENTILE,
+    harvest: Config.FEES.HARVEST_PERCENTILE,
+    tractor_harvest: Config.FEES.HARVEST_PERCENTILE
+  };
+
+  constructor(path: string) {
+    if (path !== ':memory:') {
+      mkdirSync(dirname(path), { recursive: true });
+    }
+
+    this.db = new Database(path, { create: true });
+    this.db.exec('PRAGMA journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS fee_spend (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        operation TEXT NOT NULL,
+        block_index INTEGER,
+        transaction_hash TEXT,
+        submitted_via TEXT,
+        fee_bump INTEGER NOT NULL DEFAULT 0,
+        max_fee INTEGER NOT NULL,
+        fee_charged INTEGER,
+        created_at TEXT NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_fee_spend_created ON fee_spend (created_at);
+      CREATE INDEX IF NOT EXISTS idx_fee_spend_block ON fee_spend (block_index);
+      CREATE INDEX IF NOT EXISTS idx_fee_spend_hash ON fee_spend (transaction_hash);
+    `);
+
+    logger.info('FeeManager initialized', {
+      path,
+      percentiles: this.PERCENTILES,
+      max_inclusion_fee: Config.FEES.MAX_INCLUSION_FEE,
+      max_per_block: Config.FEES.MAX_PER_BLOCK,
+      max_per_day: Config.FEES.MAX_PER_DAY
+    });
+  }
+
+  /**
+   * Set the inclusion and resource fees of a simulated contract call for its operation type
+   */
+  async price(operation: string, simulatedXdr: string): Promise<PricedTransaction> {
+    const inclusionFee = await this.inclusionFee(operation);
+
+    // Edited through XDR - contract clients bundle their own stellar-base, and auth entries stay as signed
+    const envelope = xdr.TransactionEnvelope.fromXDR(simulatedXdr, 'base64');
+    const body = envelope.v1().tx();
+    const sorobanData = body.ext().sorobanData();
+    const simulatedResourceFee = Number(sorobanData.resourceFee().toString());
+    const resourceFee = Math.ceil(simulatedResourceFee * (100 + Config.FEES.RESOURCE_MARGIN_PERCENT) / 100);
+
+    sorobanData.resourceFee(xdr.Int64.fromString(resourceFee.toString()));
+    body.fee(inclusionFee + resourceFee);
+
+    const quote: FeeQuote = { operation, inclusionFee, resourceFee, maxFee: inclusionFee + resourceFee };
+    logger.debug('Transaction priced', { ...quote, simulated_resource_fee: simulatedResourceFee });
+
+    return {
+      transaction: TransactionBuilder.fromXDR(envelope, Config.STELLAR.NETWORK_PASSPHRASE) as Transaction,
+      quote
+    };
+  }
+
+  /**
+   * Inclusion bid for a fee bump of a quoted transaction (undefined when FEE_MAX_INCLUSION leaves no room to replace it)
+   */
+  async quoteBump(quote: FeeQuote): Promise<FeeQuote | undefined> {
+    const stats = await this.getFeeStats();
+    const inclusionFee = Math.max(
+      quote.inclusionFee * FEE_BUMP_MULTIPLIER,
+      stats ? Number(stats.sorobanInclusionFee.p99) : 0
+    );
+
+    if (inclusionFee > Config.FEES.MAX_INCLUSION_FEE) {
+      logger.warn('Fee bump skipped - bid would pass FEE_MAX_INCLUSION', {
+        operation: quote.operation,
+        inclusion_fee: inclusionFee,
+        max_inclusion_fee: Config.FEES.MAX_INCLUSION_FEE
+      });
+      return undefined;
+    }
+
+    // stellar-base charges the fee bump rate (inner resource fee included) for the operation plus the bump itself
+    return {
+      operation: quote.operation,
+      inclusionFee,
+      resourceFee: quote.resourceFee,
+      maxFee: 2 * (quote.resourceFee + inclusionFee)
+    };
+  }
+
+  /**
+   * Count a submission's maximum fee against the caps before it is sent (throws FeeCapExceededError)
+   */
+  reserve(reservation: FeeReservation): number {
+    const daySpent = this.spentSince(this.startOfDay());
+    if (Config.FEES.MAX_PER_DAY > 0 && daySpent + reservation.maxFee > Config.FEES.MAX_PER_DAY) {
+      throw new FeeCapExceededError('day', Config.FEES.MAX_PER_DAY, daySpent, reservation.maxFee);
+    }
+
+    if (reservation.blockIndex !== undefined && Config.FEES.MAX_PER_BLOCK > 0) {
+      const blockSpent = this.spentOnBlock(reservation.blockIndex);
+      if (blockSpent + reservation.maxFee > Config.FEES.MAX_PER_BLOCK) {
+        throw new FeeCapExceededError('block', Config.FEES.MAX_PER_BLOCK, blockSpent, reservation.maxFee);
+      }
+    }
+
+    const result = this.db.prepare(`
+      INSERT INTO fee_spend (operation, block_index, fee_bump, max_fee, created_at) VALUES (?, ?, ?, ?, ?)
+    `).run(
+      reservation.operation,
+      reservation.blockIndex ?? null,
+      reservation.feeBump ? 1 : 0,
+      reservation.maxFee,
+      new Date().toISOString()
+    );
+    return Number(result.lastInsertRowid);
+  }
+
+  /**
+   * Tie a reservation to the transaction that was sent for it
+   */
+  attach(reservationId: number, transactionHash: string, submittedVia: 'launchtube' | 'rpc'): void {
+    this.db.prepare(`
+      UPDATE fee_spend SET transaction_hash = ?, submitted_via = ? WHERE id = ?
+    `).run(transactionHash, submittedVia, reservationId);
+  }
+
+  /**
+   * Drop a reservation whose transaction was never sent
+   */
+  release(reservationId: number): void {
+    this.db.prepare(`DELETE FROM fee_spend WHERE id = ? AND transaction_hash IS NULL`).run(reservationId);
+  }
+
+  /**
+   * Replace a transaction's reservation with the fee it was charged (nothing when it never landed)
+   */
+  settle(transactionHash: string, feeCharged: number | undefined): void {
+    this.db.prepare(`
+      UPDATE fee_spend SET fee_charged = ? WHERE transaction_hash = ? AND fee_charged IS NULL
+    `).run(feeCharged ?? 0, transactionHash);
+  }
+
+  /**
+   * Fee spend (stroops) against the caps: today, by operation and path, and for recent blocks and days
+   */
+  getSpendReport() {
+    const startOfDay = this.startOfDay();
+    const daySpent = this.spentSince(startOfDay);
+
+    return {
+      caps: {
+        perBlock: Config.FEES.MAX_PER_BLOCK || null,
+        perDay: Config.FEES.MAX_PER_DAY || null
+      },
+      today: {
+        day: startOfDay.substring(0, 10),
+        charged: this.scalar(`SELECT COALESCE(SUM(fee_charged), 0) AS value FROM fee_spend WHERE created_at >= ?`, startOfDay),
+        reserved: this.scalar(`SELECT COALESCE(SUM(max_fee), 0) AS value FROM fee_spend WHERE created_at >= ? AND fee_charged IS NULL`, startOfDay),
+        remaining: Config.FEES.MAX_PER_DAY > 0 ? Math.max(Config.FEES.MAX_PER_DAY - daySpent, 0) : null
+      },
+      byOperation: this.db.prepare(`
+        SELECT operation, submitted_via AS submittedVia, COUNT(*) AS transactions, SUM(fee_bump) AS feeBumps,
+          COALESCE(SUM(fee_charged), 0) AS charged
+        FROM fee_spend WHERE created_at >= ? GROUP BY operation, submitted_via ORDER BY operation
+      `).all(startOfDay),
+      recentBlocks: this.db.prepare(`
+        SELECT block_index AS blockIndex, COUNT(*) AS transactions, COALESCE(SUM(fee_charged), 0) AS charged
+        FROM fee_spend WHERE block_index IS NOT NULL GROUP BY block_index ORDER BY block_index DESC LIMIT 10
+      `).all(),
+      recentDays: this.db.prepare(`
+        SELECT substr(created_at, 1, 10) AS day, COUNT(*) AS transactions, COALESCE(SUM(fee_charged), 0) AS charged
+        FROM fee_spend GROUP BY day ORDER BY day DESC LIMIT 7
+      `).all()
+    };
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private async inclusionFee(operation: string): Promise<number> {
+    const stats = await this.getFeeStats();
+    const percentile = this.PERCENTILES[operation] ?? Config.FEES.HARVEST_PERCENTILE;
+    const bid = stats ? Number(stats.sorobanInclusionFee[`p${percentile}` as keyof Api.GetFeeStatsResponse['sorobanInclusionFee']]) : 0;
+
+    return Math.min(Math.max(bid || 0, MIN_INCLUSION_FEE), Config.FEES.MAX_INCLUSION_FEE);
+  }
+
+  /**
+   * Recent fee stats from RPC, cached for FEE_STATS_TTL_MS (stale stats, else none, when RPC fails)
+   */
+  private async getFeeStats(): Promise<Api.GetFeeStatsResponse | undefined> {
+    if (this.feeStats && Date.now() - this.feeStats.fetchedAt < Config.FEES.STATS_TTL_MS) {
+      return this.feeStats.stats;
+    }
+
+    try {
+      const stats = await rpcGateway.call('get_fee_stats', ({ server }) => server.getFeeStats());
+      this.feeStats = { stats, fetchedAt: Date.now() };
+      return stats;
+    } catch (error) {
+      logger.warn('Fee stats unavailable - using last known or minimum fees', {
+        error: (error as Error).message,
+        stats_age_ms: this.feeStats ? Date.now() - this.feeStats.fetchedAt : null
+      });
+      return this.feeStats?.stats;
+    }
+  }
+
+  // Charged fees, plus the maximum fee of anything still in flight
+  private spentSince(since: string): number {
+    return this.scalar(`SELECT COALESCE(SUM(COALESCE(fee_charged, max_fee)), 0) AS value FROM fee_spend WHERE created_at >= ?`, since);
+  }
+
+  private spentOnBlock(blockIndex: number): number {
+    return this.scalar(`SELECT COALESCE(SUM(COALESCE(fee_charged, max_fee)), 0) AS value FROM fee_spend WHERE block_index = ?`, blockIndex);
+  }
+
+  private scalar(sql: string, parameter: string | number): number {
+    const row = this.db.prepare(sql).get(parameter) as { value: number };
+    return row.value;
+  }
+
+  private startOfDay(): string {
+    return `${new Date().toISOString().substring(0, 10)}T00:00:00.000Z`;
+  }
+}
+
+// Export singleton instance (shares the job store's SQLite file)
+export const feeManager = new FeeManager(Config.JOB_STORE.PATH);
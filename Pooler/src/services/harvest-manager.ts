@@ -0,0 +1,356 @@
+// Harvest Manager for KALE Pool Mining Pooler
+// Queues successfully worked pails and harvests them once their block closes
+
+import { Database } from 'bun:sqlite';
+import { mkdirSync } from 'fs';
+import { dirname } from 'path';
+import { WorkSubmissionService, type HarvestSubmissionResult } from './work-submission-service';
+import { TractorHarvester } from './tractor-harvester';
+import { outbox } from './outbox';
+import { poolEvents } from './pool-events';
+import Config from '../../../Shared/config';
+import { blockMonitorLogger as logger } from '../../../Shared/utils/logger';
+import { bigintToString } from '../../../Shared/utils/helpers';
+import type { HarvestRequest, HarvestResult, FailedHarvest } from '../../../Shared/types/common';
+
+export type HarvestStatus = 'queued' | 'harvested' | 'failed';
+
+export interface QueuedHarvest {
+  blockIndex: number;
+  farmerId: string;
+  custodialWallet: string;
+  status: HarvestStatus;
+  attempts: number;
+  reward?: string;
+  transactionHash?: string;
+  error?: string;
+  queuedAt: string;
+  harvestedAt?: string;
+}
+
+// i128 rewards travel to the Backend as decimal strings
+export type HarvestResultPayload = Omit<HarvestResult, 'reward_amount'> & { reward_amount: string };
+
+export interface HarvestReport extends HarvestRequest {
+  harvest_results: HarvestResultPayload[];
+  failed_harvests: FailedHarvest[];
+  total_rewards: string;
+  timestamp: string;
+}
+
+class HarvestManager {
+  private db: Database;
+  private workSubmissionService = new WorkSubmissionService();
+  private tractorHarvester = new TractorHarvester(this.workSubmissionService);
+  private harvestTimer: NodeJS.Timeout | null = null;
+  private isHarvesting = false;
+
+  private readonly MAX_ATTEMPTS = Config.HARVEST.MAX_ATTEMPTS;
+  private readonly USE_TRACTOR = Config.HARVEST.TRACTOR_CONTRACT_ID !== '';
+
+  constructor(path: string) {
+    if (path !== ':memory:') {
+      mkdirSync(dirname(path), { recursive: true });
+    }
+
+    this.db = new Database(path, { create: true });
+    this.db.exec('PRAGMA journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS harvest_queue (
+        block_index INTEGER NOT NULL,
+        farmer_id TEXT NOT NULL,
+        custodial_wallet TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'queued',
+        attempts INTEGER NOT NULL DEFAULT 0,
+        reward TEXT,
+        transaction_hash TEXT,
+        error TEXT,
+        queued_at TEXT NOT NULL,
+        harvested_at TEXT,
+        PRIMARY KEY (block_index, farmer_id)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_harvest_queue_status ON harvest_queue (status, block_index);
+    `);
+
+    logger.info('HarvestManager initialized', {
+      enabled: Config.HARVEST.ENABLED,
+      mode: this.USE_TRACTOR ? 'tractor' : 'kale',
+      max_attempts: this.MAX_ATTEMPTS
+    });
+  }
+
+  /**
+   * Queue worked (farmer, block) pairs for harvest; already queued pairs are kept as they are
+   */
+  queue(blockIndex: number, farmers: Array<{ farmerId: string; custodialWallet: string }>): void {
+    const insert = this.db.prepare(`
+      INSERT OR IGNORE INTO harvest_queue (block_index, farmer_id, custodial_wallet, status, attempts, queued_at)
+      VALUES (?, ?, ?, 'queued', 0, ?)
+    `);
+    const now = new Date().toISOString();
+
+    this.db.transaction(() => {
+      for (const farmer of farmers) {
+        insert.run(blockIndex, farmer.farmerId, farmer.custodialWallet, now);
+      }
+    })();
+
+    logger.info('Pails queued for harvest', {
+      block_index: blockIndex,
+      farmer_count: farmers.length
+    });
+  }
+
+  /**
+   * Start the background harvester
+   */
+  start(): void {
+    if (!Config.HARVEST.ENABLED || this.harvestTimer) {
+      return;
+    }
+    this.harvestTimer = setInterval(() => void this.harvestDue(), Config.HARVEST.POLL_INTERVAL_MS);
+  }
+
+  /**
+   * Stop the background harvester (the queue stays persisted)
+   */
+  stop(): void {
+    if (this.harvestTimer) {
+      clearInterval(this.harvestTimer);
+      this.harvestTimer = null;
+    }
+  }
+
+  /**
+   * Harvest every queued pail whose block has closed and report the outcome
+   */
+  async harvestDue(): Promise<void> {
+    if (this.isHarvesting) {
+      return;
+    }
+    this.isHarvesting = true;
+
+    try {
+      const farmIndex = await this.workSubmissionService.getFarmIndex();
+
+      // A block closes once the farm has moved past it
+      const due = (this.db.prepare(`
+        SELECT * FROM harvest_queue WHERE status = 'queued' AND block_index < ? ORDER BY block_index
+      `).all(farmIndex) as any[]).map(row => this.toQueuedHarvest(row));
+
+      if (due.length === 0) {
+        return;
+      }
+
+      logger.info('Harvesting closed blocks', {
+        farm_index: farmIndex,
+        pail_count: due.length,
+        mode: this.USE_TRACTOR ? 'tractor' : 'kale'
+      });
+
+      const byFarmer = new Map<string, QueuedHarvest[]>();
+      for (const pail of due) {
+        byFarmer.set(pail.custodialWallet, [...(byFarmer.get(pail.custodialWallet) ?? []), pail]);
+      }
+
+      const finished: QueuedHarvest[] = [];
+      for (const pails of byFarmer.values()) {
+        finished.push(...(this.USE_TRACTOR ? await this.harvestWithTractor(pails) : await this.harvestEach(pails)));
+      }
+
+      if (finished.length > 0) {
+        this.reportHarvests(finished);
+      }
+
+    } catch (error) {
+      logger.error('Harvest run failed', error as Error);
+      poolEvents.publish('error', { source: 'harvest', message: 'Harvest run failed', error: (error as Error).message });
+    } finally {
+      this.isHarvesting = false;
+    }
+  }
+
+  /**
+   * One KALE harvest call per pail
+   */
+  private async harvestEach(pails: QueuedHarvest[]): Promise<QueuedHarvest[]> {
+    const finished: QueuedHarvest[] = [];
+    for (const pail of pails) {
+      const result = await this.workSubmissionService.submitHarvest(pail.custodialWallet, pail.blockIndex);
+      const updated = this.recordAttempt(pail, result);
+      if (updated) {
+        finished.push(updated);
+      }
+    }
+    return finished;
+  }
+
+  /**
+   * A farmer's due pails in batched tractor transactions
+   */
+  private async harvestWithTractor(pails: QueuedHarvest[]): Promise<QueuedHarvest[]> {
+    const results = await this.tractorHarvester.harvest(
+      pails[0]!.custodialWallet,
+      pails.map(pail => pail.blockIndex)
+    );
+
+    const finished: QueuedHarvest[] = [];
+    for (const pail of pails) {
+      const result = results.get(pail.blockIndex) ?? { success: false, error: 'No tractor result for pail' };
+      const updated = this.recordAttempt(pail, result);
+      if (updated) {
+        finished.push(updated);
+      }
+    }
+    return finished;
+  }
+
+  /**
+   * Store a harvest attempt; returns the pail once it is final (harvested or given up)
+   */
+  private recordAttempt(pail: QueuedHarvest, result: HarvestSubmissionResult): QueuedHarvest | null {
+    const now = new Date().toISOString();
+
+    if (result.success) {
+      const reward = result.rewards?.[0] ?? 0n;
+      this.db.prepare(`
+        UPDATE harvest_queue SET status = 'harvested', attempts = attempts + 1, reward = ?, transaction_hash = ?, error = NULL, harvested_at = ?
+        WHERE block_index = ? AND farmer_id = ?
+      `).run(reward.toString(), result.transactionHash ?? null, now, pail.blockIndex, pail.farmerId);
+
+      poolEvents.publish('harvest_result', {
+        status: 'harvested',
+        reward: reward.toString(),
+        transactionHash: result.transactionHash ?? null
+      }, { blockIndex: pail.blockIndex, farmerId: pail.farmerId });
+
+      return { ...pail, status: 'harvested', attempts: pail.attempts + 1, reward: reward.toString(), transactionHash: result.transactionHash, harvestedAt: now };
+    }
+
+    // A block that is not yet harvestable doesn't use up an attempt; an expired block or pail gives up at once
+    const attempts = result.notReady ? pail.attempts : pail.attempts + 1;
+    const status: HarvestStatus = result.final || attempts >= this.MAX_ATTEMPTS ? 'failed' : 'queued';
+
+    this.db.prepare(`
+      UPDATE harvest_queue SET status = ?, attempts = ?, error = ? WHERE block_index = ? AND farmer_id = ?
+    `).run(status, attempts, result.error ?? null, pail.blockIndex, pail.farmerId);
+
+    if (status === 'failed') {
+      logger.error('Harvest given up', undefined, {
+        block_index: pail.blockIndex,
+        farmer_id: pail.farmerId,
+        attempts,
+        error: result.error
+      });
+      poolEvents.publish('harvest_result', {
+        status: 'failed',
+        attempts,
+        error: result.error ?? null
+      }, { blockIndex: pail.blockIndex, farmerId: pail.farmerId });
+      return { ...pail, status, attempts, error: result.error };
+    }
+    return null;
+  }
+
+  /**
+   * Queue a harvest report for the Backend
+   */
+  private reportHarvests(pails: QueuedHarvest[]): void {
+    const harvested = pails.filter(pail => pail.status === 'harvested');
+    const failed = pails.filter(pail => pail.status === 'failed');
+
+    const blocks = new Map<number, string[]>();
+    for (const pail of pails) {
+      blocks.set(pail.blockIndex, [...(blocks.get(pail.blockIndex) ?? []), pail.farmerId]);
+    }
+
+    const report: HarvestReport = {
+      pooler_id: Config.POOLER.ID,
+      harvest_blocks: Array.from(blocks, ([block_index, farmer_ids]) => ({ block_index, farmer_ids })),
+      harvest_results: harvested.map(pail => ({
+        block_index: pail.blockIndex,
+        farmer_id: pail.farmerId,
+        reward_amount: pail.reward ?? '0',
+        harvest_tx_hash: pail.transactionHash ?? ''
+      })),
+      failed_harvests: failed.map(pail => ({
+        block_index: pail.blockIndex,
+        farmer_id: pail.farmerId,
+        error: 'HARVEST_FAILED',
+        message: pail.error ?? 'Harvest failed'
+      })),
+      total_rewards: bigintToString(harvested.reduce((total, pail) => total + BigInt(pail.reward ?? '0'), 0n)),
+      timestamp: new Date().toISOString()
+    };
+
+    const pailKeys = pails.map(pail => `${pail.blockIndex}:${pail.farmerId}`).sort().join(',');
+    const queued = outbox.enqueue({
+      eventType: 'harvest_completed',
+      idempotencyKey: `harvest-completed:${Config.POOLER.ID}:${pailKeys}`,
+      url: `${Config.BACKEND_API.URL}/pooler/harvest-completed`,
+      payload: report,
+      headers: { 'X-Pooler-ID': Config.POOLER.ID },
+      authenticated: true
+    });
+
+    logger.info('Harvest report queued for Backend', {
+      queued,
+      harvested: harvested.length,
+      failed: failed.length,
+      total_rewards: report.total_rewards
+    });
+  }
+
+  /**
+   * Every queued or finished harvest for a block
+   */
+  getBlockHarvests(blockIndex: number): QueuedHarvest[] {
+    const rows = this.db.prepare(`
+      SELECT * FROM harvest_queue WHERE block_index = ? ORDER BY farmer_id
+    `).all(blockIndex) as any[];
+
+    return rows.map(row => this.toQueuedHarvest(row));
+  }
+
+  /**
+   * Queue counts by status
+   */
+  getStats() {
+    const rows = this.db.prepare(`
+      SELECT status, COUNT(*) AS count FROM harvest_queue GROUP BY status
+    `).all() as Array<{ status: string; count: number }>;
+
+    return {
+      queued: 0,
+      harvested: 0,
+      failed: 0,
+      ...Object.fromEntries(rows.map(row => [row.status, row.count])),
+      mode: this.USE_TRACTOR ? 'tractor' : 'kale',
+      harvesterRunning: this.harvestTimer !== null
+    };
+  }
+
+  close(): void {
+    this.stop();
+    this.db.close();
+  }
+
+  private toQueuedHarvest(row: any): QueuedHarvest {
+    return {
+      blockIndex: row.block_index,
+      farmerId: row.farmer_id,
+      custodialWallet: row.custodial_wallet,
+      status: row.status,
+      attempts: row.attempts,
+      reward: row.reward ?? undefined,
+      transactionHash: row.transaction_hash ?? undefined,
+      error: row.error ?? undefined,
+      queuedAt: row.queued_at,
+      harvestedAt: row.harvested_at ?? undefined
+    };
+  }
+}
+
+// Export singleton instance (shares the job store's SQLite file)
+export const harvestManager = new HarvestManager(Config.JOB_STORE.PATH);
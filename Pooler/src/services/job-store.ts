@@ -0,0 +1,272 @@
+// Job Store for KALE Pool Mining Pooler
+// Durable record of planting notifications and per-farmer work state (SQLite)
+
+import { Database } from 'bun:sqlite';
+import { mkdirSync } from 'fs';
+import { dirname } from 'path';
+import Config from '../../../Shared/config';
+import { blockMonitorLogger as logger } from '../../../Shared/utils/logger';
+import type { PlantingNotification } from './pool-coordinator';
+import type { BlockParams, WorkResult } from './work-manager';
+
+export type WorkBlockStatus = 'scheduled' | 'completed' | 'expired';
+export type FarmerJobStatus = 'pending' | 'mining' | 'submitting' | 'completed' | 'failed' | 'expired';
+
+export interface StoredWorkBlock {
+  blockIndex: number;
+  entropy: string;
+  blockTimestamp: number;
+  blockParams?: BlockParams;
+  status: WorkBlockStatus;
+  receivedAt: string;
+  completedAt?: string;
+}
+
+// Custodial keys are kept only sealed or as custody references - never as raw secrets
+export interface StoredFarmerJob {
+  blockIndex: number;
+  farmerId: string;
+  custodialWallet: string;
+  custodialKey?: string; // Lets rescheduled work still be signed by the farmer after a restart
+  stakeAmount: string;
+  plantingTime?: string;
+  plantLedger?: number;
+  status: FarmerJobStatus;
+  result?: WorkResult;
+  error?: string;
+  updatedAt: string;
+}
+
+export interface UnfinishedWorkBlock {
+  block: StoredWorkBlock;
+  jobs: StoredFarmerJob[];
+}
+
+// Job states that still need work (submitting may or may not have landed on-chain)
+const UNFINISHED_JOB_STATUSES: FarmerJobStatus[] = ['pending', 'mining', 'submitting'];
+
+class JobStore {
+  private db: Database;
+
+  constructor(path: string) {
+    if (path !== ':memory:') {
+      mkdirSync(dirname(path), { recursive: true });
+    }
+
+    this.db = new Database(path, { create: true });
+    this.db.exec('PRAGMA journal_mode = WAL');
+    this.migrate();
+
+    logger.info('JobStore initialized', { path });
+  }
+
+  /**
+   * Create tables if missing
+   */
+  private migrate(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS work_blocks (
+        block_index INTEGER PRIMARY KEY,
+        entropy TEXT NOT NULL,
+        block_timestamp INTEGER NOT NULL,
+        block_params TEXT,
+        status TEXT NOT NULL DEFAULT 'scheduled',
+        received_at TEXT NOT NULL,
+        completed_at TEXT
+      );
+
+      CREATE TABLE IF NOT EXISTS farmer_jobs (
+        block_index INTEGER NOT NULL,
+        farmer_id TEXT NOT NULL,
+        custodial_wallet TEXT NOT NULL,
+        custodial_key TEXT,
+        stake_amount TEXT NOT NULL,
+        planting_time TEXT,
+        plant_ledger INTEGER,
+        status TEXT NOT NULL DEFAULT 'pending',
+        result TEXT,
+        error TEXT,
+        updated_at TEXT NOT NULL,
+        PRIMARY KEY (block_index, farmer_id)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_work_blocks_status ON work_blocks (status);
+    `);
+
+    // Stores created before custodial keys were kept
+    const jobColumns = this.db.prepare(`PRAGMA table_info(farmer_jobs)`).all() as Array<{ name: string }>;
+    if (!jobColumns.some(column => column.name === 'custodial_key')) {
+      this.db.exec(`ALTER TABLE farmer_jobs ADD COLUMN custodial_key TEXT`);
+    }
+  }
+
+  /**
+   * Record a planting notification and a pending job per planted farmer.
+   * Re-delivered notifications keep the existing job state.
+   */
+  saveBlock(notification: PlantingNotification): void {
+    const now = new Date().toISOString();
+
+    const insertBlock = this.db.prepare(`
+      INSERT INTO work_blocks (block_index, entropy, block_timestamp, block_params, status, received_at)
+      VALUES (?, ?, ?, ?, 'scheduled', ?)
+      ON CONFLICT (block_index) DO UPDATE SET
+        entropy = excluded.entropy,
+        block_timestamp = excluded.block_timestamp,
+        block_params = COALESCE(excluded.block_params, work_blocks.block_params),
+        status = 'scheduled',
+        completed_at = NULL
+    `);
+    const insertJob = this.db.prepare(`
+      INSERT OR IGNORE INTO farmer_jobs
+        (block_index, farmer_id, custodial_wallet, custodial_key, stake_amount, planting_time, plant_ledger, status, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, 'pending', ?)
+    `);
+
+    this.db.transaction(() => {
+      insertBlock.run(
+        notification.blockIndex,
+        notification.entropy,
+        notification.blockTimestamp,
+        notification.blockParams ? JSON.stringify(notification.blockParams) : null,
+        now
+      );
+
+      for (const farmer of notification.plantedFarmers) {
+        insertJob.run(
+          notification.blockIndex,
+          farmer.farmerId,
+          farmer.custodialWallet,
+          farmer.custodialKey ?? null,
+          farmer.stakeAmount,
+          farmer.plantingTime ? new Date(farmer.plantingTime).toISOString() : null,
+          farmer.plantLedger ?? null,
+          now
+        );
+      }
+    })();
+  }
+
+  /**
+   * Move a farmer's job to a new state
+   */
+  updateJobStatus(blockIndex: number, farmerId: string, status: FarmerJobStatus, error?: string): void {
+    this.db.prepare(`
+      UPDATE farmer_jobs SET status = ?, error = COALESCE(?, error), updated_at = ?
+      WHERE block_index = ? AND farmer_id = ?
+    `).run(status, error ?? null, new Date().toISOString(), blockIndex, farmerId);
+  }
+
+  /**
+   * Store a farmer's final work result
+   */
+  recordJobResult(blockIndex: number, result: WorkResult): void {
+    const status: FarmerJobStatus = result.status === 'failed' ? 'failed' : 'completed';
+
+    this.db.prepare(`
+      UPDATE farmer_jobs SET status = ?, result = ?, error = ?, updated_at = ?
+      WHERE block_index = ? AND farmer_id = ?
+    `).run(status, JSON.stringify(result), result.error ?? null, new Date().toISOString(), blockIndex, result.farmerId);
+  }
+
+  /**
+   * Mark a block as finished (completed or expired)
+   */
+  completeBlock(blockIndex: number, status: Exclude<WorkBlockStatus, 'scheduled'>): void {
+    this.db.prepare(`
+      UPDATE work_blocks SET status = ?, completed_at = ? WHERE block_index = ?
+    `).run(status, new Date().toISOString(), blockIndex);
+  }
+
+  /**
+   * Blocks still marked scheduled, with all their jobs
+   */
+  getUnfinishedBlocks(): UnfinishedWorkBlock[] {
+    const rows = this.db.prepare(`
+      SELECT * FROM work_blocks WHERE status = 'scheduled' ORDER BY block_index
+    `).all() as any[];
+
+    return rows.map(row => ({
+      block: this.toWorkBlock(row),
+      jobs: this.getBlockJobs(row.block_index)
+    }));
+  }
+
+  /**
+   * A stored block, if the pooler has seen it
+   */
+  getBlock(blockIndex: number): StoredWorkBlock | undefined {
+    const row = this.db.prepare(`SELECT * FROM work_blocks WHERE block_index = ?`).get(blockIndex);
+    return row ? this.toWorkBlock(row) : undefined;
+  }
+
+  /**
+   * All farmer jobs for a block
+   */
+  getBlockJobs(blockIndex: number): StoredFarmerJob[] {
+    const rows = this.db.prepare(`
+      SELECT * FROM farmer_jobs WHERE block_index = ? ORDER BY farmer_id
+    `).all(blockIndex) as any[];
+
+    return rows.map(row => this.toFarmerJob(row));
+  }
+
+  /**
+   * Whether a job still needs work
+   */
+  isUnfinished(job: StoredFarmerJob): boolean {
+    return UNFINISHED_JOB_STATUSES.includes(job.status);
+  }
+
+  /**
+   * Job counts by status (for status endpoints)
+   */
+  getStats() {
+    const blocks = this.db.prepare(`
+      SELECT status, COUNT(*) AS count FROM work_blocks GROUP BY status
+    `).all() as Array<{ status: string; count: number }>;
+    const jobs = this.db.prepare(`
+      SELECT status, COUNT(*) AS count FROM farmer_jobs GROUP BY status
+    `).all() as Array<{ status: string; count: number }>;
+
+    return {
+      blocks: Object.fromEntries(blocks.map(row => [row.status, row.count])),
+      jobs: Object.fromEntries(jobs.map(row => [row.status, row.count]))
+    };
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private toWorkBlock(row: any): StoredWorkBlock {
+    return {
+      blockIndex: row.block_index,
+      entropy: row.entropy,
+      blockTimestamp: row.block_timestamp,
+      blockParams: row.block_params ? JSON.parse(row.block_params) : undefined,
+      status: row.status,
+      receivedAt: row.received_at,
+      completedAt: row.completed_at ?? undefined
+    };
+  }
+
+  private toFarmerJob(row: any): StoredFarmerJob {
+    return {
+      blockIndex: row.block_index,
+      farmerId: row.farmer_id,
+      custodialWallet: row.custodial_wallet,
+      custodialKey: row.custodial_key ?? undefined,
+      stakeAmount: row.stake_amount,
+      plantingTime: row.planting_time ?? undefined,
+      plantLedger: row.plant_ledger ?? undefined,
+      status: row.status,
+      result: row.result ? JSON.parse(row.result) : undefined,
+      error: row.error ?? undefined,
+      updatedAt: row.updated_at
+    };
+  }
+}
+
+// Export singleton instance
+export const jobStore = new JobStore(Config.JOB_STORE.PATH);
@@ -0,0 +1,205 @@
+// Key Custody for KALE Pool Mining Pooler
+// Custodial secret keys stay sealed to the pooler's X25519 key and are only opened inside a Signer at signing time
+
+import {
+  createCipheriv,
+  createDecipheriv,
+  createPrivateKey,
+  createPublicKey,
+  diffieHellman,
+  generateKeyPairSync,
+  hkdfSync,
+  randomBytes,
+  type KeyObject
+} from 'crypto';
+import { Keypair, TransactionBuilder, hash } from '@stellar/stellar-sdk';
+import { requestAuth } from './request-auth';
+import Config from '../../../Shared/config';
+import { blockMonitorLogger as logger } from '../../../Shared/utils/logger';
+
+/**
+ * Signs on behalf of one custodial wallet without exposing its secret key
+ */
+export interface Signer {
+  readonly publicKey: string;
+  signAuthEntry(authEntry: string): Promise<{ signedAuthEntry: string; signerAddress: string }>;
+  signTransaction(transactionXdr: string, networkPassphrase: string): Promise<{ signedTxXdr: string; signerAddress: string }>;
+}
+
+// Envelope format: sealed:v1.<ephemeral X25519 public key>.<iv>.<AES-256-GCM ciphertext + tag>, base64url parts.
+// The AES key is HKDF-SHA256(shared secret, salt = ephemeral key || pooler key, info = SEAL_INFO) and the
+// custodial wallet address is the additional authenticated data, so an envelope only opens for its own wallet.
+const SEALED_PREFIX = 'sealed:v1.';
+const REFERENCE_PREFIX = 'ref:';
+const SEAL_INFO = 'kale-pool custody v1';
+const GCM_TAG_BYTES = 16;
+
+// DER prefixes that wrap raw 32-byte X25519 keys
+const PKCS8_X25519_PREFIX = Buffer.from('302e020100300506032b656e04220420', 'hex');
+const SPKI_X25519_PREFIX = Buffer.from('302a300506032b656e032100', 'hex');
+
+class KeyCustody {
+  private privateKey: KeyObject;
+  private publicKeyRaw: Buffer;
+
+  constructor(privateKeyBase64: string) {
+    if (privateKeyBase64) {
+      this.privateKey = createPrivateKey({
+        key: Buffer.concat([PKCS8_X25519_PREFIX, Buffer.from(privateKeyBase64, 'base64')]),
+        format: 'der',
+        type: 'pkcs8'
+      });
+    } else {
+      this.privateKey = generateKeyPairSync('x25519').privateKey;
+      logger.warn('No POOLER_CUSTODY_PRIVATE_KEY configured - using a per-run custody key');
+    }
+
+    this.publicKeyRaw = Buffer.from(createPublicKey(this.privateKey).export({ format: 'jwk' }).x!, 'base64url');
+
+    logger.info('KeyCustody initialized', {
+      public_key: this.getPublicKey(),
+      allow_plaintext: Config.KEY_CUSTODY.ALLOW_PLAINTEXT
+    });
+  }
+
+  /**
+   * The pooler's X25519 public key (base64) that the Backend seals custodial keys to
+   */
+  getPublicKey(): string {
+    return this.publicKeyRaw.toString('base64');
+  }
+
+  /**
+   * Whether a value is a custody handle (sealed envelope or key reference) rather than a raw secret
+   */
+  isCustodyHandle(value: string): boolean {
+    return value.startsWith(SEALED_PREFIX) || value.startsWith(REFERENCE_PREFIX);
+  }
+
+  /**
+   * Seal a secret key to the pooler's own key (used for legacy plaintext input)
+   */
+  seal(secretKey: string, custodialWallet: string): string {
+    const ephemeral = generateKeyPairSync('x25519');
+    const ephemeralRaw = Buffer.from(ephemeral.publicKey.export({ format: 'jwk' }).x!, 'base64url');
+    const key = this.deriveKey(diffieHellman({ privateKey: ephemeral.privateKey, publicKey: this.toPublicKey(this.publicKeyRaw) }), ephemeralRaw);
+
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', key, iv);
+    cipher.setAAD(Buffer.from(custodialWallet));
+    const ciphertext = Buffer.concat([cipher.update(secretKey, 'utf8'), cipher.final(), cipher.getAuthTag()]);
+
+    return SEALED_PREFIX + [ephemeralRaw, iv, ciphertext].map(part => part.toString('base64url')).join('.');
+  }
+
+  /**
+   * Turn a legacy plaintext secret key into a sealed handle, or drop it when plaintext keys are not allowed
+   */
+  acceptPlaintext(secretKey: string, custodialWallet: string): string | undefined {
+    if (!Config.KEY_CUSTODY.ALLOW_PLAINTEXT) {
+      logger.warn('Dropped plaintext custodial secret key (send it sealed to the pooler custody key)', {
+        custodial_wallet: custodialWallet
+      });
+      return undefined;
+    }
+    return this.seal(secretKey, custodialWallet);
+  }
+
+  /**
+   * Signer for a custodial wallet; the key is opened for each signature and never kept
+   */
+  signerFor(custodialKey: string, custodialWallet: string): Signer {
+    return {
+      publicKey: custodialWallet,
+      signAuthEntry: async (authEntry: string) => {
+        const keypair = await this.open(custodialKey, custodialWallet);
+        return {
+          signedAuthEntry: keypair.sign(hash(Buffer.from(authEntry, 'base64'))).toString('base64'),
+          signerAddress: custodialWallet
+        };
+      },
+      signTransaction: async (transactionXdr: string, networkPassphrase: string) => {
+        const keypair = await this.open(custodialKey, custodialWallet);
+        const transaction = TransactionBuilder.fromXDR(transactionXdr, networkPassphrase);
+        transaction.sign(keypair);
+        return {
+          signedTxXdr: transaction.toXDR(),
+          signerAddress: custodialWallet
+        };
+      }
+    };
+  }
+
+  /**
+   * Resolve a reference, unseal the envelope and check it belongs to the wallet
+   */
+  private async open(custodialKey: string, custodialWallet: string): Promise<Keypair> {
+    const sealed = custodialKey.startsWith(REFERENCE_PREFIX)
+      ? await this.resolveReference(custodialKey.slice(REFERENCE_PREFIX.length))
+      : custodialKey;
+
+    if (!sealed.startsWith(SEALED_PREFIX)) {
+      throw new Error('Unsupported custodial key format');
+    }
+
+    const [ephemeralRaw, iv, payload] = sealed.slice(SEALED_PREFIX.length).split('.').map(part => Buffer.from(part, 'base64url'));
+    if (!ephemeralRaw || ephemeralRaw.length !== 32 || !iv || !payload || payload.length <= GCM_TAG_BYTES) {
+      throw new Error('Malformed sealed custodial key');
+    }
+
+    const key = this.deriveKey(diffieHellman({ privateKey: this.privateKey, publicKey: this.toPublicKey(ephemeralRaw) }), ephemeralRaw);
+    const decipher = createDecipheriv('aes-256-gcm', key, iv);
+    decipher.setAAD(Buffer.from(custodialWallet));
+    decipher.setAuthTag(payload.subarray(payload.length - GCM_TAG_BYTES));
+
+    let keypair: Keypair;
+    try {
+      const secretKey = Buffer.concat([decipher.update(payload.subarray(0, payload.length - GCM_TAG_BYTES)), decipher.final()]);
+      keypair = Keypair.fromSecret(secretKey.toString('utf8'));
+      secretKey.fill(0);
+    } catch {
+      throw new Error('Sealed custodial key could not be opened for this wallet');
+    }
+
+    if (keypair.publicKey() !== custodialWallet) {
+      throw new Error('Sealed custodial key does not match the custodial wallet');
+    }
+    return keypair;
+  }
+
+  /**
+   * Fetch the sealed envelope behind a key reference from the Backend (signed request)
+   */
+  private async resolveReference(reference: string): Promise<string> {
+    const url = new URL(`${Config.BACKEND_API.URL}/pooler/custody/keys/${encodeURIComponent(reference)}`);
+    const response = await fetch(url, {
+      headers: {
+        'X-Pooler-ID': Config.POOLER.ID,
+        ...requestAuth.sign({ method: 'GET', path: url.pathname + url.search, body: '' })
+      },
+      signal: AbortSignal.timeout(Config.BACKEND_API.TIMEOUT_MS)
+    });
+
+    if (!response.ok) {
+      throw new Error(`Custodial key reference could not be resolved: ${response.status}`);
+    }
+
+    const body = await response.json() as { sealedKey?: string; sealed_key?: string };
+    const sealed = body.sealedKey ?? body.sealed_key;
+    if (!sealed) {
+      throw new Error('Custodial key reference resolved to no sealed key');
+    }
+    return sealed;
+  }
+
+  private deriveKey(sharedSecret: Buffer, ephemeralRaw: Buffer): Buffer {
+    return Buffer.from(hkdfSync('sha256', sharedSecret, Buffer.concat([ephemeralRaw, this.publicKeyRaw]), SEAL_INFO, 32));
+  }
+
+  private toPublicKey(raw: Buffer): KeyObject {
+    return createPublicKey({ key: Buffer.concat([SPKI_X25519_PREFIX, raw]), format: 'der', type: 'spki' });
+  }
+}
+
+// Export singleton instance
+export const keyCustody = new KeyCustody(Config.KEY_CUSTODY.PRIVATE_KEY);
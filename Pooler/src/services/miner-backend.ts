@@ -0,0 +1,218 @@
+// Miner Backends for KALE Pool Mining Pooler
+// Pluggable hash search: external kale-farmer binary or in-process TypeScript hasher
+
+import { spawn } from 'bun';
+import Config from '../../../Shared/config';
+import { blockMonitorLogger as logger } from '../../../Shared/utils/logger';
+import { buildKaleHashInput, compareHashes, keccak256 } from '../../../Shared/utils/kale-hash';
+
+// Miner run interfaces
+export interface MinerRunRequest {
+  farmerId: string;
+  farmerHex: string; // Raw 32-byte farmer public key (hex)
+  blockIndex: number;
+  entropy: string; // 32-byte entropy (hex)
+  nonceCount: number;
+  startNonce?: number; // Only honoured by backends with supportsStartNonce
+}
+
+export interface MinerRunOutput {
+  nonce: number;
+  hash: string; // hex
+}
+
+/**
+ * Handle for a running miner job
+ */
+export interface MinerJob {
+  pid?: number;
+  result: Promise<MinerRunOutput | null>;
+  cancel(): void;
+}
+
+export interface MinerBackend {
+  readonly name: string;
+  readonly supportsStartNonce: boolean;
+  start(request: MinerRunRequest): MinerJob;
+}
+
+/**
+ * External binary backend - spawns kale-farmer and parses its final `[nonce, hash]` line
+ */
+export class ExternalBinaryMinerBackend implements MinerBackend {
+  readonly name = 'binary';
+  readonly supportsStartNonce = false; // kale-farmer always searches from nonce 0
+
+  constructor(
+    private readonly binaryPath: string,
+    private readonly extraArgs: string[] = []
+  ) {}
+
+  start(request: MinerRunRequest): MinerJob {
+    const args = [
+      this.binaryPath,
+      '--farmer-hex', request.farmerHex,
+      '--index', request.blockIndex.toString(),
+      '--entropy-hex', request.entropy,
+      '--nonce-count', request.nonceCount.toString(),
+      ...this.extraArgs
+    ];
+
+    logger.debug(`Spawning kale-farmer with args ${JSON.stringify({
+      farmer_id: request.farmerId,
+      args: args,
+      farmer_hex_length: request.farmerHex.length,
+      entropy_length: request.entropy.length
+    })}`);
+
+    const workerProcess = spawn(args, {
+      stdout: 'pipe',
+      stderr: 'pipe'
+    });
+
+    return {
+      pid: workerProcess.pid,
+      result: this.readWorkStream(workerProcess.stdout, workerProcess.stderr, request.farmerId),
+      cancel: () => workerProcess.kill()
+    };
+  }
+
+  /**
+   * Read and parse work stream output
+   */
+  private async readWorkStream(
+    stdout: ReadableStream<Uint8Array>,
+    stderr?: ReadableStream<Uint8Array>,
+    farmerId?: string
+  ): Promise<MinerRunOutput | null> {
+    try {
+      const output = await Bun.readableStreamToText(stdout);
+
+      // Also read stderr for debugging
+      let stderrOutput = '';
+      if (stderr) {
+        try {
+          stderrOutput = await Bun.readableStreamToText(stderr);
+        } catch (e) {
+          // Ignore stderr errors
+        }
+      }
+
+      logger.debug(`Work process output ${JSON.stringify({
+        farmer_id: farmerId,
+        stdout_length: output?.length || 0,
+        stderr_length: stderrOutput.length,
+        stdout_preview: output?.substring(0, 200),
+        stderr_preview: stderrOutput.substring(0, 200)
+      })}`);
+
+      if (!output || output.trim().length === 0) {
+        logger.warn(`Work process produced no stdout output ${JSON.stringify({
+          farmer_id: farmerId,
+          stderr_output: stderrOutput
+        })}`);
+        return null;
+      }
+
+      // Parse the last line which should contain the JSON result
+      const lines = output.trim().split('\n');
+      const lastLine = lines[lines.length - 1];
+
+      if (!lastLine || lastLine.trim().length === 0) {
+        logger.warn(`Work process stdout has no final line ${JSON.stringify({
+          farmer_id: farmerId,
+          lines_count: lines.length,
+          stderr_output: stderrOutput
+        })}`);
+        return null;
+      }
+
+      logger.debug(`Parsing work result line ${JSON.stringify({
+        farmer_id: farmerId,
+        last_line: lastLine
+      })}`);
+
+      const [nonce, hash] = JSON.parse(lastLine);
+
+      return {
+        nonce: parseInt(nonce),
+        hash
+      };
+
+    } catch (error) {
+      logger.error('Failed to parse work stream output', error as Error, {
+        farmer_id: farmerId
+      });
+      return null;
+    }
+  }
+}
+
+/**
+ * In-process TypeScript backend - reference KALE hasher for CI and small deployments.
+ * Hashes in chunks and yields to the event loop between them.
+ */
+export class TypeScriptMinerBackend implements MinerBackend {
+  readonly name = 'typescript';
+  readonly supportsStartNonce = true;
+  private readonly CHUNK_SIZE = 5000; // Hashes per event loop turn
+
+  start(request: MinerRunRequest): MinerJob {
+    let cancelled = false;
+
+    return {
+      result: this.search(request, () => cancelled),
+      cancel: () => {
+        cancelled = true;
+      }
+    };
+  }
+
+  private async search(request: MinerRunRequest, isCancelled: () => boolean): Promise<MinerRunOutput | null> {
+    const entropy = Buffer.from(request.entropy, 'hex');
+    const farmer = Buffer.from(request.farmerHex, 'hex');
+    const input = buildKaleHashInput(request.blockIndex, 0, entropy, farmer);
+    const view = new DataView(input.buffer);
+
+    let bestNonce = -1;
+    let bestHash: Uint8Array | null = null;
+
+    const startNonce = request.startNonce ?? 0;
+    const endNonce = startNonce + request.nonceCount;
+
+    for (let nonce = startNonce; nonce < endNonce; nonce++) {
+      if ((nonce - startNonce) % this.CHUNK_SIZE === 0 && nonce > startNonce) {
+        await new Promise(resolve => setImmediate(resolve));
+        if (isCancelled()) {
+          break;
+        }
+      }
+
+      view.setBigUint64(4, BigInt(nonce), false);
+      const hash = keccak256(input);
+      if (!bestHash || compareHashes(hash, bestHash) < 0) {
+        bestHash = hash;
+        bestNonce = nonce;
+      }
+    }
+
+    if (!bestHash) {
+      return null;
+    }
+
+    return {
+      nonce: bestNonce,
+      hash: Buffer.from(bestHash).toString('hex')
+    };
+  }
+}
+
+/**
+ * Create the miner backend selected in config
+ */
+export function createMinerBackend(): MinerBackend {
+  if (Config.MINER.BACKEND === 'typescript') {
+    return new TypeScriptMinerBackend();
+  }
+  return new ExternalBinaryMinerBackend(Config.MINER.BINARY_PATH, Config.MINER.BINARY_ARGS);
+}
@@ -0,0 +1,207 @@
+// Nonce Search Strategy for KALE Pool Mining Pooler
+// Mines successive nonce windows toward a target zero count while the time budget allows
+
+import Config from '../../../Shared/config';
+import { MINING_CONFIG } from '../../../Shared/utils/constants';
+import { blockMonitorLogger as logger } from '../../../Shared/utils/logger';
+import { countLeadingZeros } from '../../../Shared/utils/kale-scoring';
+import type { MinerBackend, MinerJob, MinerRunOutput, MinerRunRequest } from './miner-backend';
+
+export interface NonceSearchParams {
+  minZeros?: number; // Block's current min_zeros
+  maxZeros?: number; // Block's current max_zeros
+  deadlineAt: number; // Stop starting windows that would finish after this (ms)
+  firstWindowTimeoutMs: number; // Time allowed before any result exists
+  cutoffAt?: number; // No window is waited on past this, not even the first (defaults to deadlineAt)
+  startNonce?: number; // Nonces below this were searched by an earlier run
+}
+
+// Search choices recorded in WorkResult
+export interface NonceSearchReport {
+  targetZeros: number;
+  bestZeros: number;
+  windows: number;
+  windowSize: number;
+  noncesSearched: number;
+  stopReason: 'target_reached' | 'deadline' | 'max_windows' | 'cancelled' | 'no_output';
+  searchTimeMs: number;
+}
+
+export interface NonceSearchOutcome {
+  output: MinerRunOutput | null;
+  report: NonceSearchReport;
+}
+
+// Hooks so the caller can track (and cancel) the window currently being mined
+export interface NonceSearchHooks {
+  onWindowStart(job: MinerJob): void;
+  isCancelled(): boolean;
+}
+
+const WINDOW_TIMED_OUT = Symbol('window_timed_out');
+
+// Share of the remaining budget a run from nonce 0 may be sized to, leaving room for the submission
+const BUDGET_FILL = 0.9;
+
+export class NonceSearchStrategy {
+  private readonly WINDOW_SIZE = Config.MINER.WINDOW_NONCES;
+  private readonly MAX_WINDOWS = Config.MINER.MAX_WINDOWS;
+
+  constructor(private readonly backend: MinerBackend) {}
+
+  /**
+   * Pick the zero count to aim for: the block's best so far, never below its minimum
+   */
+  chooseTargetZeros(minZeros?: number, maxZeros?: number): number {
+    const known = [minZeros, maxZeros].filter((z): z is number => z !== undefined && z > 0 && z <= 64);
+    if (known.length === 0) {
+      return MINING_CONFIG.DEFAULT_DIFFICULTY;
+    }
+    return Math.max(...known);
+  }
+
+  /**
+   * Mine window after window, keeping the best hash, until the target is hit or the budget runs out
+   */
+  async search(
+    request: Omit<MinerRunRequest, 'nonceCount' | 'startNonce'>,
+    params: NonceSearchParams,
+    hooks: NonceSearchHooks
+  ): Promise<NonceSearchOutcome> {
+    const searchStart = Date.now();
+    const targetZeros = this.chooseTargetZeros(params.minZeros, params.maxZeros);
+    const baseNonce = params.startNonce ?? 0;
+
+    let best: MinerRunOutput | null = null;
+    let bestZeros = 0;
+    let windows = 0;
+    let coveredNonce = baseNonce; // Every nonce below this has been searched
+    let noncesPerMs = 0; // Hash rate measured on the last completed window
+    let lastWindowMs = 0;
+    let stopReason: NonceSearchReport['stopReason'] = 'max_windows';
+
+    while (windows < this.MAX_WINDOWS) {
+      if (hooks.isCancelled()) {
+        stopReason = 'cancelled';
+        break;
+      }
+
+      const window = this.nextWindow(coveredNonce, noncesPerMs, params.deadlineAt);
+      const expectedMs = noncesPerMs > 0 ? window.nonceCount / noncesPerMs : lastWindowMs;
+
+      // Don't start a window we expect to overrun the deadline once we have something to submit
+      if (best && Date.now() + expectedMs > params.deadlineAt) {
+        stopReason = 'deadline';
+        break;
+      }
+
+      const job = this.backend.start({
+        ...request,
+        startNonce: this.backend.supportsStartNonce ? window.start : undefined,
+        nonceCount: window.nonceCount
+      });
+      hooks.onWindowStart(job);
+
+      // Never wait past the cutoff, even for the first window
+      const windowBegan = Date.now();
+      const timeoutMs = Math.max(0, best
+        ? params.deadlineAt - windowBegan
+        : Math.min(params.firstWindowTimeoutMs, (params.cutoffAt ?? params.deadlineAt) - windowBegan));
+      const { output, timedOut } = await this.awaitWindow(job, timeoutMs);
+      lastWindowMs = Date.now() - windowBegan;
+      windows++;
+
+      // A cancelled window searched an unknown part of its range
+      if (!timedOut) {
+        coveredNonce = window.start + window.nonceCount;
+        noncesPerMs = window.nonceCount / Math.max(1, lastWindowMs);
+      }
+
+      if (output) {
+        const zeros = countLeadingZeros(output.hash);
+        if (!best || zeros > bestZeros) {
+          best = output;
+          bestZeros = zeros;
+        }
+      }
+
+      logger.debug(`Nonce window finished ${JSON.stringify({
+        farmer_id: request.farmerId,
+        window: windows,
+        window_start: window.start,
+        nonce_count: window.nonceCount,
+        window_ms: lastWindowMs,
+        best_zeros: bestZeros,
+        target_zeros: targetZeros
+      })}`);
+
+      if (best && bestZeros >= targetZeros) {
+        stopReason = 'target_reached';
+        break;
+      }
+
+      if (!output && !best) {
+        // First window produced nothing - the backend is failing, not just slow
+        stopReason = 'no_output';
+        break;
+      }
+    }
+
+    const report: NonceSearchReport = {
+      targetZeros,
+      bestZeros,
+      windows,
+      windowSize: this.WINDOW_SIZE,
+      noncesSearched: coveredNonce - baseNonce,
+      stopReason,
+      searchTimeMs: Date.now() - searchStart
+    };
+
+    logger.info(`Nonce search finished ${JSON.stringify({
+      farmer_id: request.farmerId,
+      block_index: request.blockIndex,
+      target_zeros: report.targetZeros,
+      best_zeros: report.bestZeros,
+      windows: report.windows,
+      stop_reason: report.stopReason,
+      search_time_ms: report.searchTimeMs
+    })}`);
+
+    return { output: best, report };
+  }
+
+  /**
+   * Range of the next window. Backends with a start nonce mine the next fixed window; the others always start at
+   * nonce 0, so each run is sized to the remaining budget and must reach past the nonces already covered.
+   */
+  private nextWindow(coveredNonce: number, noncesPerMs: number, deadlineAt: number): { start: number; nonceCount: number } {
+    if (this.backend.supportsStartNonce) {
+      return { start: coveredNonce, nonceCount: this.WINDOW_SIZE };
+    }
+
+    const budgetNonces = Math.floor(noncesPerMs * Math.max(0, deadlineAt - Date.now()) * BUDGET_FILL);
+    return { start: 0, nonceCount: Math.max(coveredNonce + this.WINDOW_SIZE, budgetNonces) };
+  }
+
+  /**
+   * Wait for a window; on timeout cancel it and keep whatever the backend salvaged
+   */
+  private async awaitWindow(job: MinerJob, timeoutMs: number): Promise<{ output: MinerRunOutput | null; timedOut: boolean }> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<typeof WINDOW_TIMED_OUT>(resolve => {
+      timer = setTimeout(() => resolve(WINDOW_TIMED_OUT), timeoutMs);
+    });
+
+    try {
+      const output = await Promise.race([job.result, timeout]);
+      if (output !== WINDOW_TIMED_OUT) {
+        return { output, timedOut: false };
+      }
+
+      job.cancel();
+      return { output: await job.result, timedOut: true };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
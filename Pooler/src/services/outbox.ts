@@ -0,0 +1,360 @@
+// Notification Outbox for KALE Pool Mining Pooler
+// Persisted queue for Backend notifications with backoff retries and dead-lettering
+
+import { Database } from 'bun:sqlite';
+import { mkdirSync } from 'fs';
+import { dirname } from 'path';
+import { requestAuth } from './request-auth';
+import Config from '../../../Shared/config';
+import { blockMonitorLogger as logger } from '../../../Shared/utils/logger';
+
+export type OutboxStatus = 'pending' | 'delivered' | 'dead';
+
+export interface OutboxMessageInput {
+  eventType: string;
+  idempotencyKey: string; // Same key = same event; duplicates are dropped
+  url: string;
+  payload: unknown;
+  headers?: Record<string, string>; // Persisted as-is - never put credentials here
+  authenticated?: boolean; // HMAC-sign the request at delivery time (fresh timestamp and nonce per attempt)
+}
+
+export interface OutboxMessage {
+  id: number;
+  eventType: string;
+  idempotencyKey: string;
+  url: string;
+  payload: unknown;
+  status: OutboxStatus;
+  attempts: number;
+  nextAttemptAt: string;
+  lastError?: string;
+  createdAt: string;
+  deliveredAt?: string;
+}
+
+// Called with the Backend's parsed response once a message is delivered
+export type OutboxDeliveryHandler = (payload: any, response: any) => void | Promise<void>;
+
+class Outbox {
+  private db: Database;
+  private handlers = new Map<string, OutboxDeliveryHandler>();
+  private dispatchTimer: NodeJS.Timeout | null = null;
+  private isDispatching = false;
+
+  private readonly MAX_ATTEMPTS = Config.OUTBOX.MAX_ATTEMPTS;
+  private readonly BASE_DELAY_MS = Config.OUTBOX.BASE_DELAY_MS;
+  private readonly MAX_DELAY_MS = Config.OUTBOX.MAX_DELAY_MS;
+  private readonly BATCH_SIZE = 20;
+
+  constructor(path: string) {
+    if (path !== ':memory:') {
+      mkdirSync(dirname(path), { recursive: true });
+    }
+
+    this.db = new Database(path, { create: true });
+    this.db.exec('PRAGMA journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS outbox_messages (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        event_type TEXT NOT NULL,
+        idempotency_key TEXT NOT NULL UNIQUE,
+        url TEXT NOT NULL,
+        headers TEXT,
+        authenticated INTEGER NOT NULL DEFAULT 0,
+        payload TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'pending',
+        attempts INTEGER NOT NULL DEFAULT 0,
+        next_attempt_at INTEGER NOT NULL,
+        last_error TEXT,
+        created_at TEXT NOT NULL,
+        delivered_at TEXT
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_outbox_due ON outbox_messages (status, next_attempt_at);
+    `);
+
+    logger.info('Outbox initialized', {
+      path,
+      max_attempts: this.MAX_ATTEMPTS,
+      base_delay_ms: this.BASE_DELAY_MS
+    });
+  }
+
+  /**
+   * Register a handler for delivered messages of an event type
+   */
+  onDelivered(eventType: string, handler: OutboxDeliveryHandler): void {
+    this.handlers.set(eventType, handler);
+  }
+
+  /**
+   * Queue a notification and try to deliver it straight away.
+   * Returns false when an event with the same idempotency key already exists.
+   */
+  enqueue(message: OutboxMessageInput): boolean {
+    const result = this.db.prepare(`
+      INSERT OR IGNORE INTO outbox_messages
+        (event_type, idempotency_key, url, headers, authenticated, payload, status, attempts, next_attempt_at, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, 'pending', 0, ?, ?)
+    `).run(
+      message.eventType,
+      message.idempotencyKey,
+      message.url,
+      message.headers ? JSON.stringify(message.headers) : null,
+      message.authenticated ? 1 : 0,
+      JSON.stringify(message.payload),
+      Date.now(),
+      new Date().toISOString()
+    );
+
+    if (result.changes === 0) {
+      logger.debug('Outbox message already queued', {
+        event_type: message.eventType,
+        idempotency_key: message.idempotencyKey
+      });
+      return false;
+    }
+
+    void this.dispatchDue();
+    return true;
+  }
+
+  /**
+   * Start the background dispatcher
+   */
+  start(): void {
+    if (this.dispatchTimer) {
+      return;
+    }
+    this.dispatchTimer = setInterval(() => void this.dispatchDue(), Config.OUTBOX.POLL_INTERVAL_MS);
+    void this.dispatchDue();
+  }
+
+  /**
+   * Stop the background dispatcher (queued messages stay persisted)
+   */
+  stop(): void {
+    if (this.dispatchTimer) {
+      clearInterval(this.dispatchTimer);
+      this.dispatchTimer = null;
+    }
+  }
+
+  /**
+   * Deliver every pending message whose retry time has come
+   */
+  async dispatchDue(): Promise<void> {
+    if (this.isDispatching) {
+      return;
+    }
+    this.isDispatching = true;
+
+    try {
+      const rows = this.db.prepare(`
+        SELECT * FROM outbox_messages
+        WHERE status = 'pending' AND next_attempt_at <= ?
+        ORDER BY next_attempt_at, id
+        LIMIT ?
+      `).all(Date.now(), this.BATCH_SIZE) as any[];
+
+      for (const row of rows) {
+        await this.deliver(row);
+      }
+    } catch (error) {
+      logger.error('Outbox dispatch failed', error as Error);
+    } finally {
+      this.isDispatching = false;
+    }
+  }
+
+  /**
+   * Signature headers for one delivery attempt
+   */
+  private signDelivery(row: any): Record<string, string> {
+    const url = new URL(row.url);
+    return requestAuth.sign({ method: 'POST', path: url.pathname + url.search, body: row.payload });
+  }
+
+  /**
+   * Attempt one delivery; on failure back off exponentially or dead-letter
+   */
+  private async deliver(row: any): Promise<void> {
+    const attempts = row.attempts + 1;
+    const payload = JSON.parse(row.payload);
+
+    try {
+      const response = await fetch(row.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Idempotency-Key': row.idempotency_key,
+          ...(row.headers ? JSON.parse(row.headers) : {}),
+          ...(row.authenticated ? this.signDelivery(row) : {})
+        },
+        body: row.payload,
+        signal: AbortSignal.timeout(Config.BACKEND_API.TIMEOUT_MS)
+      });
+
+      if (!response.ok) {
+        throw new Error(`Backend responded with status ${response.status}: ${await response.text()}`);
+      }
+
+      const responseBody = await response.json().catch(() => null);
+
+      this.db.prepare(`
+        UPDATE outbox_messages SET status = 'delivered', attempts = ?, last_error = NULL, delivered_at = ?
+        WHERE id = ?
+      `).run(attempts, new Date().toISOString(), row.id);
+
+      logger.info('Outbox message delivered', {
+        id: row.id,
+        event_type: row.event_type,
+        idempotency_key: row.idempotency_key,
+        attempts
+      });
+
+      const handler = this.handlers.get(row.event_type);
+      if (handler) {
+        try {
+          await handler(payload, responseBody);
+        } catch (error) {
+          logger.error('Outbox delivery handler failed', error as Error, {
+            id: row.id,
+            event_type: row.event_type
+          });
+        }
+      }
+
+    } catch (error) {
+      const errorMessage = (error as Error).message;
+
+      if (attempts >= this.MAX_ATTEMPTS) {
+        this.db.prepare(`
+          UPDATE outbox_messages SET status = 'dead', attempts = ?, last_error = ? WHERE id = ?
+        `).run(attempts, errorMessage, row.id);
+
+        logger.error('Outbox message dead-lettered', undefined, {
+          id: row.id,
+          event_type: row.event_type,
+          idempotency_key: row.idempotency_key,
+          attempts,
+          error: errorMessage
+        });
+        return;
+      }
+
+      const delayMs = this.getBackoffDelay(attempts);
+      this.db.prepare(`
+        UPDATE outbox_messages SET attempts = ?, last_error = ?, next_attempt_at = ? WHERE id = ?
+      `).run(attempts, errorMessage, Date.now() + delayMs, row.id);
+
+      logger.warn('Outbox delivery failed - will retry', {
+        id: row.id,
+        event_type: row.event_type,
+        attempts,
+        retry_in_ms: delayMs,
+        error: errorMessage
+      });
+    }
+  }
+
+  /**
+   * Exponential backoff with jitter, capped at MAX_DELAY_MS
+   */
+  private getBackoffDelay(attempts: number): number {
+    const delay = Math.min(this.MAX_DELAY_MS, this.BASE_DELAY_MS * 2 ** (attempts - 1));
+    return Math.round(delay * (0.8 + Math.random() * 0.4));
+  }
+
+  /**
+   * List messages, newest first
+   */
+  list(status?: OutboxStatus, limit = 50): OutboxMessage[] {
+    const rows = status
+      ? this.db.prepare(`SELECT * FROM outbox_messages WHERE status = ? ORDER BY id DESC LIMIT ?`).all(status, limit)
+      : this.db.prepare(`SELECT * FROM outbox_messages ORDER BY id DESC LIMIT ?`).all(limit);
+
+    return (rows as any[]).map(row => this.toMessage(row));
+  }
+
+  /**
+   * Get a single message
+   */
+  get(id: number): OutboxMessage | undefined {
+    const row = this.db.prepare(`SELECT * FROM outbox_messages WHERE id = ?`).get(id);
+    return row ? this.toMessage(row) : undefined;
+  }
+
+  /**
+   * Re-queue a dead or pending message for immediate delivery
+   */
+  replay(id: number): boolean {
+    const result = this.db.prepare(`
+      UPDATE outbox_messages SET status = 'pending', attempts = 0, next_attempt_at = ?
+      WHERE id = ? AND status != 'delivered'
+    `).run(Date.now(), id);
+
+    if (result.changes > 0) {
+      logger.info('Outbox message replayed', { id });
+      void this.dispatchDue();
+    }
+    return result.changes > 0;
+  }
+
+  /**
+   * Re-queue every dead-lettered message
+   */
+  replayDead(): number {
+    const result = this.db.prepare(`
+      UPDATE outbox_messages SET status = 'pending', attempts = 0, next_attempt_at = ? WHERE status = 'dead'
+    `).run(Date.now());
+
+    if (result.changes > 0) {
+      logger.info('Dead-lettered outbox messages replayed', { count: result.changes });
+      void this.dispatchDue();
+    }
+    return result.changes;
+  }
+
+  /**
+   * Message counts by status
+   */
+  getStats() {
+    const rows = this.db.prepare(`
+      SELECT status, COUNT(*) AS count FROM outbox_messages GROUP BY status
+    `).all() as Array<{ status: string; count: number }>;
+
+    return {
+      pending: 0,
+      delivered: 0,
+      dead: 0,
+      ...Object.fromEntries(rows.map(row => [row.status, row.count])),
+      dispatcherRunning: this.dispatchTimer !== null
+    };
+  }
+
+  close(): void {
+    this.stop();
+    this.db.close();
+  }
+
+  private toMessage(row: any): OutboxMessage {
+    return {
+      id: row.id,
+      eventType: row.event_type,
+      idempotencyKey: row.idempotency_key,
+      url: row.url,
+      payload: JSON.parse(row.payload),
+      status: row.status,
+      attempts: row.attempts,
+      nextAttemptAt: new Date(row.next_attempt_at).toISOString(),
+      lastError: row.last_error ?? undefined,
+      createdAt: row.created_at,
+      deliveredAt: row.delivered_at ?? undefined
+    };
+  }
+}
+
+// Export singleton instance (shares the job store's SQLite file)
+export const outbox = new Outbox(Config.JOB_STORE.PATH);
@@ -1,7 +1,17 @@
 // Pool Coordination Service - Integrates block monitoring with work execution
 // Phase 3: Coordinates planting notifications and work scheduling
 
-import { workManager, type WorkRequest, type WorkBatchResult } from './work-manager';
+import { createHash } from 'crypto';
+import { workManager, type WorkRequest, type WorkResult, type WorkBatchResult, type WorkContribution, type BlockParams } from './work-manager';
+import type { WorkScheduleReport } from './work-scheduler';
+import type { NonceSearchReport } from './nonce-search';
+import { jobStore, type StoredFarmerJob, type UnfinishedWorkBlock } from './job-store';
+import { outbox } from './outbox';
+import { compensationExecutor } from './compensation-executor';
+import { harvestManager } from './harvest-manager';
+import { poolEvents } from './pool-events';
+import { classifyFailure } from './contract-errors';
+import { BLOCK_INTERVAL_SECONDS, type FailureReason } from '../../../Shared/types/blockchain';
 import { blockMonitorLogger as logger } from '../../../Shared/utils/logger';
 import Config from '../../../Shared/config';
 
@@ -9,12 +19,14 @@ export interface PlantingNotification {
   blockIndex: number;
   entropy: string;
   blockTimestamp: number;
+  blockParams?: BlockParams; // gap bounds and zero range of the planted block
   plantedFarmers: Array<{
     farmerId: string;
     custodialWallet: string;
-    custodialSecretKey: string;
+    custodialKey?: string; // Sealed key or key reference - only ever opened by a Signer
     stakeAmount: string;
     plantingTime: Date;
+    plantLedger?: number;
   }>;
 }
 
@@ -29,10 +41,16 @@ export interface WorkCompletionNotification {
     hash?: string;
     zeros?: number;
     gap?: number;
+    transactionHash?: string;
+    confirmedLedger?: number;
+    normalizedContribution?: WorkContribution;
     workTime: number;
     attempts: number;
     error?: string;
+    failureReason?: FailureReason;
     compensationRequired: boolean;
+    schedule?: WorkScheduleReport;
+    search?: NonceSearchReport;
   }>;
   summary: {
     totalFarmers: number;
@@ -46,8 +64,11 @@ export interface WorkCompletionNotification {
 class PoolCoordinator {
   private pendingWorkBlocks = new Map<number, PlantingNotification>();
   private activeWorkPromises = new Map<number, Promise<WorkBatchResult>>();
+  private farmPaused = false;
 
   constructor() {
+    outbox.onDelivered('work_completed', (payload, response) => this.handleWorkCompletionDelivered(payload, response));
+    workManager.setPauseCheck(() => this.farmPaused);
     logger.info('PoolCoordinator initialized');
   }
 
@@ -55,12 +76,14 @@ class PoolCoordinator {
    * Receive planting notification from Backend
    */
   async receivePlantingNotification(notification: PlantingNotification): Promise<void> {
-    const { blockIndex, entropy, blockTimestamp, plantedFarmers } = notification;
+    const { blockIndex, entropy, blockParams, plantedFarmers } = notification;
 
     logger.info('Received planting notification from Backend', {
       block_index: blockIndex,
       farmer_count: plantedFarmers.length,
-      entropy: entropy.substring(0, 16) + '...'
+      entropy: entropy.substring(0, 16) + '...',
+      min_gap: blockParams?.minGap,
+      max_gap: blockParams?.maxGap
     });
 
     // Validate notification
@@ -69,6 +92,51 @@ class PoolCoordinator {
       return;
     }
 
+    // Persist before scheduling so a restart can pick the block back up
+    jobStore.saveBlock(notification);
+
+    poolEvents.publish('planting_received', {
+      entropy,
+      blockTimestamp: Number(notification.blockTimestamp),
+      farmerCount: plantedFarmers.length,
+      held: this.farmPaused
+    }, { blockIndex, farmerIds: plantedFarmers.map(farmer => farmer.farmerId) });
+
+    if (this.farmPaused) {
+      logger.warn('Farm is paused - holding work for block until it resumes', { block_index: blockIndex });
+      return;
+    }
+
+    this.startBlockWork(notification);
+  }
+
+  /**
+   * Suspend work scheduling while the farm is paused; held blocks and unsubmitted work are recovered on resume
+   */
+  async setFarmPaused(paused: boolean, currentBlockIndex?: number): Promise<void> {
+    if (paused === this.farmPaused) {
+      return;
+    }
+    this.farmPaused = paused;
+
+    if (paused) {
+      logger.warn('Farm paused - stopping work scheduling', {
+        active_work_blocks: Array.from(this.activeWorkPromises.keys())
+      });
+      workManager.stopWork();
+      return;
+    }
+
+    logger.info('Farm resumed - recovering held work', { current_block_index: currentBlockIndex });
+    await this.recoverPendingWork(currentBlockIndex);
+  }
+
+  /**
+   * Schedule work for a planting notification and track it until completion
+   */
+  private startBlockWork(notification: PlantingNotification): void {
+    const { blockIndex, entropy, blockTimestamp, blockParams, plantedFarmers } = notification;
+
     // Store pending work
     this.pendingWorkBlocks.set(blockIndex, notification);
 
@@ -76,10 +144,13 @@ class PoolCoordinator {
     const workRequests: WorkRequest[] = plantedFarmers.map(farmer => ({
       farmerId: farmer.farmerId,
       custodialWallet: farmer.custodialWallet,
-      custodialSecretKey: farmer.custodialSecretKey,
+      custodialKey: farmer.custodialKey,
       blockIndex,
       entropy,
-      stakeAmount: farmer.stakeAmount
+      stakeAmount: farmer.stakeAmount,
+      // Notifications arriving as raw JSON carry the planting time as a string
+      plantingTime: farmer.plantingTime ? new Date(farmer.plantingTime) : undefined,
+      plantLedger: farmer.plantLedger
     }));
 
     // Schedule work execution
@@ -87,7 +158,8 @@ class PoolCoordinator {
       blockTimestamp,
       blockIndex,
       entropy,
-      workRequests
+      workRequests,
+      blockParams
     );
 
     // Store the promise for tracking
@@ -99,6 +171,11 @@ class PoolCoordinator {
         await this.handleWorkCompletion(blockIndex, result);
         this.activeWorkPromises.delete(blockIndex);
         this.pendingWorkBlocks.delete(blockIndex);
+
+        // Resumed while the batch was still winding down - its held farmers were skipped by that recovery
+        if (result.heldFarmerIds.length > 0 && !this.farmPaused) {
+          await this.recoverPendingWork();
+        }
       })
       .catch(async (error) => {
         await this.handleWorkError(blockIndex, error);
@@ -116,7 +193,20 @@ class PoolCoordinator {
   /**
    * Handle work completion and notify Backend
    */
-  private async handleWorkCompletion(blockIndex: number, result: WorkBatchResult): Promise<void> {
+  private async handleWorkCompletion(blockIndex: number, batchResult: WorkBatchResult): Promise<void> {
+    // Farmers held by a pause are still pending; the block is completed once the resume has worked them
+    if (batchResult.heldFarmerIds.length > 0) {
+      logger.info('Work batch held by farm pause', {
+        block_index: blockIndex,
+        finished_farmers: batchResult.workResults.length,
+        held_farmers: batchResult.heldFarmerIds
+      });
+      return;
+    }
+
+    // Include farmers finished before a restart, not just this run's batch
+    const result = { ...batchResult, workResults: this.mergeStoredResults(blockIndex, batchResult.workResults) };
+
     const successCount = result.workResults.filter(r => r.status === 'success' || r.status === 'recovered').length;
     const failedCount = result.workResults.filter(r => r.status === 'failed').length;
 
@@ -144,6 +234,8 @@ class PoolCoordinator {
 
     // Notify Backend about work completion
     await this.notifyBackendWorkCompletion(notification);
+    jobStore.completeBlock(blockIndex, 'completed');
+    this.queueHarvests(blockIndex, result.workResults);
 
     // Log work summary for successful work
     const successfulWork = result.workResults.filter(r => r.status === 'success' || r.status === 'recovered');
@@ -181,6 +273,11 @@ class PoolCoordinator {
     logger.error('Work execution failed for block', error, {
       block_index: blockIndex
     });
+    poolEvents.publish('error', {
+      source: 'work_execution',
+      message: 'Work execution failed for block',
+      error: error?.message ?? String(error)
+    }, { blockIndex, farmerIds: this.pendingWorkBlocks.get(blockIndex)?.plantedFarmers.map(farmer => farmer.farmerId) });
 
     // Get the pending notification
     const notification = this.pendingWorkBlocks.get(blockIndex);
@@ -199,9 +296,14 @@ class PoolCoordinator {
       workTime: 0,
       attempts: 0,
       error: error.message || 'Work execution failed',
+      failureReason: classifyFailure(error),
       compensationRequired: true
     }));
 
+    for (const failedResult of failedResults) {
+      jobStore.recordJobResult(blockIndex, failedResult);
+    }
+
     // Notify Backend about the failure
     const failureNotification: WorkCompletionNotification = {
       blockIndex,
@@ -217,49 +319,203 @@ class PoolCoordinator {
     };
 
     await this.notifyBackendWorkCompletion(failureNotification);
+    jobStore.completeBlock(blockIndex, 'completed');
+  }
+
+  /**
+   * Re-schedule or finalize jobs left unfinished by a previous run.
+   * Blocks still open get their unfinished farmers re-scheduled; closed blocks are
+   * finalized with the unfinished farmers marked failed for compensation.
+   */
+  async recoverPendingWork(currentBlockIndex?: number): Promise<{ rescheduled: number[]; finalized: number[] }> {
+    const rescheduled: number[] = [];
+    const finalized: number[] = [];
+
+    for (const unfinished of jobStore.getUnfinishedBlocks()) {
+      const { block, jobs } = unfinished;
+
+      // Already being worked on in this process
+      if (this.activeWorkPromises.has(block.blockIndex)) {
+        continue;
+      }
+
+      const pendingJobs = jobs.filter(job => jobStore.isUnfinished(job));
+
+      try {
+        if (pendingJobs.length > 0 && this.isBlockOpen(unfinished, currentBlockIndex)) {
+          if (this.farmPaused) {
+            // Left stored for the resume
+            continue;
+          }
+          this.startBlockWork(this.toPlantingNotification(unfinished, pendingJobs));
+          rescheduled.push(block.blockIndex);
+          continue;
+        }
+
+        for (const job of pendingJobs) {
+          jobStore.updateJobStatus(block.blockIndex, job.farmerId, 'expired', 'Block closed before work completed (pooler restart)');
+        }
+        await this.finalizeStoredBlock(block.blockIndex);
+        finalized.push(block.blockIndex);
+
+      } catch (error) {
+        logger.error('Failed to recover stored work block', error as Error, {
+          block_index: block.blockIndex
+        });
+      }
+    }
+
+    logger.info('Stored work recovery finished', {
+      current_block_index: currentBlockIndex,
+      rescheduled_blocks: rescheduled,
+      finalized_blocks: finalized
+    });
+
+    return { rescheduled, finalized };
+  }
+
+  /**
+   * A block is open while it is the current farm block (or, if unknown, until its interval elapses)
+   */
+  private isBlockOpen(unfinished: UnfinishedWorkBlock, currentBlockIndex?: number): boolean {
+    if (currentBlockIndex !== undefined && currentBlockIndex > 0) {
+      return unfinished.block.blockIndex === currentBlockIndex;
+    }
+    const blockTimeMs = unfinished.block.blockTimestamp * 1000;
+    return Date.now() < blockTimeMs + BLOCK_INTERVAL_SECONDS * 1000;
+  }
+
+  /**
+   * Rebuild a planting notification for the farmers that still need work
+   */
+  private toPlantingNotification(unfinished: UnfinishedWorkBlock, pendingJobs: StoredFarmerJob[]): PlantingNotification {
+    return {
+      blockIndex: unfinished.block.blockIndex,
+      entropy: unfinished.block.entropy,
+      blockTimestamp: unfinished.block.blockTimestamp,
+      blockParams: unfinished.block.blockParams,
+      plantedFarmers: pendingJobs.map(job => ({
+        farmerId: job.farmerId,
+        custodialWallet: job.custodialWallet,
+        custodialKey: job.custodialKey,
+        stakeAmount: job.stakeAmount,
+        plantingTime: job.plantingTime ? new Date(job.plantingTime) : new Date(),
+        plantLedger: job.plantLedger
+      }))
+    };
+  }
+
+  /**
+   * Notify Backend of a block's stored results and close it in the store
+   */
+  private async finalizeStoredBlock(blockIndex: number): Promise<void> {
+    const workResults = this.mergeStoredResults(blockIndex, []);
+    const successCount = workResults.filter(r => r.status === 'success' || r.status === 'recovered').length;
+
+    await this.notifyBackendWorkCompletion({
+      blockIndex,
+      poolerId: Config.POOLER.ID,
+      workResults,
+      summary: {
+        totalFarmers: workResults.length,
+        successfulWork: successCount,
+        failedWork: workResults.length - successCount,
+        totalWorkTime: workResults.reduce((total, r) => total + r.workTime, 0),
+        timestamp: new Date().toISOString()
+      }
+    });
+    jobStore.completeBlock(blockIndex, 'expired');
+    this.queueHarvests(blockIndex, workResults);
+  }
+
+  /**
+   * Queue farmers whose work landed on-chain for harvest after the block closes
+   */
+  private queueHarvests(blockIndex: number, workResults: WorkResult[]): void {
+    const worked = workResults.filter(r => r.status === 'success' || r.status === 'recovered');
+    if (worked.length > 0) {
+      harvestManager.queue(blockIndex, worked);
+    }
+  }
+
+  /**
+   * Combine this run's results with results stored for the block's other farmers
+   */
+  private mergeStoredResults(blockIndex: number, workResults: WorkResult[]): WorkResult[] {
+    const merged = new Map(workResults.map(result => [result.farmerId, result]));
+
+    for (const job of jobStore.getBlockJobs(blockIndex)) {
+      if (merged.has(job.farmerId)) {
+        continue;
+      }
+      merged.set(job.farmerId, job.result ?? {
+        farmerId: job.farmerId,
+        custodialWallet: job.custodialWallet,
+        status: 'failed',
+        workTime: 0,
+        attempts: 0,
+        error: job.error || 'Work not completed',
+        failureReason: classifyFailure(job.error || 'Work not completed'),
+        compensationRequired: true
+      });
+    }
+
+    return Array.from(merged.values());
   }
 
   /**
    * Notify Backend about work completion
    */
   private async notifyBackendWorkCompletion(notification: WorkCompletionNotification): Promise<void> {
-    try {
-      const response = await fetch(`${Config.BACKEND_API.URL}/pooler/work-completed`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${Config.POOLER.AUTH_TOKEN}`,
-          'X-Pooler-ID': Config.POOLER.ID
-        },
-        body: JSON.stringify(notification),
-        signal: AbortSignal.timeout(Config.BACKEND_API.TIMEOUT_MS)
-      });
+    // A block can be completed more than once (another planting notification, a resumed or failed run), so the
+    // key covers the reported outcomes: only a re-send of the same results is dropped as a duplicate
+    const outcomes = notification.workResults
+      .map(r => `${r.farmerId}:${r.status}:${r.transactionHash ?? ''}`)
+      .sort()
+      .join(',');
+    const outcomeDigest = createHash('sha256').update(outcomes).digest('hex').substring(0, 16);
+
+    // Queued in the outbox - delivery is retried until the Backend acknowledges it
+    const queued = outbox.enqueue({
+      eventType: 'work_completed',
+      idempotencyKey: `work-completed:${notification.poolerId}:${notification.blockIndex}:${outcomeDigest}`,
+      url: `${Config.BACKEND_API.URL}/pooler/work-completed`,
+      payload: notification,
+      headers: { 'X-Pooler-ID': Config.POOLER.ID },
+      authenticated: true
+    });
 
-      if (!response.ok) {
-        throw new Error(`Backend notification failed: ${response.status} ${response.statusText}`);
-      }
+    logger.info('Work completion queued for Backend', {
+      block_index: notification.blockIndex,
+      queued,
+      successful_work: notification.summary.successfulWork,
+      failed_work: notification.summary.failedWork
+    });
+  }
 
-      const result = await response.json() as any;
+  /**
+   * Handle the Backend's acknowledgement of a work completion notification
+   */
+  private handleWorkCompletionDelivered(notification: WorkCompletionNotification, result: any): void {
+    logger.info('Backend notified of work completion', {
+      block_index: notification.blockIndex,
+      successful_work: notification.summary.successfulWork,
+      failed_work: notification.summary.failedWork
+    });
 
-      logger.info('Backend notified of work completion', {
+    // Execute any compensation instructions from Backend; outcomes are reported back separately
+    const instructions = compensationExecutor.parseInstructions(result?.compensationInstructions);
+    if (instructions.length > 0) {
+      logger.info('Received compensation instructions from Backend', {
         block_index: notification.blockIndex,
-        response_status: response.status,
-        successful_work: notification.summary.successfulWork,
-        failed_work: notification.summary.failedWork
+        compensation_count: instructions.length,
+        actions: instructions.map(i => i.action)
       });
 
-      // Process any compensation instructions from Backend
-      if (result && result.compensationInstructions && Array.isArray(result.compensationInstructions) && result.compensationInstructions.length > 0) {
-        logger.info('Received compensation instructions from Backend', {
-          block_index: notification.blockIndex,
-          compensation_count: result.compensationInstructions.length
+      compensationExecutor.execute(notification.blockIndex, instructions).catch(error => {
+        logger.error('Compensation execution failed', error as Error, {
+          block_index: notification.blockIndex
         });
-      }
-
-    } catch (error) {
-      logger.error('Failed to notify Backend of work completion', error as Error, {
-        block_index: notification.blockIndex,
-        backend_url: Config.BACKEND_API.URL
       });
     }
   }
@@ -271,7 +527,9 @@ class PoolCoordinator {
     return {
       pendingWorkBlocks: Array.from(this.pendingWorkBlocks.keys()),
       activeWorkBlocks: Array.from(this.activeWorkPromises.keys()),
-      workManagerStatus: workManager.getWorkStatus()
+      farmPaused: this.farmPaused,
+      workManagerStatus: workManager.getWorkStatus(),
+      jobStore: jobStore.getStats()
     };
   }
 
@@ -0,0 +1,171 @@
+// Pool Event Bus for KALE Pool Mining Pooler
+// Typed in-process stream of pool activity, fanned out to SSE and WebSocket subscribers
+
+import { blockMonitorLogger as logger } from '../../../Shared/utils/logger';
+
+export type PoolEventType =
+  | 'block_discovered'
+  | 'planting_received'
+  | 'work_scheduled'
+  | 'work_started'
+  | 'work_finished'
+  | 'work_submitted'
+  | 'harvest_result'
+  | 'farm_state_changed'
+  | 'error';
+
+export const POOL_EVENT_TYPES: PoolEventType[] = [
+  'block_discovered',
+  'planting_received',
+  'work_scheduled',
+  'work_started',
+  'work_finished',
+  'work_submitted',
+  'harvest_result',
+  'farm_state_changed',
+  'error'
+];
+
+export interface PoolEvent {
+  id: number;
+  type: PoolEventType;
+  timestamp: string;
+  blockIndex?: number;
+  farmerId?: string;
+  farmerIds?: string[]; // Block-wide events list every farmer they concern
+  data: Record<string, unknown>;
+}
+
+export interface PoolEventScope {
+  blockIndex?: number;
+  farmerId?: string;
+  farmerIds?: string[];
+}
+
+export interface PoolEventFilter {
+  types?: PoolEventType[];
+  blockIndex?: number;
+  farmerId?: string;
+}
+
+type PoolEventListener = (event: PoolEvent) => void;
+
+// Kept for resuming SSE streams (Last-Event-ID)
+const RECENT_EVENT_LIMIT = 500;
+
+class PoolEventBus {
+  private nextId = 1;
+  private recent: PoolEvent[] = [];
+  private subscribers = new Map<PoolEventListener, PoolEventFilter>();
+
+  /**
+   * Publish an event to every matching subscriber (never throws)
+   */
+  publish(type: PoolEventType, data: Record<string, unknown>, scope: PoolEventScope = {}): void {
+    const event: PoolEvent = {
+      id: this.nextId++,
+      type,
+      timestamp: new Date().toISOString(),
+      ...scope,
+      data
+    };
+
+    this.recent.push(event);
+    if (this.recent.length > RECENT_EVENT_LIMIT) {
+      this.recent.shift();
+    }
+
+    for (const [listener, filter] of this.subscribers) {
+      if (!this.matches(event, filter)) {
+        continue;
+      }
+      try {
+        listener(event);
+      } catch (error) {
+        logger.warn('Pool event subscriber failed', { event_type: type, error: (error as Error).message });
+      }
+    }
+  }
+
+  /**
+   * Receive matching events until the returned function is called
+   */
+  subscribe(filter: PoolEventFilter, listener: PoolEventListener): () => void {
+    this.subscribers.set(listener, filter);
+    return () => {
+      this.subscribers.delete(listener);
+    };
+  }
+
+  /**
+   * Change the filter of an existing subscription
+   */
+  updateFilter(listener: PoolEventListener, filter: PoolEventFilter): void {
+    if (this.subscribers.has(listener)) {
+      this.subscribers.set(listener, filter);
+    }
+  }
+
+  /**
+   * Buffered events after an id that match the filter
+   */
+  since(lastEventId: number, filter: PoolEventFilter): PoolEvent[] {
+    return this.recent.filter(event => event.id > lastEventId && this.matches(event, filter));
+  }
+
+  /**
+   * Build a filter from `types`, `block_index` and `farmer_id` query parameters
+   */
+  parseFilter(query: { types?: unknown; block_index?: unknown; farmer_id?: unknown }): PoolEventFilter | { error: string } {
+    const filter: PoolEventFilter = {};
+
+    if (query.types !== undefined && query.types !== '') {
+      const types = String(query.types).split(',').map(type => type.trim());
+      const unknown = types.filter(type => !POOL_EVENT_TYPES.includes(type as PoolEventType));
+      if (unknown.length > 0) {
+        return { error: `Unknown event types: ${unknown.join(', ')}` };
+      }
+      filter.types = types as PoolEventType[];
+    }
+
+    if (query.block_index !== undefined && query.block_index !== '') {
+      const blockIndex = Number(query.block_index);
+      if (!Number.isInteger(blockIndex) || blockIndex < 0) {
+        return { error: 'block_index must be a block index' };
+      }
+      filter.blockIndex = blockIndex;
+    }
+
+    if (query.farmer_id !== undefined && query.farmer_id !== '') {
+      filter.farmerId = String(query.farmer_id);
+    }
+
+    return filter;
+  }
+
+  getStats() {
+    return {
+      subscribers: this.subscribers.size,
+      lastEventId: this.nextId - 1,
+      bufferedEvents: this.recent.length
+    };
+  }
+
+  private matches(event: PoolEvent, filter: PoolEventFilter): boolean {
+    if (filter.types && !filter.types.includes(event.type)) {
+      return false;
+    }
+    if (filter.blockIndex !== undefined && event.blockIndex !== filter.blockIndex) {
+      return false;
+    }
+    if (filter.farmerId !== undefined
+      && event.farmerId !== filter.farmerId
+      && !event.farmerIds?.includes(filter.farmerId)) {
+      return false;
+    }
+    return true;
+  }
+}
+
+// Export singleton instance
+export const poolEvents = new PoolEventBus();
@@ -0,0 +1,165 @@
+// Request Authentication for KALE Pool Mining Pooler
+// HMAC-SHA256 signing of Backend ⇄ Pooler requests with timestamp and nonce replay protection
+
+import { Database } from 'bun:sqlite';
+import { mkdirSync } from 'fs';
+import { dirname } from 'path';
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import type { IncomingHttpHeaders } from 'http';
+import Config from '../../../Shared/config';
+import { blockMonitorLogger as logger } from '../../../Shared/utils/logger';
+
+export const AUTH_HEADERS = {
+  KEY_ID: 'x-kale-key-id',
+  TIMESTAMP: 'x-kale-timestamp', // Unix milliseconds
+  NONCE: 'x-kale-nonce',
+  SIGNATURE: 'x-kale-signature' // Hex HMAC-SHA256 of the canonical request
+} as const;
+
+export interface SignableRequest {
+  method: string;
+  path: string; // Path and query string, as sent
+  body: string; // Raw body ('' when there is none)
+}
+
+export type AuthResult =
+  | { ok: true; keyId: string }
+  | { ok: false; status: 401 | 403; error: string };
+
+const NONCE_PATTERN = /^[A-Za-z0-9_-]{16,128}$/;
+
+class RequestAuth {
+  private db: Database;
+  private keys = new Map(Config.POOLER.HMAC_KEYS.map(key => [key.id, key.secret]));
+
+  private readonly SIGNING_KEY = Config.POOLER.HMAC_KEYS[0]!;
+  private readonly MAX_SKEW_MS = Config.POOLER.HMAC_MAX_SKEW_MS;
+
+  constructor(path: string) {
+    if (path !== ':memory:') {
+      mkdirSync(dirname(path), { recursive: true });
+    }
+
+    this.db = new Database(path, { create: true });
+    this.db.exec('PRAGMA journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS auth_nonces (
+        nonce TEXT PRIMARY KEY,
+        key_id TEXT NOT NULL,
+        expires_at INTEGER NOT NULL
+      );
+    `);
+
+    logger.info('RequestAuth initialized', {
+      signing_key_id: this.SIGNING_KEY.id,
+      accepted_key_ids: Array.from(this.keys.keys()),
+      max_skew_ms: this.MAX_SKEW_MS
+    });
+  }
+
+  /**
+   * Signature headers for an outgoing request (signed with the first configured key)
+   */
+  sign(request: SignableRequest): Record<string, string> {
+    const timestamp = Date.now().toString();
+    const nonce = randomBytes(16).toString('hex');
+
+    return {
+      [AUTH_HEADERS.KEY_ID]: this.SIGNING_KEY.id,
+      [AUTH_HEADERS.TIMESTAMP]: timestamp,
+      [AUTH_HEADERS.NONCE]: nonce,
+      [AUTH_HEADERS.SIGNATURE]: this.computeSignature(this.SIGNING_KEY.secret, request, timestamp, nonce)
+    };
+  }
+
+  /**
+   * Check an incoming request's signature, timestamp window and nonce (each nonce is accepted once)
+   */
+  verify(request: SignableRequest, headers: IncomingHttpHeaders): AuthResult {
+    const keyId = this.header(headers, AUTH_HEADERS.KEY_ID);
+    const timestamp = this.header(headers, AUTH_HEADERS.TIMESTAMP);
+    const nonce = this.header(headers, AUTH_HEADERS.NONCE);
+    const signature = this.header(headers, AUTH_HEADERS.SIGNATURE);
+
+    if (!keyId || !timestamp || !nonce || !signature) {
+      return { ok: false, status: 401, error: 'Signed request headers required' };
+    }
+
+    const secret = this.keys.get(keyId);
+    if (!secret) {
+      return { ok: false, status: 401, error: 'Unknown signing key' };
+    }
+
+    const timestampMs = Number(timestamp);
+    if (!Number.isSafeInteger(timestampMs) || Math.abs(Date.now() - timestampMs) > this.MAX_SKEW_MS) {
+      return { ok: false, status: 401, error: 'Request timestamp outside the allowed window' };
+    }
+
+    if (!NONCE_PATTERN.test(nonce)) {
+      return { ok: false, status: 401, error: 'Invalid request nonce' };
+    }
+
+    const expected = this.computeSignature(secret, request, timestamp, nonce);
+    if (!this.safeEqual(expected, signature.toLowerCase())) {
+      return { ok: false, status: 403, error: 'Invalid request signature' };
+    }
+
+    // Only remembered once the signature checks out, so unsigned traffic can't fill the table
+    if (!this.claimNonce(nonce, keyId, timestampMs)) {
+      return { ok: false, status: 403, error: 'Replayed request' };
+    }
+
+    return { ok: true, keyId };
+  }
+
+  /**
+   * Constant-time check of a static Bearer token (operator routes)
+   */
+  verifyBearer(authorization: string | undefined): AuthResult {
+    if (!authorization || !authorization.startsWith('Bearer ')) {
+      return { ok: false, status: 401, error: 'Authorization header required' };
+    }
+
+    // Compare digests so the comparison doesn't leak the token's length either
+    const digest = (value: string) => createHash('sha256').update(value).digest();
+    if (!timingSafeEqual(digest(authorization.slice('Bearer '.length)), digest(Config.POOLER.AUTH_TOKEN))) {
+      return { ok: false, status: 403, error: 'Invalid authorization token' };
+    }
+
+    return { ok: true, keyId: 'bearer' };
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private computeSignature(secret: string, request: SignableRequest, timestamp: string, nonce: string): string {
+    const canonical = [timestamp, nonce, request.method.toUpperCase(), request.path, request.body].join('\n');
+    return createHmac('sha256', secret).update(canonical).digest('hex');
+  }
+
+  private claimNonce(nonce: string, keyId: string, timestampMs: number): boolean {
+    const now = Date.now();
+    this.db.prepare(`DELETE FROM auth_nonces WHERE expires_at < ?`).run(now);
+
+    const result = this.db.prepare(`
+      INSERT OR IGNORE INTO auth_nonces (nonce, key_id, expires_at) VALUES (?, ?, ?)
+    `).run(nonce, keyId, timestampMs + this.MAX_SKEW_MS);
+
+    return result.changes === 1;
+  }
+
+  private safeEqual(expected: string, actual: string): boolean {
+    const expectedBuffer = Buffer.from(expected);
+    const actualBuffer = Buffer.from(actual);
+    return expectedBuffer.length === actualBuffer.length && timingSafeEqual(expectedBuffer, actualBuffer);
+  }
+
+  private header(headers: IncomingHttpHeaders, name: string): string | undefined {
+    const value = headers[name];
+    return Array.isArray(value) ? value[0] : value;
+  }
+}
+
+// Export singleton instance (shares the job store's SQLite file)
+export const requestAuth = new RequestAuth(Config.JOB_STORE.PATH);
@@ -0,0 +1,274 @@
+// RPC Gateway for KALE Pool Mining Pooler
+// Shared Stellar RPC access across several endpoints with health scoring and failover
+
+import { Server } from '@stellar/stellar-sdk/rpc';
+import Config from '../../../Shared/config';
+import { blockMonitorLogger as logger } from '../../../Shared/utils/logger';
+
+export interface RpcEndpoint {
+  url: string;
+  server: Server;
+}
+
+export interface RpcEndpointHealth {
+  url: string;
+  healthy: boolean;
+  latencyMs: number | null;
+  errorRate: number;
+  latestLedger: number | null;
+  ledgerLag: number | null;
+  consecutiveFailures: number;
+  coolingDownUntil?: string;
+  lastError?: string;
+  lastCheckedAt?: string;
+}
+
+interface EndpointState extends RpcEndpoint {
+  latencyMs: number | null; // EWMA of successful call latency
+  outcomes: boolean[]; // Recent call outcomes (true = success), newest last
+  latestLedger: number | null;
+  consecutiveFailures: number;
+  coolingDownUntil: number;
+  lastError?: string;
+  lastCheckedAt?: Date;
+}
+
+// Errors that say something about the endpoint rather than the request
+const ENDPOINT_ERROR_PATTERNS = [
+  'timeout',
+  'timed out',
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ENOTFOUND',
+  'ETIMEDOUT',
+  'EAI_AGAIN',
+  'socket hang up',
+  'fetch failed',
+  'network error',
+  'status code 429',
+  'status code 5'
+];
+
+const OUTCOME_WINDOW = 20;
+const LATENCY_SMOOTHING = 0.3;
+const FAILURES_BEFORE_COOLDOWN = 3;
+
+class RpcGateway {
+  private endpoints: EndpointState[];
+  private healthTimer: NodeJS.Timeout | null = null;
+
+  private readonly MAX_LEDGER_LAG = Config.RPC_GATEWAY.MAX_LEDGER_LAG;
+  private readonly FAILURE_COOLDOWN_MS = Config.RPC_GATEWAY.FAILURE_COOLDOWN_MS;
+
+  constructor(urls: string[]) {
+    this.endpoints = urls.map(url => ({
+      url,
+      server: new Server(url, { allowHttp: url.startsWith('http://') }),
+      latencyMs: null,
+      outcomes: [],
+      latestLedger: null,
+      consecutiveFailures: 0,
+      coolingDownUntil: 0
+    }));
+
+    logger.info('RpcGateway initialized', {
+      endpoints: urls,
+      max_ledger_lag: this.MAX_LEDGER_LAG
+    });
+  }
+
+  /**
+   * Run an RPC operation on the healthiest endpoint, failing over to the next on endpoint errors.
+   * Errors about the request itself (e.g. missing contract data) are thrown straight away.
+   */
+  async call<T>(operation: string, fn: (endpoint: RpcEndpoint) => Promise<T>): Promise<T> {
+    const candidates = this.rankEndpoints();
+    let lastError: unknown;
+
+    for (const endpoint of candidates) {
+      const startedAt = Date.now();
+      try {
+        const result = await fn(endpoint);
+        this.recordSuccess(endpoint, Date.now() - startedAt);
+        return result;
+      } catch (error) {
+        if (!this.isEndpointError(error)) {
+          throw error;
+        }
+
+        lastError = error;
+        this.recordFailure(endpoint, error);
+        logger.warn('RPC call failed - failing over', {
+          operation,
+          endpoint: endpoint.url,
+          error: (error as Error).message
+        });
+      }
+    }
+
+    throw lastError ?? new Error(`No RPC endpoint available for ${operation}`);
+  }
+
+  /**
+   * URL of the endpoint calls would currently go to
+   */
+  getPrimaryUrl(): string {
+    return this.rankEndpoints()[0]!.url;
+  }
+
+  /**
+   * Start periodic latest-ledger probes of every endpoint
+   */
+  start(): void {
+    if (this.healthTimer) {
+      return;
+    }
+    this.healthTimer = setInterval(() => void this.refreshHealth(), Config.RPC_GATEWAY.HEALTH_CHECK_INTERVAL_MS);
+    void this.refreshHealth();
+  }
+
+  stop(): void {
+    if (this.healthTimer) {
+      clearInterval(this.healthTimer);
+      this.healthTimer = null;
+    }
+  }
+
+  /**
+   * Probe every endpoint's latest ledger (also measures latency and availability)
+   */
+  async refreshHealth(): Promise<void> {
+    await Promise.all(this.endpoints.map(async endpoint => {
+      const startedAt = Date.now();
+      try {
+        const latest = await endpoint.server.getLatestLedger();
+        endpoint.latestLedger = latest.sequence;
+        this.recordSuccess(endpoint, Date.now() - startedAt);
+      } catch (error) {
+        this.recordFailure(endpoint, error);
+      } finally {
+        endpoint.lastCheckedAt = new Date();
+      }
+    }));
+  }
+
+  /**
+   * Health of every endpoint, best first (for /health)
+   */
+  getHealth(): RpcEndpointHealth[] {
+    const bestLedger = this.getBestLedger();
+
+    return this.rankEndpoints().map(endpoint => ({
+      url: endpoint.url,
+      healthy: this.isHealthy(endpoint, bestLedger),
+      latencyMs: endpoint.latencyMs === null ? null : Math.round(endpoint.latencyMs),
+      errorRate: this.getErrorRate(endpoint),
+      latestLedger: endpoint.latestLedger,
+      ledgerLag: this.getLedgerLag(endpoint, bestLedger),
+      consecutiveFailures: endpoint.consecutiveFailures,
+      coolingDownUntil: endpoint.coolingDownUntil > Date.now() ? new Date(endpoint.coolingDownUntil).toISOString() : undefined,
+      lastError: endpoint.lastError,
+      lastCheckedAt: endpoint.lastCheckedAt?.toISOString()
+    }));
+  }
+
+  /**
+   * Whether at least one endpoint is usable
+   */
+  isAvailable(): boolean {
+    const bestLedger = this.getBestLedger();
+    return this.endpoints.some(endpoint => this.isHealthy(endpoint, bestLedger));
+  }
+
+  /**
+   * Healthy endpoints by score, then the unhealthy ones as a last resort
+   */
+  private rankEndpoints(): EndpointState[] {
+    const bestLedger = this.getBestLedger();
+
+    return [...this.endpoints].sort((a, b) => {
+      const healthyA = this.isHealthy(a, bestLedger);
+      const healthyB = this.isHealthy(b, bestLedger);
+      if (healthyA !== healthyB) {
+        return healthyA ? -1 : 1;
+      }
+      return this.score(a, bestLedger) - this.score(b, bestLedger);
+    });
+  }
+
+  /**
+   * Lower is better: latency, plus penalties for errors and ledger lag
+   */
+  private score(endpoint: EndpointState, bestLedger: number | null): number {
+    const latency = endpoint.latencyMs ?? 1000;
+    const errorPenalty = this.getErrorRate(endpoint) * 5000;
+    const lagPenalty = (this.getLedgerLag(endpoint, bestLedger) ?? 0) * 1000;
+    return latency + errorPenalty + lagPenalty;
+  }
+
+  private isHealthy(endpoint: EndpointState, bestLedger: number | null): boolean {
+    if (endpoint.coolingDownUntil > Date.now()) {
+      return false;
+    }
+    const lag = this.getLedgerLag(endpoint, bestLedger);
+    return lag === null || lag <= this.MAX_LEDGER_LAG;
+  }
+
+  private recordSuccess(endpoint: EndpointState, latencyMs: number): void {
+    endpoint.latencyMs = endpoint.latencyMs === null
+      ? latencyMs
+      : endpoint.latencyMs * (1 - LATENCY_SMOOTHING) + latencyMs * LATENCY_SMOOTHING;
+    endpoint.consecutiveFailures = 0;
+    endpoint.coolingDownUntil = 0;
+    this.pushOutcome(endpoint, true);
+  }
+
+  private recordFailure(endpoint: EndpointState, error: unknown): void {
+    endpoint.consecutiveFailures++;
+    endpoint.lastError = (error as Error)?.message ?? String(error);
+    this.pushOutcome(endpoint, false);
+
+    if (endpoint.consecutiveFailures >= FAILURES_BEFORE_COOLDOWN) {
+      endpoint.coolingDownUntil = Date.now() + this.FAILURE_COOLDOWN_MS;
+      logger.warn('RPC endpoint cooling down after repeated failures', {
+        endpoint: endpoint.url,
+        consecutive_failures: endpoint.consecutiveFailures,
+        cooldown_ms: this.FAILURE_COOLDOWN_MS
+      });
+    }
+  }
+
+  private pushOutcome(endpoint: EndpointState, success: boolean): void {
+    endpoint.outcomes.push(success);
+    if (endpoint.outcomes.length > OUTCOME_WINDOW) {
+      endpoint.outcomes.shift();
+    }
+  }
+
+  private getErrorRate(endpoint: EndpointState): number {
+    if (endpoint.outcomes.length === 0) {
+      return 0;
+    }
+    return endpoint.outcomes.filter(success => !success).length / endpoint.outcomes.length;
+  }
+
+  private getBestLedger(): number | null {
+    const ledgers = this.endpoints.map(e => e.latestLedger).filter((l): l is number => l !== null);
+    return ledgers.length > 0 ? Math.max(...ledgers) : null;
+  }
+
+  private getLedgerLag(endpoint: EndpointState, bestLedger: number | null): number | null {
+    if (bestLedger === null || endpoint.latestLedger === null) {
+      return null;
+    }
+    return bestLedger - endpoint.latestLedger;
+  }
+
+  private isEndpointError(error: unknown): boolean {
+    const message = ((error as Error)?.message ?? String(error)).toLowerCase();
+    return ENDPOINT_ERROR_PATTERNS.some(pattern => message.includes(pattern.toLowerCase()));
+  }
+}
+
+// Export singleton instance
+export const rpcGateway = new RpcGateway(Config.STELLAR.RPC_URLS);
@@ -0,0 +1,100 @@
+// RPC Submitter for KALE Pool Mining Pooler
+// Direct Soroban RPC submission (sendTransaction) - the fallback when Launchtube is unavailable
+
+import { FeeBumpTransaction, Transaction, TransactionBuilder } from '@stellar/stellar-sdk';
+import { rpcGateway } from './rpc-gateway';
+import Config from '../../../Shared/config';
+import { blockMonitorLogger as logger } from '../../../Shared/utils/logger';
+import type { Signer } from './key-custody';
+import type { FeeQuote } from './fee-manager';
+
+export interface RpcSubmissionResult {
+  transactionHash: string;
+  submittedVia: 'rpc';
+  signed: Transaction; // Signed envelope as sent (what a fee bump wraps)
+}
+
+export class RpcSubmitter {
+  private readonly CONFIRM_TIMEOUT_MS = Config.SUBMISSION.CONFIRM_TIMEOUT_MS;
+
+  /**
+   * Re-source a simulated, priced contract call to the signer's account, sign it and send it (confirmation is the
+   * TransactionTracker's job). Auth entries already signed on the simulated transaction are carried over unchanged.
+   */
+  async submit(simulated: Transaction, source: Signer): Promise<RpcSubmissionResult> {
+    const transaction = await this.rebuildForSource(simulated, source);
+    const { signedTxXdr } = await source.signTransaction(transaction.toXDR(), Config.STELLAR.NETWORK_PASSPHRASE);
+    const signed = TransactionBuilder.fromXDR(signedTxXdr, Config.STELLAR.NETWORK_PASSPHRASE) as Transaction;
+
+    // Re-sending the same signed envelope on failover is harmless (DUPLICATE)
+    const transactionHash = await this.send(signed);
+
+    logger.info('Transaction sent via RPC', {
+      transaction_hash: transactionHash,
+      source: source.publicKey,
+      fee: signed.fee
+    });
+
+    return { transactionHash, submittedVia: 'rpc', signed };
+  }
+
+  /**
+   * Wrap a sent transaction in a fee bump paid by feeSource at the bump quote's inclusion bid, and send it.
+   * Whichever of the two envelopes lands first applies the inner transaction; the other can then never apply.
+   */
+  async feeBump(inner: Transaction, feeSource: Signer, bump: FeeQuote): Promise<string> {
+    const feeBump = TransactionBuilder.buildFeeBumpTransaction(
+      feeSource.publicKey,
+      (bump.resourceFee + bump.inclusionFee).toString(),
+      inner,
+      Config.STELLAR.NETWORK_PASSPHRASE
+    );
+    const { signedTxXdr } = await feeSource.signTransaction(feeBump.toXDR(), Config.STELLAR.NETWORK_PASSPHRASE);
+    const transactionHash = await this.send(TransactionBuilder.fromXDR(signedTxXdr, Config.STELLAR.NETWORK_PASSPHRASE));
+
+    logger.info('Fee bump sent via RPC', {
+      transaction_hash: transactionHash,
+      inner_transaction_hash: inner.hash().toString('hex'),
+      fee_source: feeSource.publicKey,
+      fee: feeBump.fee
+    });
+
+    return transactionHash;
+  }
+
+  private async send(transaction: Transaction | FeeBumpTransaction): Promise<string> {
+    const sent = await rpcGateway.call('send_transaction', ({ server }) => server.sendTransaction(transaction));
+
+    if (sent.status === 'ERROR') {
+      throw new Error(`RPC sendTransaction rejected: ${sent.errorResult?.result().switch().name ?? 'unknown error'}`);
+    }
+    if (sent.status === 'TRY_AGAIN_LATER') {
+      throw new Error('RPC sendTransaction: TRY_AGAIN_LATER (network error - retry)');
+    }
+    return sent.hash;
+  }
+
+  private async rebuildForSource(simulated: Transaction, source: Signer): Promise<Transaction> {
+    const body = simulated.toEnvelope().v1().tx();
+    const operation = body.operations()[0];
+    if (!operation || body.operations().length !== 1) {
+      throw new Error('RPC submission expects a single contract call operation');
+    }
+
+    const account = await rpcGateway.call('get_account', ({ server }) => server.getAccount(source.publicKey));
+
+    // The priced fee already includes the resource fee, and the builder doesn't add it again
+    return new TransactionBuilder(account, {
+      fee: simulated.fee,
+      networkPassphrase: Config.STELLAR.NETWORK_PASSPHRASE
+    })
+      .setSorobanData(body.ext().sorobanData())
+      .addOperation(operation)
+      // Valid only while the tracker polls for it, so a transaction given up on can't land later (retries are then safe)
+      .setTimeout(Math.ceil(this.CONFIRM_TIMEOUT_MS / 1000))
+      .build();
+  }
+}
+
+// Export singleton instance
+export const rpcSubmitter = new RpcSubmitter();
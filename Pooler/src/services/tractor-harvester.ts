@@ -0,0 +1,128 @@
+// Tractor Harvester for KALE Pool Mining Pooler
+// Harvests a farmer's pails in batched kale-tractor transactions with per-pail rewards
+
+import type { WorkSubmissionService, HarvestSubmissionResult } from './work-submission-service';
+import type { FailureReason } from '../../../Shared/types/blockchain';
+import { POOL_LIMITS } from '../../../Shared/utils/constants';
+import { blockMonitorLogger as logger } from '../../../Shared/utils/logger';
+
+// kale-tractor contract errors
+export enum TractorContractError {
+  NoPailsProvided = 1,
+  NoHarvestablePails = 2
+}
+
+// Classified failures that mean the batch was too big for one transaction
+const OVERSIZED_BATCH_FAILURES = [
+  'Budget.ExceededLimit',
+  'invokeHostFunctionResourceLimitExceeded'
+];
+
+export class TractorHarvester {
+  private readonly BATCH_SIZE = POOL_LIMITS.MAX_HARVEST_BATCH_SIZE;
+
+  constructor(private readonly submissionService: WorkSubmissionService) {}
+
+  /**
+   * Harvest a farmer's pails in batches; returns one result per pail (rewards hold that pail's i128)
+   */
+  async harvest(farmerPublicKey: string, pails: number[]): Promise<Map<number, HarvestSubmissionResult>> {
+    const results = new Map<number, HarvestSubmissionResult>();
+    const uniquePails = [...new Set(pails)].sort((a, b) => a - b);
+
+    for (let start = 0; start < uniquePails.length; start += this.BATCH_SIZE) {
+      await this.harvestBatch(farmerPublicKey, uniquePails.slice(start, start + this.BATCH_SIZE), results);
+    }
+    return results;
+  }
+
+  /**
+   * One tractor transaction; oversized batches are split in half and retried
+   */
+  private async harvestBatch(
+    farmerPublicKey: string,
+    pails: number[],
+    results: Map<number, HarvestSubmissionResult>
+  ): Promise<void> {
+    if (pails.length === 0) {
+      return;
+    }
+
+    const result = await this.submissionService.submitTractorHarvest(farmerPublicKey, pails);
+
+    if (result.success) {
+      const rewards = result.rewards ?? [];
+      const unresolved: number[] = [];
+
+      pails.forEach((pail, index) => {
+        const reward = rewards[index] ?? 0n;
+        if (reward > 0n) {
+          results.set(pail, { success: true, transactionHash: result.transactionHash, rewards: [reward] });
+        } else {
+          // Zero from the tractor can mean "not ready yet" as well as "nothing earned"
+          unresolved.push(pail);
+        }
+      });
+
+      await this.harvestIndividually(farmerPublicKey, unresolved, results);
+      return;
+    }
+
+    switch (result.errorCode) {
+      case TractorContractError.NoPailsProvided:
+        return;
+
+      case TractorContractError.NoHarvestablePails:
+        // Nothing paid out - find out per pail whether it is early, missing or simply worthless
+        await this.harvestIndividually(farmerPublicKey, pails, results);
+        return;
+    }
+
+    // Refused by the fee caps - smaller batches or single pails would only be refused again
+    if (result.failureReason?.code === 'FEE_CAP_EXCEEDED') {
+      for (const pail of pails) {
+        results.set(pail, result);
+      }
+      return;
+    }
+
+    if (this.isOversizedBatch(result.failureReason) && pails.length > 1) {
+      const middle = Math.ceil(pails.length / 2);
+      logger.warn('Tractor harvest batch too large - splitting', {
+        farmer: farmerPublicKey,
+        batch_size: pails.length,
+        split_into: [middle, pails.length - middle]
+      });
+
+      await this.harvestBatch(farmerPublicKey, pails.slice(0, middle), results);
+      await this.harvestBatch(farmerPublicKey, pails.slice(middle), results);
+      return;
+    }
+
+    if (pails.length === 1) {
+      await this.harvestIndividually(farmerPublicKey, pails, results);
+      return;
+    }
+
+    for (const pail of pails) {
+      results.set(pail, result);
+    }
+  }
+
+  /**
+   * Fall back to the KALE contract's single-pail harvest
+   */
+  private async harvestIndividually(
+    farmerPublicKey: string,
+    pails: number[],
+    results: Map<number, HarvestSubmissionResult>
+  ): Promise<void> {
+    for (const pail of pails) {
+      results.set(pail, await this.submissionService.submitHarvest(farmerPublicKey, pail));
+    }
+  }
+
+  private isOversizedBatch(failureReason?: FailureReason): boolean {
+    return failureReason !== undefined && OVERSIZED_BATCH_FAILURES.includes(failureReason.code);
+  }
+}
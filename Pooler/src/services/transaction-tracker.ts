@@ -0,0 +1,354 @@
+// Transaction Tracker for KALE Pool Mining Pooler
+// Records every submitted transaction and polls RPC until it is confirmed in a ledger, failed, or not found by its deadline
+
+import { Database } from 'bun:sqlite';
+import { mkdirSync } from 'fs';
+import { dirname } from 'path';
+import { scValToNative, xdr } from '@stellar/stellar-sdk';
+import { Api } from '@stellar/stellar-sdk/rpc';
+import { rpcGateway } from './rpc-gateway';
+import { describeDiagnosticError } from './contract-errors';
+import Config from '../../../Shared/config';
+import { blockMonitorLogger as logger } from '../../../Shared/utils/logger';
+
+export type TransactionStatus = 'PENDING' | 'SUCCESS' | 'FAILED' | 'NOT_FOUND';
+
+export interface TrackedTransactionInput {
+  hash: string;
+  operation: string; // work, plant, harvest, tractor_harvest
+  submittedVia: 'launchtube' | 'rpc';
+  farmer?: string;
+  blockIndex?: number;
+}
+
+export interface TrackedTransaction extends TrackedTransactionInput {
+  status: TransactionStatus;
+  ledger?: number; // Ledger the transaction was applied in (SUCCESS / FAILED)
+  result?: unknown; // Decoded contract return value (SUCCESS)
+  error?: string; // Transaction result code, plus the contract or host error raised (FAILED / NOT_FOUND)
+  feeCharged?: number; // Stroops (SUCCESS / FAILED)
+  polls: number;
+  submittedAt: string;
+  updatedAt: string;
+}
+
+// A replacement envelope (fee bump) sent once, if the transaction is still pending at `at` (unix ms)
+export interface TransactionEscalation {
+  at: number;
+  replace: () => Promise<string | undefined>; // Hash of the replacement, undefined when none was sent
+}
+
+/**
+ * A submitted transaction that did not succeed (failed on-chain, or not found by its deadline)
+ */
+export class TransactionNotConfirmedError extends Error {
+  constructor(readonly transaction: TrackedTransaction) {
+    super(`Transaction ${transaction.hash} ${transaction.status}: ${transaction.error ?? 'no result'}`);
+    this.name = 'TransactionNotConfirmedError';
+  }
+}
+
+const TRANSACTION_STATUSES: TransactionStatus[] = ['PENDING', 'SUCCESS', 'FAILED', 'NOT_FOUND'];
+
+class TransactionTracker {
+  private db: Database;
+
+  private readonly CONFIRM_TIMEOUT_MS = Config.SUBMISSION.CONFIRM_TIMEOUT_MS;
+  private readonly POLL_INTERVAL_MS = Config.SUBMISSION.CONFIRM_POLL_MS;
+
+  constructor(path: string) {
+    if (path !== ':memory:') {
+      mkdirSync(dirname(path), { recursive: true });
+    }
+
+    this.db = new Database(path, { create: true });
+    this.db.exec('PRAGMA journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS tracked_transactions (
+        hash TEXT PRIMARY KEY,
+        operation TEXT NOT NULL,
+        submitted_via TEXT NOT NULL,
+        farmer TEXT,
+        block_index INTEGER,
+        status TEXT NOT NULL DEFAULT 'PENDING',
+        ledger INTEGER,
+        result TEXT,
+        error TEXT,
+        fee_charged INTEGER,
+        polls INTEGER NOT NULL DEFAULT 0,
+        submitted_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_tracked_transactions_status ON tracked_transactions (status, submitted_at);
+    `);
+
+    // Stores created before fees were recorded
+    const columns = this.db.prepare(`PRAGMA table_info(tracked_transactions)`).all() as Array<{ name: string }>;
+    if (!columns.some(column => column.name === 'fee_charged')) {
+      this.db.exec(`ALTER TABLE tracked_transactions ADD COLUMN fee_charged INTEGER`);
+    }
+
+    logger.info('TransactionTracker initialized', {
+      path,
+      confirm_timeout_ms: this.CONFIRM_TIMEOUT_MS,
+      poll_interval_ms: this.POLL_INTERVAL_MS
+    });
+  }
+
+  /**
+   * Record a submitted transaction and poll until it reaches a final status or the deadline (unix ms) passes.
+   * With an escalation, a replacement still pending at its time is sent and tracked alongside - the first of the
+   * two to become final is returned, and the other is marked NOT_FOUND.
+   */
+  async trackUntilFinal(
+    input: TrackedTransactionInput,
+    deadline: number = Date.now() + this.CONFIRM_TIMEOUT_MS,
+    escalation?: TransactionEscalation
+  ): Promise<TrackedTransaction> {
+    this.record(input);
+    const hashes = [input.hash];
+
+    while (true) {
+      for (const hash of hashes) {
+        const tracked = await this.poll(hash);
+        if (tracked.status !== 'PENDING') {
+          for (const other of hashes.filter(other => other !== hash)) {
+            this.update(other, { status: 'NOT_FOUND', error: `Superseded by ${hash}` });
+          }
+          return tracked;
+        }
+      }
+
+      if (escalation && Date.now() >= escalation.at) {
+        const replacement = await this.escalate(input, escalation);
+        if (replacement) {
+          hashes.push(replacement);
+        }
+        escalation = undefined;
+      }
+
+      if (Date.now() + this.POLL_INTERVAL_MS > deadline) {
+        const [original] = hashes.map(hash => this.update(hash, {
+          status: 'NOT_FOUND',
+          error: `Not confirmed within ${this.CONFIRM_TIMEOUT_MS}ms (timeout)`
+        }));
+        return original!;
+      }
+      await new Promise(resolve => setTimeout(resolve, this.POLL_INTERVAL_MS));
+    }
+  }
+
+  /**
+   * One getTransaction round for a tracked hash (RPC NOT_FOUND keeps it PENDING until the deadline)
+   */
+  async poll(hash: string): Promise<TrackedTransaction> {
+    this.db.prepare(`UPDATE tracked_transactions SET polls = polls + 1 WHERE hash = ?`).run(hash);
+
+    let response: Api.GetTransactionResponse;
+    try {
+      response = await rpcGateway.call('get_transaction', ({ server }) => server.getTransaction(hash));
+    } catch (error) {
+      logger.warn('Transaction status poll failed', {
+        transaction_hash: hash,
+        error: (error as Error).message
+      });
+      return this.get(hash)!;
+    }
+
+    if (response.status === Api.GetTransactionStatus.SUCCESS) {
+      const tracked = this.update(hash, {
+        status: 'SUCCESS',
+        ledger: response.ledger,
+        result: response.returnValue ? this.decodeReturnValue(response.returnValue) : undefined,
+        feeCharged: Number(response.resultXdr.feeCharged().toString())
+      });
+      logger.info('Transaction confirmed', {
+        transaction_hash: hash,
+        operation: tracked.operation,
+        ledger: response.ledger
+      });
+      return tracked;
+    }
+
+    if (response.status === Api.GetTransactionStatus.FAILED) {
+      const tracked = this.update(hash, {
+        status: 'FAILED',
+        ledger: response.ledger,
+        error: this.decodeFailure(response),
+        feeCharged: Number(response.resultXdr.feeCharged().toString())
+      });
+      logger.warn('Transaction failed on-chain', {
+        transaction_hash: hash,
+        operation: tracked.operation,
+        ledger: response.ledger,
+        error: tracked.error
+      });
+      return tracked;
+    }
+
+    return this.get(hash)!;
+  }
+
+  get(hash: string): TrackedTransaction | undefined {
+    const row = this.db.prepare(`SELECT * FROM tracked_transactions WHERE hash = ?`).get(hash);
+    return row ? this.toTransaction(row) : undefined;
+  }
+
+  /**
+   * Most recent tracked transactions, optionally by status
+   */
+  list(status?: TransactionStatus, limit = 50): TrackedTransaction[] {
+    const rows = status
+      ? this.db.prepare(`SELECT * FROM tracked_transactions WHERE status = ? ORDER BY submitted_at DESC LIMIT ?`).all(status, limit)
+      : this.db.prepare(`SELECT * FROM tracked_transactions ORDER BY submitted_at DESC LIMIT ?`).all(limit);
+
+    return (rows as any[]).map(row => this.toTransaction(row));
+  }
+
+  isStatus(value: string): value is TransactionStatus {
+    return TRANSACTION_STATUSES.includes(value as TransactionStatus);
+  }
+
+  getStats() {
+    const rows = this.db.prepare(`
+      SELECT status, COUNT(*) AS count FROM tracked_transactions GROUP BY status
+    `).all() as Array<{ status: string; count: number }>;
+
+    return {
+      PENDING: 0,
+      SUCCESS: 0,
+      FAILED: 0,
+      NOT_FOUND: 0,
+      ...Object.fromEntries(rows.map(row => [row.status, row.count]))
+    };
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private async escalate(input: TrackedTransactionInput, escalation: TransactionEscalation): Promise<string | undefined> {
+    try {
+      const replacement = await escalation.replace();
+      if (replacement) {
+        this.record({ ...input, hash: replacement });
+        logger.info('Pending transaction replaced', {
+          transaction_hash: input.hash,
+          replacement_hash: replacement,
+          operation: input.operation
+        });
+      }
+      return replacement;
+    } catch (error) {
+      logger.warn('Pending transaction could not be replaced - still tracking the original', {
+        transaction_hash: input.hash,
+        operation: input.operation,
+        error: (error as Error).message
+      });
+      return undefined;
+    }
+  }
+
+  private record(input: TrackedTransactionInput): void {
+    const now = new Date().toISOString();
+    // A re-sent envelope has the same hash - keep the original record
+    this.db.prepare(`
+      INSERT OR IGNORE INTO tracked_transactions
+        (hash, operation, submitted_via, farmer, block_index, status, submitted_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, 'PENDING', ?, ?)
+    `).run(input.hash, input.operation, input.submittedVia, input.farmer ?? null, input.blockIndex ?? null, now, now);
+  }
+
+  private update(hash: string, fields: Pick<TrackedTransaction, 'status'> & Partial<Pick<TrackedTransaction, 'ledger' | 'result' | 'error' | 'feeCharged'>>): TrackedTransaction {
+    this.db.prepare(`
+      UPDATE tracked_transactions SET status = ?, ledger = ?, result = ?, error = ?, fee_charged = ?, updated_at = ? WHERE hash = ?
+    `).run(
+      fields.status,
+      fields.ledger ?? null,
+      fields.result !== undefined ? JSON.stringify(fields.result) : null,
+      fields.error ?? null,
+      fields.feeCharged ?? null,
+      new Date().toISOString(),
+      hash
+    );
+    return this.get(hash)!;
+  }
+
+  /**
+   * Contract return value as JSON-safe data (i128/u64 become decimal strings)
+   */
+  private decodeReturnValue(value: xdr.ScVal): unknown {
+    const toJson = (native: unknown): unknown => {
+      if (typeof native === 'bigint') {
+        return native.toString();
+      }
+      if (Array.isArray(native)) {
+        return native.map(toJson);
+      }
+      if (native instanceof Uint8Array) {
+        return Buffer.from(native).toString('hex');
+      }
+      if (native && typeof native === 'object') {
+        return Object.fromEntries(Object.entries(native).map(([key, field]) => [key, toJson(field)]));
+      }
+      return native;
+    };
+
+    try {
+      return toJson(scValToNative(value));
+    } catch {
+      return value.toXDR('base64');
+    }
+  }
+
+  /**
+   * Result code of a failed transaction (fee bumps unwrapped), plus the contract or host error from diagnostic events
+   */
+  private decodeFailure(response: Api.GetFailedTransactionResponse): string {
+    let code: string = response.resultXdr.result().switch().name;
+    try {
+      const result = response.resultXdr.result();
+      const inner = code.startsWith('txFeeBump') ? result.innerResultPair().result().result() : result;
+      code = inner.switch().name;
+      const operation = inner.results()[0]?.tr();
+      if (operation?.switch().name === 'invokeHostFunction') {
+        code = `${code}/${operation.invokeHostFunctionResult().switch().name}`;
+      }
+    } catch {
+      // Keep the outer result code
+    }
+
+    const raised = describeDiagnosticError(this.diagnosticEvents(response));
+    return raised ? `${code}: ${raised}` : code;
+  }
+
+  private diagnosticEvents(response: Api.GetFailedTransactionResponse): xdr.DiagnosticEvent[] | undefined {
+    try {
+      return response.diagnosticEventsXdr ?? response.resultMetaXdr.v3().sorobanMeta()?.diagnosticEvents();
+    } catch {
+      return undefined; // Not v3 meta - the result code alone is reported
+    }
+  }
+
+  private toTransaction(row: any): TrackedTransaction {
+    return {
+      hash: row.hash,
+      operation: row.operation,
+      submittedVia: row.submitted_via,
+      farmer: row.farmer ?? undefined,
+      blockIndex: row.block_index ?? undefined,
+      status: row.status,
+      ledger: row.ledger ?? undefined,
+      result: row.result ? JSON.parse(row.result) : undefined,
+      error: row.error ?? undefined,
+      feeCharged: row.fee_charged ?? undefined,
+      polls: row.polls,
+      submittedAt: row.submitted_at,
+      updatedAt: row.updated_at
+    };
+  }
+}
+
+// Export singleton instance (shares the job store's SQLite file)
+export const transactionTracker = new TransactionTracker(Config.JOB_STORE.PATH);
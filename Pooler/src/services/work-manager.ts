@@ -2,20 +2,32 @@
 // Phase 3: Coordinates work execution on behalf of planted farmers
 
 import { Keypair } from '@stellar/stellar-sdk';
-import { spawn, type Subprocess } from 'bun';
 import Config from '../../../Shared/config';
+import { MINING_CONFIG } from '../../../Shared/utils/constants';
 import { blockMonitorLogger as logger } from '../../../Shared/utils/logger';
 import { WorkSubmissionService, type WorkSubmissionRequest, type WorkSubmissionResult } from './work-submission-service';
+import { createMinerBackend, type MinerBackend, type MinerJob, type MinerRunOutput } from './miner-backend';
+import { WorkScheduler, type BlockGapParams, type WorkPlan, type WorkScheduleReport } from './work-scheduler';
+import { NonceSearchStrategy, type NonceSearchHooks, type NonceSearchReport } from './nonce-search';
+import { jobStore } from './job-store';
+import { keyCustody } from './key-custody';
+import { classifyFailure } from './contract-errors';
+import { verifyMinedWork } from './work-verifier';
+import { poolEvents } from './pool-events';
+import { calculateGap, estimateContribution, parseStakeAmount } from '../../../Shared/utils/kale-scoring';
 import { formatISTTime, getISTDate } from '../../../Shared/utils/timing';
+import type { FailureReason } from '../../../Shared/types/blockchain';
 
 // Work execution interfaces
 export interface WorkRequest {
   farmerId: string;
   custodialWallet: string;
-  custodialSecretKey: string;
+  custodialKey?: string; // Sealed key or key reference - lets a direct RPC submission be sourced by the farmer
   blockIndex: number;
   entropy: string;
   stakeAmount: string;
+  plantingTime?: Date;
+  plantLedger?: number;
 }
 
 export interface WorkResult {
@@ -25,124 +37,244 @@ export interface WorkResult {
   nonce?: number;
   hash?: string;
   zeros?: number;
-  gap?: number;
+  gap?: number; // Ledgers between plant and work
+  transactionHash?: string; // Confirmed work() transaction
+  confirmedLedger?: number; // Ledger the work() transaction was confirmed in
+  normalizedContribution?: WorkContribution;
   workTime: number; // milliseconds
   attempts: number;
   error?: string;
+  failureReason?: FailureReason; // Structured cause of a failed result (category, code, retryable)
   compensationRequired: boolean;
+  schedule?: WorkScheduleReport;
+  search?: NonceSearchReport;
+}
+
+// Block parameters known at planting time (gap bounds plus current zero range)
+export interface BlockParams extends BlockGapParams {
+  minZeros?: number;
+  maxZeros?: number;
+}
+
+// Normalized contribution estimate (fixed point, 7 decimals, as strings for JSON).
+// Scored against the block totals at batch completion; other farmers' work can still move them.
+export interface WorkContribution {
+  gap: string;
+  stake: string;
+  zeros: string;
+  total: string;
+  share?: number;
 }
 
 export interface WorkBatchResult {
   blockIndex: number;
   poolerId: string;
   workResults: WorkResult[];
+  heldFarmerIds: string[]; // Left pending in the job store because the farm paused before their work was submitted
   totalWorkTime: number;
   timestamp: string;
 }
 
-// Work process state
-interface WorkState {
-  workerProcess?: Subprocess<"ignore", "pipe", "pipe">;
+// Per-worker state (one miner job per worker)
+interface WorkerState {
+  workerId: number;
+  minerJob?: MinerJob;
+  stopRequested: boolean;
   isWorking: boolean;
   currentFarmerId?: string;
+  currentBlockIndex?: number;
   startTime: number;
   attempts: number;
+  completedJobs: number;
 }
 
+export interface WorkerStatus {
+  workerId: number;
+  isWorking: boolean;
+  pid?: number;
+  currentFarmerId?: string;
+  currentBlockIndex?: number;
+  currentWorkTime: number;
+  attempts: number;
+  completedJobs: number;
+}
+
+// Returned in place of a result when the farm pauses before a farmer's work is submitted
+const WORK_HELD = Symbol('work_held');
+
 export class WorkManager {
   private readonly WORK_DELAY_SECONDS = 150; // Wait time after planting (testing)
   private readonly MAX_RECOVERY_ATTEMPTS = 3;
   private readonly WORK_TIMEOUT_MS = 300000; // 5 minutes per work attempt
-  private readonly NONCE_COUNT = 10000000; // Default nonce count
+  private readonly WORKER_POOL_SIZE: number;
 
-  private workState: WorkState = {
-    isWorking: false,
-    startTime: 0,
-    attempts: 0
-  };
+  private workers: WorkerState[];
+  private idleWorkers: WorkerState[];
+  private workerWaiters: Array<(worker: WorkerState) => void> = [];
 
   private workSubmissionService: WorkSubmissionService;
+  private minerBackend: MinerBackend;
+  private nonceSearch: NonceSearchStrategy;
+  private workScheduler: WorkScheduler;
+  private isPaused: () => boolean = () => false;
 
   constructor() {
     this.workSubmissionService = new WorkSubmissionService();
+    this.minerBackend = createMinerBackend();
+    this.nonceSearch = new NonceSearchStrategy(this.minerBackend);
+    this.workScheduler = new WorkScheduler(this.WORK_DELAY_SECONDS);
+
+    // Bounded pool: configured size, never above the global process limit
+    this.WORKER_POOL_SIZE = Math.max(1, Math.min(
+      Config.WORK_MANAGER.WORKER_POOL_SIZE,
+      MINING_CONFIG.MAX_CONCURRENT_WORK_PROCESSES
+    ));
+
+    this.workers = Array.from({ length: this.WORKER_POOL_SIZE }, (_, workerId) => ({
+      workerId,
+      stopRequested: false,
+      isWorking: false,
+      startTime: 0,
+      attempts: 0,
+      completedJobs: 0
+    }));
+    this.idleWorkers = [...this.workers];
     
     logger.info(`WorkManager initialized ${JSON.stringify({
       work_delay_seconds: this.WORK_DELAY_SECONDS,
       max_recovery_attempts: this.MAX_RECOVERY_ATTEMPTS,
-      work_timeout_ms: this.WORK_TIMEOUT_MS
+      work_timeout_ms: this.WORK_TIMEOUT_MS,
+      worker_pool_size: this.WORKER_POOL_SIZE,
+      miner_backend: this.minerBackend.name
     })}`);
   }
 
   /**
-   * Schedule work execution after the required delay
+   * Let the coordinator's farm pause hold work that has not been submitted yet
+   */
+  setPauseCheck(isPaused: () => boolean): void {
+    this.isPaused = isPaused;
+  }
+
+  /**
+   * Schedule work for each farmer at its planned moment (see WorkScheduler)
    */
-  scheduleWork(
+  async scheduleWork(
     blockTimestamp: number | bigint,
     blockIndex: number,
     entropy: string,
-    workRequests: WorkRequest[]
+    workRequests: WorkRequest[],
+    blockParams?: BlockParams
   ): Promise<WorkBatchResult> {
-    return new Promise((resolve, reject) => {
-      const blockTimeMs = this.blockTimestampToMs(blockTimestamp);
-      const currentTimeMs = Date.now();
-      const targetTimeMs = blockTimeMs + this.WORK_DELAY_SECONDS * 1000;
-      const waitTimeMs = Math.max(0, targetTimeMs - currentTimeMs);
-
-      const currentTimeIST = formatISTTime(new Date(currentTimeMs));
-      const targetTimeIST = formatISTTime(new Date(targetTimeMs));
-      const harvestTimeMs = targetTimeMs + 30000; // 30 seconds after work completion
-      const harvestTimeIST = formatISTTime(new Date(harvestTimeMs));
-      
-      logger.info(`⏰ Work scheduled for planted farmers (IST timing) ${JSON.stringify({
-        block_index: blockIndex,
-        farmer_count: workRequests.length,
-        current_time_ist: currentTimeIST,
-        work_starts_at_ist: targetTimeIST,
-        harvest_eligible_at_ist: harvestTimeIST,
-        wait_time_minutes: Math.round(waitTimeMs / 60000 * 10) / 10,
-        work_delay_seconds: this.WORK_DELAY_SECONDS
-      })}`);
+    const blockTimeMs = this.blockTimestampToMs(blockTimestamp);
+    const currentTimeMs = Date.now();
 
-      setTimeout(async () => {
-        try {
-          const result = await this.executeWorkBatch(blockIndex, entropy, workRequests);
-          resolve(result);
-        } catch (error) {
-          reject(error);
-        }
-      }, waitTimeMs);
-    });
+    const plans = workRequests.map(workRequest => this.workScheduler.planFarmerWork({
+      farmerId: workRequest.farmerId,
+      blockIndex,
+      blockTimeMs,
+      plantingTime: workRequest.plantingTime,
+      plantLedger: workRequest.plantLedger,
+      gapParams: blockParams
+    }));
+
+    plans.forEach(plan => poolEvents.publish('work_scheduled', {
+      plannedStartAt: new Date(plan.plannedStartAt).toISOString(),
+      plannedSubmitAt: new Date(plan.plannedSubmitAt).toISOString(),
+      deadlineAt: new Date(plan.deadlineAt).toISOString(),
+      targetGap: plan.targetGap ?? null,
+      reason: plan.reason
+    }, { blockIndex, farmerId: plan.farmerId }));
+
+    const firstStartMs = Math.min(...plans.map(plan => plan.plannedStartAt));
+    const lastSubmitMs = Math.max(...plans.map(plan => plan.plannedSubmitAt));
+    const deadlineMs = Math.min(...plans.map(plan => plan.deadlineAt));
+    
+    logger.info(`⏰ Work scheduled for planted farmers (IST timing) ${JSON.stringify({
+      block_index: blockIndex,
+      farmer_count: workRequests.length,
+      current_time_ist: formatISTTime(new Date(currentTimeMs)),
+      work_starts_at_ist: formatISTTime(new Date(firstStartMs)),
+      last_submit_at_ist: formatISTTime(new Date(lastSubmitMs)),
+      submit_deadline_ist: formatISTTime(new Date(deadlineMs)),
+      wait_time_minutes: Math.round(Math.max(0, firstStartMs - currentTimeMs) / 60000 * 10) / 10,
+      min_gap: blockParams?.minGap,
+      max_gap: blockParams?.maxGap,
+      max_zeros: blockParams?.maxZeros
+    })}`);
+
+    return this.executeWorkBatch(blockIndex, entropy, workRequests, plans, blockParams);
   }
 
   /**
-   * Execute work for all planted farmers in sequence
+   * Execute work for all planted farmers on the worker pool
    */
   private async executeWorkBatch(
     blockIndex: number,
     entropy: string,
-    workRequests: WorkRequest[]
+    workRequests: WorkRequest[],
+    plans: WorkPlan[],
+    blockParams?: BlockParams
   ): Promise<WorkBatchResult> {
     const batchStartTime = Date.now();
-    const workResults: WorkResult[] = [];
 
     logger.info(`Starting work batch execution ${JSON.stringify({
       block_index: blockIndex,
       farmer_count: workRequests.length,
+      worker_pool_size: this.WORKER_POOL_SIZE,
+      idle_workers: this.idleWorkers.length,
       entropy: entropy.substring(0, 16) + '...'
     })}`);
 
-    // Execute work sequentially for each farmer
-    for (const workRequest of workRequests) {
-      const result = await this.executeWorkForFarmer(blockIndex, entropy, workRequest);
-      workResults.push(result);
-
-      // If work failed, attempt recovery
-      if (result.status === 'failed' && !result.compensationRequired) {
-        const recoveryResult = await this.attemptRecovery(blockIndex, entropy, workRequest);
-        if (recoveryResult) {
-          // Replace failed result with recovery result
-          workResults[workResults.length - 1] = recoveryResult;
+    // Each farmer waits for its planned start, then for a free worker; results keep the request order
+    const batchResults = await Promise.all(workRequests.map(async (workRequest, index): Promise<WorkResult | typeof WORK_HELD> => {
+      const plan = plans[index]!;
+      await this.waitUntil(plan.plannedStartAt);
+      if (this.isPaused()) {
+        return this.holdWork(blockIndex, workRequest.farmerId);
+      }
+
+      const worker = await this.acquireWorker(workRequest.farmerId, blockIndex);
+      try {
+        // Paused while queued for a worker
+        if (this.isPaused()) {
+          return this.holdWork(blockIndex, workRequest.farmerId);
         }
+
+        this.workScheduler.markStarted(plan);
+        jobStore.updateJobStatus(blockIndex, workRequest.farmerId, 'mining');
+        poolEvents.publish('work_started', { workerId: worker.workerId }, { blockIndex, farmerId: workRequest.farmerId });
+
+        const result = await this.executeWorkOnWorker(worker, blockIndex, entropy, workRequest, plan, blockParams);
+        if (result === WORK_HELD) {
+          return this.holdWork(blockIndex, workRequest.farmerId);
+        }
+        const scheduledResult = { ...result, schedule: this.workScheduler.markCompleted(plan) };
+        jobStore.recordJobResult(blockIndex, scheduledResult);
+        poolEvents.publish('work_finished', {
+          status: result.status,
+          nonce: result.nonce ?? null,
+          zeros: result.zeros ?? null,
+          gap: result.gap ?? null,
+          workTimeMs: result.workTime,
+          attempts: result.attempts,
+          error: result.error ?? null
+        }, { blockIndex, farmerId: workRequest.farmerId });
+        return scheduledResult;
+      } finally {
+        this.releaseWorker(worker);
+      }
+    }));
+
+    const workResults = batchResults.filter((result): result is WorkResult => result !== WORK_HELD);
+    const heldFarmerIds = workRequests
+      .filter((_, index) => batchResults[index] === WORK_HELD)
+      .map(workRequest => workRequest.farmerId);
+
+    await this.scoreWorkResults(blockIndex, workRequests, workResults);
+    for (const result of workResults) {
+      if (result.normalizedContribution) {
+        jobStore.recordJobResult(blockIndex, result);
       }
     }
 
@@ -153,7 +285,8 @@ export class WorkManager {
       block_index: blockIndex,
       total_farmers: workRequests.length,
       successful_work: successCount,
-      failed_work: workRequests.length - successCount,
+      failed_work: workResults.length - successCount,
+      held_work: heldFarmerIds.length,
       total_time_ms: totalWorkTime
     })}`);
 
@@ -161,29 +294,118 @@ export class WorkManager {
       blockIndex,
       poolerId: Config.POOLER.ID,
       workResults,
+      heldFarmerIds,
       totalWorkTime,
       timestamp: new Date().toISOString()
     };
   }
 
+  /**
+   * Run a farmer's work on a worker, falling back to recovery attempts
+   */
+  private async executeWorkOnWorker(
+    worker: WorkerState,
+    blockIndex: number,
+    entropy: string,
+    workRequest: WorkRequest,
+    plan: WorkPlan,
+    blockParams?: BlockParams
+  ): Promise<WorkResult | typeof WORK_HELD> {
+    const result = await this.executeWorkForFarmer(worker, blockIndex, entropy, workRequest, plan, blockParams);
+
+    // If work failed, attempt recovery - also for mined work rejected short of min_zeros, while the deadline allows
+    if (result !== WORK_HELD && result.status === 'failed' && (!result.compensationRequired || this.canRemine(result, plan))) {
+      const recoveryResult = await this.attemptRecovery(worker, blockIndex, entropy, workRequest, plan, blockParams);
+      if (recoveryResult) {
+        // Replace failed result with recovery result
+        return recoveryResult;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Whether failed work was rejected for a reason more searching can fix (ZEROS_BELOW_MINIMUM), with time left to
+   * re-mine it before the block's deadline; otherwise it goes straight to compensation
+   */
+  private canRemine(result: WorkResult, plan: WorkPlan): boolean {
+    return result.failureReason?.category === 'miner'
+      && result.failureReason.retryable
+      && Date.now() < plan.deadlineAt
+      && !this.isPaused();
+  }
+
+  /**
+   * Put a farmer's job back to pending so the farm's resume picks it up
+   */
+  private holdWork(blockIndex: number, farmerId: string): typeof WORK_HELD {
+    jobStore.updateJobStatus(blockIndex, farmerId, 'pending');
+    logger.info(`Farm paused - holding work for farmer ${JSON.stringify({
+      farmer_id: farmerId,
+      block_index: blockIndex
+    })}`);
+    return WORK_HELD;
+  }
+
+  /**
+   * Wait for an idle worker and assign it to a farmer
+   */
+  private acquireWorker(farmerId: string, blockIndex: number): Promise<WorkerState> {
+    const assign = (worker: WorkerState): WorkerState => {
+      worker.isWorking = true;
+      worker.stopRequested = false;
+      worker.currentFarmerId = farmerId;
+      worker.currentBlockIndex = blockIndex;
+      worker.startTime = Date.now();
+      worker.attempts = 0;
+      return worker;
+    };
+
+    const idleWorker = this.idleWorkers.shift();
+    if (idleWorker) {
+      return Promise.resolve(assign(idleWorker));
+    }
+
+    return new Promise(resolve => {
+      this.workerWaiters.push(worker => resolve(assign(worker)));
+    });
+  }
+
+  /**
+   * Return a worker to the pool, handing it straight to the next waiting farmer
+   */
+  private releaseWorker(worker: WorkerState): void {
+    worker.isWorking = false;
+    worker.currentFarmerId = undefined;
+    worker.currentBlockIndex = undefined;
+    worker.minerJob = undefined;
+    worker.completedJobs++;
+
+    const nextWaiter = this.workerWaiters.shift();
+    if (nextWaiter) {
+      nextWaiter(worker);
+    } else {
+      this.idleWorkers.push(worker);
+    }
+  }
+
   /**
    * Execute work for a single farmer
    */
   private async executeWorkForFarmer(
+    worker: WorkerState,
     blockIndex: number,
     entropy: string,
-    workRequest: WorkRequest
-  ): Promise<WorkResult> {
+    workRequest: WorkRequest,
+    plan: WorkPlan,
+    blockParams?: BlockParams
+  ): Promise<WorkResult | typeof WORK_HELD> {
     const startTime = Date.now();
-    
-    this.workState = {
-      isWorking: true,
-      currentFarmerId: workRequest.farmerId,
-      startTime,
-      attempts: 1
-    };
+    worker.attempts = 1;
 
     logger.debug(`Starting work for farmer ${JSON.stringify({
+      worker_id: worker.workerId,
       farmer_id: workRequest.farmerId,
       custodial_wallet: workRequest.custodialWallet,
       block_index: blockIndex
@@ -191,68 +413,64 @@ export class WorkManager {
 
     try {
       // Get farmer's public key from custodial wallet
-      const farmerKeypair = Keypair.fromSecret(workRequest.custodialSecretKey);
-      const farmerHex = farmerKeypair.rawPublicKey().toString('hex');
+      const farmerHex = Keypair.fromPublicKey(workRequest.custodialWallet).rawPublicKey().toString('hex');
 
       // Validate blockIndex before using it
       if (blockIndex == null || blockIndex === undefined || isNaN(blockIndex)) {
         throw new Error(`Invalid blockIndex: ${blockIndex}. Must be a valid number.`);
       }
 
-      // Debug: Log parameters being passed to kale-farmer
-      const args = [
-        '/Users/deadbytes/Documents/Kale-pool/ext/kale-farmer/release/kale-farmer',
-        '--farmer-hex', farmerHex,
-        '--index', blockIndex.toString(),
-        '--entropy-hex', entropy,
-        '--nonce-count', this.NONCE_COUNT.toString()
-      ];
-      
-      logger.debug(`Spawning kale-farmer with args ${JSON.stringify({
-        farmer_id: workRequest.farmerId,
-        args: args,
-        farmer_hex_length: farmerHex.length,
-        entropy_length: entropy.length
-      })}`);
-
-      // Spawn the work process
-      this.workState.workerProcess = spawn(args, { 
-        stdout: 'pipe',
-        stderr: 'pipe'
-      });
-
-      if (!this.workState.workerProcess) {
-        throw new Error('Failed to spawn work process');
+      // Mine nonce windows on this worker toward the block's zero target
+      const { output: minerOutput, report: searchReport } = await this.nonceSearch.search(
+        { farmerId: workRequest.farmerId, farmerHex, blockIndex, entropy },
+        {
+          minZeros: blockParams?.minZeros,
+          maxZeros: blockParams?.maxZeros,
+          deadlineAt: Math.min(plan.plannedSubmitAt, plan.deadlineAt),
+          firstWindowTimeoutMs: this.WORK_TIMEOUT_MS,
+          cutoffAt: plan.deadlineAt
+        },
+        this.searchHooks(worker)
+      );
+
+      // Mining was stopped by a farm pause - nothing is submitted
+      if (this.isPaused()) {
+        return WORK_HELD;
       }
 
-      // Read both stdout and stderr for debugging
-      const workOutput = await Promise.race([
-        this.readWorkStream(this.workState.workerProcess.stdout, this.workState.workerProcess.stderr, workRequest.farmerId),
-        this.createTimeout(this.WORK_TIMEOUT_MS)
-      ]);
-
-      if (!workOutput) {
-        // Try to get stderr output for debugging
-        let stderrOutput = '';
-        try {
-          if (this.workState.workerProcess.stderr) {
-            stderrOutput = await Bun.readableStreamToText(this.workState.workerProcess.stderr);
-          }
-        } catch (e) {
-          // Ignore stderr read errors
-        }
-        throw new Error(`Work process timed out or produced no output. stderr: ${stderrOutput}`);
+      if (!minerOutput) {
+        throw new Error(`Work process timed out or produced no output (miner backend: ${this.minerBackend.name})`);
       }
 
+      const workOutput = this.toWorkOutput(minerOutput, { farmerHex, blockIndex, entropy }, blockParams);
+      this.workScheduler.markMined(plan);
+
       const workTime = Date.now() - startTime;
 
       logger.info(`Work completed successfully for farmer ${JSON.stringify({
+        worker_id: worker.workerId,
         farmer_id: workRequest.farmerId,
         nonce: workOutput.nonce,
         zeros: workOutput.zeros,
         work_time_ms: workTime
       })}`);
 
+      // Mining finished early - hold the result so the submission lands at the planned gap
+      const submitHoldMs = this.workScheduler.getSubmitHoldMs(plan);
+      if (submitHoldMs > 0) {
+        logger.debug(`Holding work result until planned submit time ${JSON.stringify({
+          farmer_id: workRequest.farmerId,
+          hold_ms: submitHoldMs,
+          planned_submit_ist: formatISTTime(new Date(plan.plannedSubmitAt))
+        })}`);
+        await this.waitUntil(Date.now() + submitHoldMs);
+      }
+
+      // Paused while the result was held - leave it unsubmitted
+      if (this.isPaused()) {
+        return WORK_HELD;
+      }
+
       // CRITICAL: Submit work to smart contract (following reference pattern)
       logger.info(`Submitting work to smart contract ${JSON.stringify({
         farmer_id: workRequest.farmerId,
@@ -261,11 +479,20 @@ export class WorkManager {
         hash: workOutput.hash.substring(0, 16) + '...'
       })}`);
 
+      this.workScheduler.markSubmitting(plan);
+      jobStore.updateJobStatus(blockIndex, workRequest.farmerId, 'submitting');
+
+      let gap: number | undefined;
+      let transactionHash: string | undefined;
+      let confirmedLedger: number | undefined;
       try {
         const workSubmissionResult = await this.workSubmissionService.submitWork({
           farmerPublicKey: workRequest.custodialWallet,
           hash: new Uint8Array(Buffer.from(workOutput.hash, 'hex')),
-          nonce: BigInt(workOutput.nonce)
+          nonce: BigInt(workOutput.nonce),
+          blockIndex,
+          deadlineAt: plan.deadlineAt,
+          signer: workRequest.custodialKey ? keyCustody.signerFor(workRequest.custodialKey, workRequest.custodialWallet) : undefined
         });
 
         if (!workSubmissionResult.success) {
@@ -274,6 +501,11 @@ export class WorkManager {
             error: workSubmissionResult.error,
             nonce: workOutput.nonce
           });
+          poolEvents.publish('error', {
+            source: 'work_submission',
+            message: 'Failed to submit work to smart contract',
+            error: workSubmissionResult.error ?? null
+          }, { blockIndex, farmerId: workRequest.farmerId });
           
           // Work is FAILED if smart contract submission fails
           // Mining success alone is not enough - work must be on-chain to be harvestable
@@ -284,14 +516,27 @@ export class WorkManager {
             nonce: workOutput.nonce,
             hash: workOutput.hash,
             zeros: workOutput.zeros,
-            gap: workOutput.gap,
+            search: searchReport,
             workTime,
             attempts: 1,
             compensationRequired: true, // Smart contract submission failed
-            error: `Smart contract submission failed: ${workSubmissionResult.error}`
+            error: `Smart contract submission failed: ${workSubmissionResult.error}`,
+            failureReason: workSubmissionResult.failureReason ?? classifyFailure(workSubmissionResult.error ?? 'Smart contract submission failed')
           };
         }
 
+        gap = this.resolveGap(workRequest, workSubmissionResult);
+        transactionHash = workSubmissionResult.transactionHash;
+        confirmedLedger = workSubmissionResult.confirmedLedger;
+        poolEvents.publish('work_submitted', {
+          transactionHash: workSubmissionResult.transactionHash ?? null,
+          ledger: confirmedLedger ?? null,
+          nonce: workOutput.nonce,
+          zeros: workOutput.zeros,
+          gap: gap ?? null,
+          recovery: false
+        }, { blockIndex, farmerId: workRequest.farmerId });
+
         const completionTimeIST = formatISTTime();
         const harvestEligibleTime = new Date(Date.now() + 30000); // 30 seconds from now
         const harvestEligibleTimeIST = formatISTTime(harvestEligibleTime);
@@ -301,6 +546,7 @@ export class WorkManager {
           transaction_hash: workSubmissionResult.transactionHash,
           nonce: workOutput.nonce,
           zeros: workOutput.zeros,
+          gap,
           completed_at_ist: completionTimeIST,
           harvest_eligible_at_ist: harvestEligibleTimeIST,
           harvest_eligible_in: '30 seconds'
@@ -320,11 +566,12 @@ export class WorkManager {
           nonce: workOutput.nonce,
           hash: workOutput.hash,
           zeros: workOutput.zeros,
-          gap: workOutput.gap,
+          search: searchReport,
           workTime,
           attempts: 1,
           compensationRequired: true, // Smart contract submission failed
-          error: `Smart contract submission exception: ${(error as Error).message}`
+          error: `Smart contract submission exception: ${(error as Error).message}`,
+          failureReason: classifyFailure(error)
         };
       }
 
@@ -335,7 +582,10 @@ export class WorkManager {
         nonce: workOutput.nonce,
         hash: workOutput.hash,
         zeros: workOutput.zeros,
-        gap: workOutput.gap,
+        search: searchReport,
+        gap,
+        transactionHash,
+        confirmedLedger,
         workTime,
         attempts: 1,
         compensationRequired: false
@@ -345,9 +595,10 @@ export class WorkManager {
       const workTime = Date.now() - startTime;
       
       logger.warn(`Work failed for farmer ${JSON.stringify({
+        worker_id: worker.workerId,
         farmer_id: workRequest.farmerId,
         work_time_ms: workTime,
-        attempts: this.workState.attempts,
+        attempts: worker.attempts,
         error: (error as Error).message
       })}`);
 
@@ -356,18 +607,18 @@ export class WorkManager {
         custodialWallet: workRequest.custodialWallet,
         status: 'failed',
         workTime,
-        attempts: this.workState.attempts,
+        attempts: worker.attempts,
         error: (error as Error).message,
+        failureReason: classifyFailure(error, { fallback: 'miner' }),
         compensationRequired: true
       };
 
     } finally {
-      // Clean up work process
-      if (this.workState.workerProcess) {
-        this.workState.workerProcess.kill();
-        this.workState.workerProcess = undefined;
+      // Clean up miner job
+      if (worker.minerJob) {
+        worker.minerJob.cancel();
+        worker.minerJob = undefined;
       }
-      this.workState.isWorking = false;
     }
   }
 
@@ -375,10 +626,22 @@ export class WorkManager {
    * Attempt recovery for failed work
    */
   private async attemptRecovery(
+    worker: WorkerState,
     blockIndex: number,
     entropy: string,
-    workRequest: WorkRequest
-  ): Promise<WorkResult | null> {
+    workRequest: WorkRequest,
+    plan: WorkPlan,
+    blockParams?: BlockParams
+  ): Promise<WorkResult | typeof WORK_HELD | null> {
+    // Recovery searches past the earlier runs' nonces; a backend that always starts at nonce 0 would only repeat them
+    if (!this.minerBackend.supportsStartNonce) {
+      logger.info(`Skipping work recovery - miner backend cannot start past nonce 0 ${JSON.stringify({
+        farmer_id: workRequest.farmerId,
+        miner_backend: this.minerBackend.name
+      })}`);
+      return null;
+    }
+
     logger.info(`Attempting work recovery ${JSON.stringify({
       farmer_id: workRequest.farmerId,
       block_index: blockIndex
@@ -386,17 +649,24 @@ export class WorkManager {
 
     for (let attempt = 1; attempt <= this.MAX_RECOVERY_ATTEMPTS; attempt++) {
       try {
-        // Use different nonce count for recovery attempts
-        const recoveryNonceCount = this.NONCE_COUNT + (attempt * 1000000);
+        // Each recovery attempt searches past the nonces the earlier runs could have covered
+        const recoveryStartNonce = attempt * Config.MINER.WINDOW_NONCES * Config.MINER.MAX_WINDOWS;
         
         const recoveryResult = await this.executeWorkWithParams(
+          worker,
           blockIndex,
           entropy,
           workRequest,
-          recoveryNonceCount,
+          plan,
+          blockParams,
+          recoveryStartNonce,
           attempt + 1
         );
 
+        if (recoveryResult === WORK_HELD) {
+          return WORK_HELD;
+        }
+
         if (recoveryResult.status === 'success') {
           logger.info(`Work recovery successful ${JSON.stringify({
             farmer_id: workRequest.farmerId,
@@ -430,38 +700,43 @@ export class WorkManager {
    * Execute work with specific parameters
    */
   private async executeWorkWithParams(
+    worker: WorkerState,
     blockIndex: number,
     entropy: string,
     workRequest: WorkRequest,
-    nonceCount: number,
+    plan: WorkPlan,
+    blockParams: BlockParams | undefined,
+    startNonce: number,
     attemptNumber: number
-  ): Promise<WorkResult> {
+  ): Promise<WorkResult | typeof WORK_HELD> {
     const startTime = Date.now();
+    worker.attempts = attemptNumber;
     
-    const farmerKeypair = Keypair.fromSecret(workRequest.custodialSecretKey);
-    const farmerHex = farmerKeypair.rawPublicKey().toString('hex');
-
-    const workerProcess = spawn([
-      '/Users/deadbytes/Documents/Kale-pool/ext/kale-farmer/release/kale-farmer',
-      '--farmer-hex', farmerHex,
-      '--index', blockIndex.toString(),
-      '--entropy-hex', entropy,
-      '--nonce-count', nonceCount.toString()
-    ], { 
-      stdout: 'pipe',
-      stderr: 'pipe'
-    });
+    const farmerHex = Keypair.fromPublicKey(workRequest.custodialWallet).rawPublicKey().toString('hex');
 
     try {
-      const workOutput = await Promise.race([
-        this.readWorkStream(workerProcess.stdout, workerProcess.stderr, workRequest.farmerId),
-        this.createTimeout(this.WORK_TIMEOUT_MS)
-      ]);
+      const { output: minerOutput, report: searchReport } = await this.nonceSearch.search(
+        { farmerId: workRequest.farmerId, farmerHex, blockIndex, entropy },
+        {
+          minZeros: blockParams?.minZeros,
+          maxZeros: blockParams?.maxZeros,
+          deadlineAt: plan.deadlineAt,
+          firstWindowTimeoutMs: this.WORK_TIMEOUT_MS,
+          startNonce
+        },
+        this.searchHooks(worker)
+      );
+
+      if (this.isPaused()) {
+        return WORK_HELD;
+      }
 
-      if (!workOutput) {
+      if (!minerOutput) {
         throw new Error('Work process timed out');
       }
 
+      const workOutput = this.toWorkOutput(minerOutput, { farmerHex, blockIndex, entropy }, blockParams);
+
       const workTime = Date.now() - startTime;
 
       // Submit recovery work to smart contract (following reference pattern)
@@ -471,11 +746,20 @@ export class WorkManager {
         nonce: workOutput.nonce
       })}`);
 
+      this.workScheduler.markSubmitting(plan);
+      jobStore.updateJobStatus(blockIndex, workRequest.farmerId, 'submitting');
+
+      let gap: number | undefined;
+      let transactionHash: string | undefined;
+      let confirmedLedger: number | undefined;
       try {
         const workSubmissionResult = await this.workSubmissionService.submitWork({
           farmerPublicKey: workRequest.custodialWallet,
           hash: new Uint8Array(Buffer.from(workOutput.hash, 'hex')),
-          nonce: BigInt(workOutput.nonce)
+          nonce: BigInt(workOutput.nonce),
+          blockIndex,
+          deadlineAt: plan.deadlineAt,
+          signer: workRequest.custodialKey ? keyCustody.signerFor(workRequest.custodialKey, workRequest.custodialWallet) : undefined
         });
 
         if (!workSubmissionResult.success) {
@@ -484,6 +768,11 @@ export class WorkManager {
             attempt: attemptNumber,
             error: workSubmissionResult.error
           });
+          poolEvents.publish('error', {
+            source: 'work_submission',
+            message: 'Failed to submit recovery work to smart contract',
+            error: workSubmissionResult.error ?? null
+          }, { blockIndex, farmerId: workRequest.farmerId });
           
           return {
             farmerId: workRequest.farmerId,
@@ -492,18 +781,32 @@ export class WorkManager {
             nonce: workOutput.nonce,
             hash: workOutput.hash,
             zeros: workOutput.zeros,
-            gap: workOutput.gap,
+            search: searchReport,
             workTime,
             attempts: attemptNumber,
             compensationRequired: true,
-            error: `Recovery work smart contract submission failed: ${workSubmissionResult.error}`
+            error: `Recovery work smart contract submission failed: ${workSubmissionResult.error}`,
+            failureReason: workSubmissionResult.failureReason ?? classifyFailure(workSubmissionResult.error ?? 'Smart contract submission failed')
           };
         }
 
+        gap = this.resolveGap(workRequest, workSubmissionResult);
+        transactionHash = workSubmissionResult.transactionHash;
+        confirmedLedger = workSubmissionResult.confirmedLedger;
+        poolEvents.publish('work_submitted', {
+          transactionHash: workSubmissionResult.transactionHash ?? null,
+          ledger: confirmedLedger ?? null,
+          nonce: workOutput.nonce,
+          zeros: workOutput.zeros,
+          gap: gap ?? null,
+          recovery: true
+        }, { blockIndex, farmerId: workRequest.farmerId });
+
         logger.info(`Recovery work successfully submitted to smart contract ${JSON.stringify({
           farmer_id: workRequest.farmerId,
           attempt: attemptNumber,
-          transaction_hash: workSubmissionResult.transactionHash
+          transaction_hash: workSubmissionResult.transactionHash,
+          gap
         })}`);
 
       } catch (error) {
@@ -519,11 +822,12 @@ export class WorkManager {
           nonce: workOutput.nonce,
           hash: workOutput.hash,
           zeros: workOutput.zeros,
-          gap: workOutput.gap,
+          search: searchReport,
           workTime,
           attempts: attemptNumber,
           compensationRequired: true,
-          error: `Recovery work smart contract submission exception: ${(error as Error).message}`
+          error: `Recovery work smart contract submission exception: ${(error as Error).message}`,
+          failureReason: classifyFailure(error)
         };
       }
 
@@ -534,114 +838,129 @@ export class WorkManager {
         nonce: workOutput.nonce,
         hash: workOutput.hash,
         zeros: workOutput.zeros,
-        gap: workOutput.gap,
+        search: searchReport,
+        gap,
+        transactionHash,
+        confirmedLedger,
         workTime,
         attempts: attemptNumber,
         compensationRequired: false
       };
 
     } finally {
-      workerProcess.kill();
+      worker.minerJob?.cancel();
+      worker.minerJob = undefined;
     }
   }
 
   /**
-   * Read and parse work stream output
+   * Verify the miner's best nonce/hash against a recomputed KALE hash and derive contract-style leading zeros
+   * (throws MinedWorkRejectedError - nothing is submitted for output that doesn't verify)
    */
-  private async readWorkStream(
-    stdout: ReadableStream<Uint8Array>, 
-    stderr?: ReadableStream<Uint8Array>,
-    farmerId?: string
-  ): Promise<{
+  private toWorkOutput(
+    minerOutput: MinerRunOutput,
+    run: { farmerHex: string; blockIndex: number; entropy: string },
+    blockParams?: BlockParams
+  ): {
     nonce: number;
     hash: string;
     zeros: number;
-    gap: number;
-  } | null> {
-    try {
-      const output = await Bun.readableStreamToText(stdout);
-      
-      // Also read stderr for debugging
-      let stderrOutput = '';
-      if (stderr) {
-        try {
-          stderrOutput = await Bun.readableStreamToText(stderr);
-        } catch (e) {
-          // Ignore stderr errors
-        }
-      }
-      
-      logger.debug(`Work process output ${JSON.stringify({
-        farmer_id: farmerId,
-        stdout_length: output?.length || 0,
-        stderr_length: stderrOutput.length,
-        stdout_preview: output?.substring(0, 200),
-        stderr_preview: stderrOutput.substring(0, 200)
-      })}`);
-      
-      if (!output || output.trim().length === 0) {
-        logger.warn(`Work process produced no stdout output ${JSON.stringify({
-          farmer_id: farmerId,
-          stderr_output: stderrOutput
-        })}`);
-        return null;
-      }
+  } {
+    const { hash, zeros } = verifyMinedWork({ ...run, ...minerOutput }, blockParams?.minZeros);
 
-      // Parse the last line which should contain the JSON result
-      const lines = output.trim().split('\n');
-      const lastLine = lines[lines.length - 1];
-      
-      if (!lastLine || lastLine.trim().length === 0) {
-        logger.warn(`Work process stdout has no final line ${JSON.stringify({
-          farmer_id: farmerId,
-          lines_count: lines.length,
-          stderr_output: stderrOutput
-        })}`);
-        return null;
-      }
-      
-      logger.debug(`Parsing work result line ${JSON.stringify({
-        farmer_id: farmerId,
-        last_line: lastLine
+    return {
+      nonce: minerOutput.nonce,
+      hash,
+      zeros
+    };
+  }
+
+  /**
+   * Gap of submitted work: the contract's own value from simulation, else plant ledger to work ledger
+   */
+  private resolveGap(workRequest: WorkRequest, submission: WorkSubmissionResult): number | undefined {
+    if (submission.gap !== undefined) {
+      return submission.gap;
+    }
+    if (workRequest.plantLedger !== undefined && submission.ledger !== undefined) {
+      return calculateGap(workRequest.plantLedger, submission.ledger);
+    }
+    return undefined;
+  }
+
+  /**
+   * Attach normalized contribution estimates from the block's current totals
+   */
+  private async scoreWorkResults(
+    blockIndex: number,
+    workRequests: WorkRequest[],
+    workResults: WorkResult[]
+  ): Promise<void> {
+    const scorable = workResults.filter(r => r.status !== 'failed' && r.gap !== undefined && r.zeros !== undefined);
+    if (scorable.length === 0) {
+      return;
+    }
+
+    const block = await this.workSubmissionService.getBlock(blockIndex);
+    if (!block) {
+      logger.warn(`Block totals unavailable - skipping contribution scoring ${JSON.stringify({
+        block_index: blockIndex,
+        farmer_count: scorable.length
       })}`);
-      
-      const [nonce, hash] = JSON.parse(lastLine);
-      
-      // Count leading zeros
-      let zeros = 0;
-      for (const char of hash) {
-        if (char === '0') {
-          zeros++;
-        } else {
-          break;
-        }
-      }
+      return;
+    }
 
-      // Calculate gap (this would need actual gap calculation logic)
-      const gap = this.calculateGap(hash); // Placeholder
+    for (const result of scorable) {
+      const workRequest = workRequests.find(wr => wr.farmerId === result.farmerId);
+      if (!workRequest) {
+        continue;
+      }
 
-      return {
-        nonce: parseInt(nonce),
-        hash,
-        zeros,
-        gap
-      };
+      try {
+        const contribution = estimateContribution(block, {
+          gap: result.gap!,
+          stake: parseStakeAmount(workRequest.stakeAmount),
+          zeros: result.zeros!
+        });
 
-    } catch (error) {
-      logger.error('Failed to parse work stream output', error as Error, {
-        farmer_id: farmerId
-      });
-      return null;
+        result.normalizedContribution = {
+          gap: contribution.gap.toString(),
+          stake: contribution.stake.toString(),
+          zeros: contribution.zeros.toString(),
+          total: contribution.total.toString(),
+          share: contribution.share
+        };
+      } catch (error) {
+        logger.warn(`Failed to score work result ${JSON.stringify({
+          farmer_id: result.farmerId,
+          block_index: blockIndex,
+          error: (error as Error).message
+        })}`);
+      }
     }
   }
 
   /**
-   * Create a timeout promise
+   * Let the nonce search track the worker's current window and see stop requests
    */
-  private createTimeout(ms: number): Promise<null> {
-    return new Promise(resolve => {
-      setTimeout(() => resolve(null), ms);
-    });
+  private searchHooks(worker: WorkerState): NonceSearchHooks {
+    return {
+      onWindowStart: job => {
+        worker.minerJob = job;
+      },
+      isCancelled: () => worker.stopRequested
+    };
+  }
+
+  /**
+   * Wait until the given time (ms since epoch)
+   */
+  private waitUntil(timeMs: number): Promise<void> {
+    const waitMs = timeMs - Date.now();
+    if (waitMs <= 0) {
+      return Promise.resolve();
+    }
+    return new Promise(resolve => setTimeout(resolve, waitMs));
   }
 
   /**
@@ -660,37 +979,51 @@ export class WorkManager {
   }
 
   /**
-   * Calculate gap (placeholder - needs actual implementation)
-   */
-  private calculateGap(hash: string): number {
-    // This would need the actual gap calculation logic from the KALE contract
-    // For now, return a placeholder value
-    return 15;
-  }
-
-  /**
-   * Get current work status
+   * Get current work status, including per-worker state
    */
   getWorkStatus() {
+    const workers: WorkerStatus[] = this.workers.map(worker => ({
+      workerId: worker.workerId,
+      isWorking: worker.isWorking,
+      pid: worker.minerJob?.pid,
+      currentFarmerId: worker.currentFarmerId,
+      currentBlockIndex: worker.currentBlockIndex,
+      currentWorkTime: worker.isWorking ? Date.now() - worker.startTime : 0,
+      attempts: worker.attempts,
+      completedJobs: worker.completedJobs
+    }));
+    const activeWorkers = workers.filter(worker => worker.isWorking).length;
+
     return {
-      isWorking: this.workState.isWorking,
-      currentFarmerId: this.workState.currentFarmerId,
-      currentWorkTime: this.workState.isWorking ? Date.now() - this.workState.startTime : 0,
-      attempts: this.workState.attempts
+      isWorking: activeWorkers > 0,
+      minerBackend: this.minerBackend.name,
+      poolSize: this.WORKER_POOL_SIZE,
+      activeWorkers,
+      idleWorkers: this.idleWorkers.length,
+      queuedFarmers: this.workerWaiters.length,
+      workers,
+      schedule: this.workScheduler.getScheduleStatus()
     };
   }
 
   /**
-   * Stop current work process
+   * Stop all running work processes
    */
   stopWork(): void {
-    if (this.workState.workerProcess) {
-      this.workState.workerProcess.kill();
-      this.workState.workerProcess = undefined;
+    let stoppedJobs = 0;
+    for (const worker of this.workers) {
+      worker.stopRequested = worker.isWorking;
+      if (worker.minerJob) {
+        worker.minerJob.cancel();
+        worker.minerJob = undefined;
+        stoppedJobs++;
+      }
     }
-    this.workState.isWorking = false;
     
-    logger.info('Work process stopped');
+    logger.info(`Work processes stopped ${JSON.stringify({
+      stopped_jobs: stoppedJobs,
+      queued_farmers: this.workerWaiters.length
+    })}`);
   }
 }
 
@@ -0,0 +1,240 @@
+// Work Scheduler for KALE Pool Mining Pooler
+// Plans each farmer's work moment from the block's gap bounds and the next-block deadline
+
+import Config from '../../../Shared/config';
+import { STELLAR_CONFIG } from '../../../Shared/utils/constants';
+import { BLOCK_INTERVAL_SECONDS } from '../../../Shared/types/blockchain';
+import { blockMonitorLogger as logger } from '../../../Shared/utils/logger';
+import { formatISTTime } from '../../../Shared/utils/timing';
+
+// Block gap bounds (in ledgers) as published in the KALE Block
+export interface BlockGapParams {
+  minGap: number;
+  maxGap: number;
+}
+
+export interface WorkPlanInput {
+  farmerId: string;
+  blockIndex: number;
+  blockTimeMs: number;
+  plantingTime?: Date;
+  plantLedger?: number;
+  gapParams?: BlockGapParams;
+}
+
+export interface WorkPlan {
+  farmerId: string;
+  blockIndex: number;
+  plantLedger?: number;
+  targetGap?: number; // ledgers between plant and work
+  plannedWorkLedger?: number;
+  plannedStartAt: number; // ms
+  plannedSubmitAt: number; // ms
+  deadlineAt: number; // latest safe submit time (ms)
+  expectedNextBlockAt: number; // ms
+  reason: 'max_gap' | 'deadline' | 'min_gap' | 'fallback_delay';
+  status: 'scheduled' | 'mining' | 'submitting' | 'completed';
+  actualStartAt?: number;
+  actualSubmitAt?: number;
+}
+
+// Schedule report attached to each farmer's WorkResult
+export interface WorkScheduleReport {
+  plannedStartAt: string;
+  plannedSubmitAt: string;
+  actualStartAt?: string;
+  actualSubmitAt?: string;
+  deadlineAt: string;
+  targetGap?: number;
+  plannedWorkLedger?: number;
+  reason: WorkPlan['reason'];
+  submitDriftMs?: number; // actual - planned
+  metDeadline?: boolean;
+}
+
+export class WorkScheduler {
+  private readonly LEDGER_MS = STELLAR_CONFIG.LEDGER_CLOSE_SECONDS * 1000;
+  private readonly BLOCK_INTERVAL_MS = BLOCK_INTERVAL_SECONDS * 1000;
+  private readonly SUBMIT_MARGIN_MS = Config.WORK_SCHEDULER.SUBMIT_MARGIN_MS;
+  private readonly MAX_TRACKED_PLANS = 500;
+
+  private estimatedMiningMs = Config.WORK_SCHEDULER.ESTIMATED_MINING_MS;
+  private plans = new Map<string, WorkPlan>();
+
+  constructor(private readonly fallbackDelaySeconds: number) {}
+
+  /**
+   * Work out when a farmer should start mining and submit.
+   * Aims for the largest gap the block rewards (max_gap) without submitting past
+   * the expected close of the block; never earlier than min_gap allows.
+   */
+  planFarmerWork(input: WorkPlanInput): WorkPlan {
+    const now = Date.now();
+    const expectedNextBlockAt = input.blockTimeMs + this.BLOCK_INTERVAL_MS;
+    const deadlineAt = expectedNextBlockAt - this.SUBMIT_MARGIN_MS;
+    const plantTimeMs = input.plantingTime?.getTime() ?? now;
+
+    let plannedSubmitAt: number;
+    let targetGap: number | undefined;
+    let reason: WorkPlan['reason'];
+
+    if (input.gapParams && input.gapParams.maxGap > 0) {
+      const { minGap, maxGap } = input.gapParams;
+      const idealSubmitAt = plantTimeMs + maxGap * this.LEDGER_MS;
+      const earliestSubmitAt = plantTimeMs + minGap * this.LEDGER_MS;
+
+      if (idealSubmitAt <= deadlineAt) {
+        plannedSubmitAt = idealSubmitAt;
+        reason = 'max_gap';
+      } else if (earliestSubmitAt <= deadlineAt) {
+        plannedSubmitAt = deadlineAt;
+        reason = 'deadline';
+      } else {
+        plannedSubmitAt = earliestSubmitAt;
+        reason = 'min_gap';
+      }
+
+      targetGap = Math.max(minGap, Math.floor((plannedSubmitAt - plantTimeMs) / this.LEDGER_MS));
+    } else {
+      // No gap bounds known - keep the fixed delay after the block timestamp
+      plannedSubmitAt = Math.min(
+        input.blockTimeMs + this.fallbackDelaySeconds * 1000 + this.estimatedMiningMs,
+        deadlineAt
+      );
+      reason = 'fallback_delay';
+    }
+
+    const plan: WorkPlan = {
+      farmerId: input.farmerId,
+      blockIndex: input.blockIndex,
+      plantLedger: input.plantLedger,
+      targetGap,
+      plannedWorkLedger: input.plantLedger !== undefined && targetGap !== undefined
+        ? input.plantLedger + targetGap
+        : undefined,
+      plannedStartAt: Math.max(now, plannedSubmitAt - this.estimatedMiningMs),
+      plannedSubmitAt,
+      deadlineAt,
+      expectedNextBlockAt,
+      reason,
+      status: 'scheduled'
+    };
+
+    this.trackPlan(plan);
+
+    logger.debug(`Work planned for farmer ${JSON.stringify({
+      farmer_id: plan.farmerId,
+      block_index: plan.blockIndex,
+      reason: plan.reason,
+      target_gap: plan.targetGap,
+      planned_work_ledger: plan.plannedWorkLedger,
+      planned_start_ist: formatISTTime(new Date(plan.plannedStartAt)),
+      planned_submit_ist: formatISTTime(new Date(plan.plannedSubmitAt)),
+      deadline_ist: formatISTTime(new Date(plan.deadlineAt))
+    })}`);
+
+    return plan;
+  }
+
+  /**
+   * Mark a plan as started and mining
+   */
+  markStarted(plan: WorkPlan): void {
+    plan.status = 'mining';
+    plan.actualStartAt = Date.now();
+  }
+
+  /**
+   * Mark mining as finished and feed its duration into the mining estimate
+   */
+  markMined(plan: WorkPlan): void {
+    if (plan.actualStartAt === undefined) {
+      return;
+    }
+
+    // Exponential moving average of recent mining durations
+    const miningTimeMs = Date.now() - plan.actualStartAt;
+    this.estimatedMiningMs = Math.round(this.estimatedMiningMs * 0.8 + miningTimeMs * 0.2);
+  }
+
+  /**
+   * Mark a plan as submitting; returns the actual submit time
+   */
+  markSubmitting(plan: WorkPlan): number {
+    plan.status = 'submitting';
+    plan.actualSubmitAt = Date.now();
+    return plan.actualSubmitAt;
+  }
+
+  /**
+   * Mark a plan as finished and report planned vs actual timing
+   */
+  markCompleted(plan: WorkPlan): WorkScheduleReport {
+    plan.status = 'completed';
+    const report = this.toReport(plan);
+
+    logger.info(`Work schedule outcome ${JSON.stringify({
+      farmer_id: plan.farmerId,
+      block_index: plan.blockIndex,
+      reason: plan.reason,
+      planned_submit_ist: formatISTTime(new Date(plan.plannedSubmitAt)),
+      actual_submit_ist: plan.actualSubmitAt ? formatISTTime(new Date(plan.actualSubmitAt)) : null,
+      submit_drift_ms: report.submitDriftMs,
+      met_deadline: report.metDeadline
+    })}`);
+
+    return report;
+  }
+
+  /**
+   * Time to hold a finished result so submission lands at the planned moment (never past the deadline)
+   */
+  getSubmitHoldMs(plan: WorkPlan): number {
+    const target = Math.min(plan.plannedSubmitAt, plan.deadlineAt);
+    return Math.max(0, target - Date.now());
+  }
+
+  /**
+   * Planned vs actual timing for tracked farmers
+   */
+  getScheduleStatus() {
+    return {
+      estimatedMiningMs: this.estimatedMiningMs,
+      submitMarginMs: this.SUBMIT_MARGIN_MS,
+      plans: Array.from(this.plans.values()).map(plan => ({
+        farmerId: plan.farmerId,
+        blockIndex: plan.blockIndex,
+        status: plan.status,
+        ...this.toReport(plan)
+      }))
+    };
+  }
+
+  private toReport(plan: WorkPlan): WorkScheduleReport {
+    return {
+      plannedStartAt: new Date(plan.plannedStartAt).toISOString(),
+      plannedSubmitAt: new Date(plan.plannedSubmitAt).toISOString(),
+      actualStartAt: plan.actualStartAt ? new Date(plan.actualStartAt).toISOString() : undefined,
+      actualSubmitAt: plan.actualSubmitAt ? new Date(plan.actualSubmitAt).toISOString() : undefined,
+      deadlineAt: new Date(plan.deadlineAt).toISOString(),
+      targetGap: plan.targetGap,
+      plannedWorkLedger: plan.plannedWorkLedger,
+      reason: plan.reason,
+      submitDriftMs: plan.actualSubmitAt ? plan.actualSubmitAt - plan.plannedSubmitAt : undefined,
+      metDeadline: plan.actualSubmitAt ? plan.actualSubmitAt <= plan.deadlineAt : undefined
+    };
+  }
+
+  private trackPlan(plan: WorkPlan): void {
+    this.plans.set(`${plan.blockIndex}:${plan.farmerId}`, plan);
+
+    // Keep only the most recent plans (Map preserves insertion order)
+    while (this.plans.size > this.MAX_TRACKED_PLANS) {
+      const oldestKey = this.plans.keys().next().value;
+      if (oldestKey === undefined) {
+        break;
+      }
+      this.plans.delete(oldestKey);
+    }
+  }
+}
@@ -1,52 +1,124 @@
 // Work Submission Service for KALE Pool Mining Pooler
-// Direct smart contract work submission using Launchtube (like reference implementation)
+// Direct smart contract work submission using Launchtube (like reference implementation), with direct RPC as fallback
 
-import { Contract, Address, nativeToScVal } from '@stellar/stellar-sdk';
+import { Contract, Address, nativeToScVal, scValToNative, xdr, type Transaction } from '@stellar/stellar-sdk';
+import { Durability } from '@stellar/stellar-sdk/rpc';
 import { AssembledTransaction } from '@stellar/stellar-sdk/contract';
 import { Client } from 'kale-sc-sdk';
+import { Client as TractorClient } from 'kale-tractor-sdk';
+import { rpcGateway } from './rpc-gateway';
+import { rpcSubmitter } from './rpc-submitter';
+import { keyCustody } from './key-custody';
+import { transactionTracker, TransactionNotConfirmedError, type TransactionEscalation } from './transaction-tracker';
+import { feeManager, FeeCapExceededError, type FeeQuote, type PricedTransaction } from './fee-manager';
 import Config from '../../../Shared/config';
 import { blockMonitorLogger as logger } from '../../../Shared/utils/logger';
+import { classifyFailure } from './contract-errors';
+import { KaleContractError, type FailureReason } from '../../../Shared/types/blockchain';
+import type { KaleBlock } from '../types/block-types';
+import type { Signer } from './key-custody';
 
 // Work submission interfaces
 export interface WorkSubmissionRequest {
   farmerPublicKey: string;
   hash: Uint8Array;
   nonce: bigint;
+  blockIndex?: number; // Recorded with the tracked transaction, and counted against the per-block fee cap
+  deadlineAt?: number; // Block deadline (unix ms) - work sent via RPC and still pending near it is fee-bumped
+  signer?: Signer; // Sources a direct RPC submission (the pool fee payer is used otherwise)
+}
+
+export interface PlantSubmissionRequest {
+  signer: Signer; // Authorizes the plant for the farmer (see KeyCustody)
+  amount: bigint;
 }
 
 export interface WorkSubmissionResult {
   success: boolean;
   transactionHash?: string;
+  gap?: number; // Gap returned by the contract's work() (confirmed result, else simulation)
+  ledger?: number; // Ledger the work landed in, else the one simulation expected
+  confirmedLedger?: number; // Ledger the transaction was confirmed in
   error?: string;
+  failureReason?: FailureReason;
   details?: any;
 }
 
+export interface HarvestSubmissionResult {
+  success: boolean;
+  transactionHash?: string;
+  rewards?: bigint[]; // i128 reward per harvested pail, in request order
+  notReady?: boolean; // Block still open - harvest again later
+  final?: boolean; // Block or pail entry gone - the pail can never be harvested
+  errorCode?: number; // Contract error code from simulation, if any
+  error?: string;
+  failureReason?: FailureReason;
+}
+
+// A submitted transaction, whichever path carried it
+interface SubmittedTransaction {
+  transactionHash?: string;
+  submittedVia: 'launchtube' | 'rpc';
+  [key: string]: any; // Launchtube response fields
+}
+
+// A submitted transaction the tracker saw succeed
+interface ConfirmedTransaction extends SubmittedTransaction {
+  transactionHash: string;
+  ledger: number;
+  result?: unknown; // Decoded contract return value
+}
+
+// Who and what a submission is for (signer sources a direct RPC submission)
+interface SubmissionContext {
+  signer?: Signer;
+  farmer?: string;
+  blockIndex?: number;
+  deadlineAt?: number;
+  attempt?: number;
+}
+
+// A sent transaction, with how to replace it if it stays pending (RPC only - Launchtube owns its envelopes)
+interface SentTransaction {
+  sent: SubmittedTransaction;
+  replace?: (transactionHashes: string[]) => Promise<string | undefined>;
+}
+
+// Harvest errors that clear up once the block closes
+const HARVEST_NOT_READY_ERRORS = [KaleContractError.HarvestNotReady];
+
+// Harvest errors that never clear up: the block's or pail's temporary entry has expired
+const HARVEST_FINAL_ERRORS = [KaleContractError.BlockMissing, KaleContractError.PailMissing];
+
 /**
  * Work Submission Service - Direct smart contract interaction via Launchtube
  * Following the same pattern as the reference kale-farmer implementation
  */
 export class WorkSubmissionService {
-  private contract: Client;
+  // Contract clients per RPC endpoint - calls go through the shared RpcGateway
+  private contracts = new Map<string, Client>();
+  private tractors = new Map<string, TractorClient>();
   private launchtubeUrl: string;
   private launchtubeJwt: string;
+  private feePayer: Signer | null; // Pool account that sources RPC submissions without a farmer signer
+
+  private readonly POLICY = Config.SUBMISSION.POLICY;
 
   constructor() {
-    // Initialize contract client (same as reference)
-    this.contract = new Client({
-      rpcUrl: Config.STELLAR.RPC_URL,
-      contractId: Config.STELLAR.CONTRACT_ID,
-      networkPassphrase: Config.STELLAR.NETWORK_PASSPHRASE,
-    });
-    
     // Get Launchtube configuration from shared config
     this.launchtubeUrl = Config.LAUNCHTUBE.URL;
     this.launchtubeJwt = Config.LAUNCHTUBE.JWT;
+    this.feePayer = Config.SUBMISSION.FEE_PAYER_KEY
+      ? keyCustody.signerFor(Config.SUBMISSION.FEE_PAYER_KEY, Config.SUBMISSION.FEE_PAYER_ADDRESS)
+      : null;
     
     logger.info('Work Submission Service initialized', {
-      rpc_url: Config.STELLAR.RPC_URL,
+      rpc_urls: Config.STELLAR.RPC_URLS,
       contract_id: Config.STELLAR.CONTRACT_ID,
       network: Config.STELLAR.NETWORK,
-      launchtube_url: this.launchtubeUrl
+      launchtube_url: this.launchtubeUrl,
+      submission_policy: this.POLICY,
+      fee_payer: this.feePayer?.publicKey
     });
   }
 
@@ -61,7 +133,7 @@ export class WorkSubmissionService {
       try {
         const { farmerPublicKey, hash, nonce } = request;
         
-        logger.info(`Submitting work to smart contract via Launchtube (attempt ${attempt}/${maxRetries})`, {
+        logger.info(`Submitting work to smart contract (attempt ${attempt}/${maxRetries})`, {
           farmer: farmerPublicKey,
           nonce: nonce.toString(),
           hash: Buffer.from(hash.subarray(0, 4)).toString('hex') + '...',
@@ -70,18 +142,20 @@ export class WorkSubmissionService {
         });
 
         // Build work transaction (same as reference)
-        const transaction = await this.contract.work({
+        const transaction = await this.withContract('work', contract => contract.work({
           farmer: farmerPublicKey,
           hash: Buffer.from(hash),
           nonce: nonce,
-        });
+        }));
 
         // Check for simulation errors (same as reference)
         if (transaction.simulation && 'error' in transaction.simulation) {
           const errorMessage = transaction.simulation.error;
+          const failureReason = classifyFailure(errorMessage, { events: transaction.simulation.events });
           logger.error('Work simulation failed', undefined, {
             farmer: farmerPublicKey,
             error: errorMessage,
+            failure_reason: failureReason,
             nonce: nonce.toString(),
             attempt: attempt
           });
@@ -89,44 +163,57 @@ export class WorkSubmissionService {
           return {
             success: false,
             error: `Simulation failed: ${errorMessage}`,
+            failureReason,
             details: { simulation_error: errorMessage, attempts: attempt }
           };
         }
 
-        // Submit via Launchtube with retry logic
-        const result = await this.sendViaLaunchtubeWithRetry(transaction, attempt);
+        // Submit per the submission policy (Launchtube and/or direct RPC)
+        const result = await this.submitTransaction('work', transaction, {
+          signer: request.signer,
+          farmer: farmerPublicKey,
+          blockIndex: request.blockIndex,
+          deadlineAt: request.deadlineAt,
+          attempt
+        });
         
-        logger.info('Work submitted successfully via Launchtube', {
+        logger.info(`Work submitted successfully via ${result.submittedVia}`, {
           farmer: farmerPublicKey,
           nonce: nonce.toString(),
           transaction_hash: result.transactionHash,
+          ledger: result.ledger,
           contract: Config.STELLAR.CONTRACT_ID,
           attempts: attempt
         });
 
+        const simulated = this.readSimulatedWork(transaction);
         return {
           success: true,
           transactionHash: result.transactionHash,
+          gap: typeof result.result === 'number' ? result.result : simulated.gap,
+          ledger: result.ledger,
+          confirmedLedger: result.ledger,
           details: { ...result, attempts: attempt }
         };
 
       } catch (error) {
         const errorMessage = (error as Error).message;
-        const isRetryableError = this.isRetryableError(errorMessage);
+        const failureReason = classifyFailure(error);
         
         logger.error(`Work submission failed (attempt ${attempt}/${maxRetries})`, error as Error, {
           farmer: request.farmerPublicKey,
           nonce: request.nonce.toString(),
           contract: Config.STELLAR.CONTRACT_ID,
           attempt: attempt,
-          is_retryable: isRetryableError
+          failure_reason: failureReason
         });
 
         // If this is the last attempt or error is not retryable, return failure
-        if (attempt === maxRetries || !isRetryableError) {
+        if (attempt === maxRetries || !failureReason.retryable) {
           return {
             success: false,
             error: errorMessage,
+            failureReason,
             details: { error, attempts: attempt, final_attempt: true }
           };
         }
@@ -147,16 +234,457 @@ export class WorkSubmissionService {
     return {
       success: false,
       error: 'Maximum retry attempts exceeded',
+      failureReason: classifyFailure('Maximum retry attempts exceeded'),
       details: { attempts: maxRetries }
     };
   }
 
+  /**
+   * Plant a farmer into the current block (the farmer's signer signs the auth entry, and sources an RPC submission)
+   */
+  async submitPlant(request: PlantSubmissionRequest): Promise<WorkSubmissionResult> {
+    const farmerPublicKey = request.signer.publicKey;
+
+    try {
+      logger.info('Submitting plant to smart contract', {
+        farmer: farmerPublicKey,
+        amount: request.amount.toString(),
+        contract: Config.STELLAR.CONTRACT_ID
+      });
+
+      const transaction = await this.withContract('plant', contract => contract.plant({
+        farmer: farmerPublicKey,
+        amount: request.amount
+      }));
+
+      if (transaction.simulation && 'error' in transaction.simulation) {
+        const errorMessage = transaction.simulation.error;
+        const failureReason = classifyFailure(errorMessage, { events: transaction.simulation.events });
+        logger.error('Plant simulation failed', undefined, {
+          farmer: farmerPublicKey,
+          error: errorMessage,
+          failure_reason: failureReason
+        });
+        return {
+          success: false,
+          error: `Simulation failed: ${errorMessage}`,
+          failureReason,
+          details: { simulation_error: errorMessage }
+        };
+      }
+
+      // Launchtube (or the RPC source account) is the transaction source, so the farmer authorizes via a signed auth entry
+      await transaction.signAuthEntries({
+        address: farmerPublicKey,
+        signAuthEntry: (authEntry: string) => request.signer.signAuthEntry(authEntry)
+      });
+
+      const result = await this.submitTransaction('plant', transaction, { signer: request.signer, farmer: farmerPublicKey });
+
+      logger.info(`Plant submitted successfully via ${result.submittedVia}`, {
+        farmer: farmerPublicKey,
+        transaction_hash: result.transactionHash,
+        ledger: result.ledger
+      });
+
+      return {
+        success: true,
+        transactionHash: result.transactionHash,
+        ledger: result.ledger,
+        confirmedLedger: result.ledger,
+        details: result
+      };
+
+    } catch (error) {
+      const errorMessage = (error as Error).message;
+      const failureReason = classifyFailure(error);
+      logger.error('Plant submission failed', error as Error, {
+        farmer: farmerPublicKey,
+        failure_reason: failureReason
+      });
+      return {
+        success: false,
+        error: errorMessage,
+        failureReason,
+        details: { error }
+      };
+    }
+  }
+
+  /**
+   * Harvest one pail through the KALE contract (no farmer signature needed)
+   */
+  async submitHarvest(farmerPublicKey: string, blockIndex: number): Promise<HarvestSubmissionResult> {
+    try {
+      const transaction = await this.withContract('harvest', contract => contract.harvest({
+        farmer: farmerPublicKey,
+        index: blockIndex
+      }));
+
+      if (transaction.simulation && 'error' in transaction.simulation) {
+        return this.harvestSimulationFailure(transaction.simulation, farmerPublicKey, [blockIndex], true);
+      }
+
+      const simulatedReward = BigInt(transaction.result);
+
+      // Nothing to collect - skip the transaction fee
+      if (simulatedReward === 0n) {
+        return { success: true, rewards: [0n] };
+      }
+
+      const result = await this.submitTransaction('harvest', transaction, { farmer: farmerPublicKey, blockIndex });
+      const reward = typeof result.result === 'string' ? BigInt(result.result) : simulatedReward;
+
+      logger.info(`Harvest submitted via ${result.submittedVia}`, {
+        farmer: farmerPublicKey,
+        block_index: blockIndex,
+        reward: reward.toString(),
+        transaction_hash: result.transactionHash
+      });
+
+      return { success: true, transactionHash: result.transactionHash, rewards: [reward] };
+
+    } catch (error) {
+      const failureReason = classifyFailure(error);
+      logger.error('Harvest submission failed', error as Error, {
+        farmer: farmerPublicKey,
+        block_index: blockIndex,
+        failure_reason: failureReason
+      });
+      return {
+        success: false,
+        final: failureReason.contractError !== undefined && HARVEST_FINAL_ERRORS.includes(failureReason.contractError.code),
+        error: (error as Error).message,
+        failureReason
+      };
+    }
+  }
+
+  /**
+   * Harvest several of a farmer's pails in one transaction through kale-tractor
+   */
+  async submitTractorHarvest(farmerPublicKey: string, pails: number[]): Promise<HarvestSubmissionResult> {
+    try {
+      const transaction = await rpcGateway.call('tractor_harvest', endpoint => this.getTractor(endpoint.url).harvest({
+        farmer: farmerPublicKey,
+        pails
+      }));
+
+      if (transaction.simulation && 'error' in transaction.simulation) {
+        return this.harvestSimulationFailure(transaction.simulation, farmerPublicKey, pails, false);
+      }
+
+      const result = await this.submitTransaction('tractor_harvest', transaction, { farmer: farmerPublicKey });
+      const confirmedRewards = Array.isArray(result.result) ? result.result as string[] : transaction.result;
+      const rewards = confirmedRewards.map(reward => BigInt(reward));
+
+      logger.info(`Tractor harvest submitted via ${result.submittedVia}`, {
+        farmer: farmerPublicKey,
+        pails,
+        total_reward: rewards.reduce((total, reward) => total + reward, 0n).toString(),
+        transaction_hash: result.transactionHash
+      });
+
+      return { success: true, transactionHash: result.transactionHash, rewards };
+
+    } catch (error) {
+      const failureReason = classifyFailure(error, { kaleContract: false });
+      logger.error('Tractor harvest submission failed', error as Error, {
+        farmer: farmerPublicKey,
+        pails,
+        failure_reason: failureReason
+      });
+      return { success: false, error: (error as Error).message, failureReason };
+    }
+  }
+
+  /**
+   * Build (and simulate) a KALE contract call on the healthiest RPC endpoint
+   */
+  private withContract<T>(operation: string, fn: (contract: Client) => Promise<T>): Promise<T> {
+    return rpcGateway.call(operation, endpoint => fn(this.getContract(endpoint.url)));
+  }
+
+  private getContract(rpcUrl: string): Client {
+    let contract = this.contracts.get(rpcUrl);
+    if (!contract) {
+      // Same client setup as the reference, one per endpoint
+      contract = new Client({
+        rpcUrl,
+        contractId: Config.STELLAR.CONTRACT_ID,
+        networkPassphrase: Config.STELLAR.NETWORK_PASSPHRASE,
+        allowHttp: rpcUrl.startsWith('http://')
+      });
+      this.contracts.set(rpcUrl, contract);
+    }
+    return contract;
+  }
+
+  private getTractor(rpcUrl: string): TractorClient {
+    if (!Config.HARVEST.TRACTOR_CONTRACT_ID) {
+      throw new Error('TRACTOR_CONTRACT_ID is not configured');
+    }
+
+    let tractor = this.tractors.get(rpcUrl);
+    if (!tractor) {
+      tractor = new TractorClient({
+        rpcUrl,
+        contractId: Config.HARVEST.TRACTOR_CONTRACT_ID,
+        networkPassphrase: Config.STELLAR.NETWORK_PASSPHRASE,
+        allowHttp: rpcUrl.startsWith('http://')
+      });
+      this.tractors.set(rpcUrl, tractor);
+    }
+    return tractor;
+  }
+
+  /**
+   * Harvest simulation error (kaleContract: false for kale-tractor, whose error codes are its own)
+   */
+  private harvestSimulationFailure(simulation: any, farmerPublicKey: string, pails: number[], kaleContract: boolean): HarvestSubmissionResult {
+    const errorMessage: string = simulation.error;
+    const failureReason = classifyFailure(errorMessage, { events: simulation.events, kaleContract });
+    const match = errorMessage.match(/Error\(Contract, #(\d+)\)/);
+    const errorCode = match ? Number(match[1]) : undefined;
+    const notReady = kaleContract && errorCode !== undefined && HARVEST_NOT_READY_ERRORS.includes(errorCode);
+    const final = kaleContract && errorCode !== undefined && HARVEST_FINAL_ERRORS.includes(errorCode);
+
+    logger.warn('Harvest simulation failed', {
+      farmer: farmerPublicKey,
+      pails,
+      error_code: errorCode,
+      failure_reason: failureReason,
+      not_ready: notReady,
+      final
+    });
+
+    return {
+      success: false,
+      notReady,
+      final,
+      errorCode,
+      error: `Simulation failed: ${errorMessage}`,
+      failureReason
+    };
+  }
+
+  /**
+   * Current farm index from contract instance storage
+   */
+  async getFarmIndex(): Promise<number> {
+    const response = await rpcGateway.call('get_farm_index', ({ server }) => server.getContractData(
+      Config.STELLAR.CONTRACT_ID,
+      xdr.ScVal.scvLedgerKeyContractInstance()
+    ));
+
+    let index = 0;
+    response.val.contractData().val().instance().storage()?.forEach((entry) => {
+      const key: string = scValToNative(entry.key())[0];
+      if (key === 'FarmIndex') {
+        index = entry.val().u32();
+      }
+    });
+
+    return index;
+  }
+
+  /**
+   * Gap and ledger from the work() simulation (simulation runs as the next ledger)
+   */
+  private readSimulatedWork(transaction: any): { gap?: number; ledger?: number } {
+    try {
+      const simulation = transaction.simulation;
+      const ledger = simulation && 'latestLedger' in simulation ? simulation.latestLedger + 1 : undefined;
+      const gap = typeof transaction.result === 'number' ? transaction.result : undefined;
+      return { gap, ledger };
+    } catch (error) {
+      logger.warn('Could not read work simulation result', {
+        error: (error as Error).message
+      });
+      return {};
+    }
+  }
+
+  /**
+   * Read a KALE block (min/max and normalized totals) from contract storage
+   */
+  async getBlock(blockIndex: number): Promise<KaleBlock | undefined> {
+    try {
+      const response = await rpcGateway.call('get_block', ({ server }) => server.getContractData(
+        Config.STELLAR.CONTRACT_ID,
+        xdr.ScVal.scvVec([
+          xdr.ScVal.scvSymbol('Block'),
+          xdr.ScVal.scvU32(blockIndex)
+        ]),
+        Durability.Temporary
+      ));
+
+      return {
+        index: blockIndex,
+        ...scValToNative(response.val.contractData().val())
+      } as KaleBlock;
+    } catch (error) {
+      logger.warn('Failed to read block from contract', {
+        block_index: blockIndex,
+        error: (error as Error).message
+      });
+      return undefined;
+    }
+  }
+
+  /**
+   * Price a simulated transaction for its operation, submit it per SUBMISSION_POLICY (Launchtube first, RPC first, or
+   * both raced) and wait for the TransactionTracker to see it succeed. Direct RPC needs a source account (the context's
+   * signer, else the pool fee payer); without one only Launchtube is used.
+   */
+  private async submitTransaction(operation: string, transaction: any, context: SubmissionContext = {}): Promise<ConfirmedTransaction> {
+    const source = context.signer ?? this.feePayer;
+    const priced = await feeManager.price(operation, transaction.built!.toXDR());
+
+    const viaLaunchtube = () => this.sendAndConfirm(operation, context, priced.quote, async () => ({
+      sent: { ...await this.sendViaLaunchtubeWithRetry(priced, context.attempt ?? 1), submittedVia: 'launchtube' }
+    }));
+
+    if (!source || this.POLICY === 'launchtube_only') {
+      return viaLaunchtube();
+    }
+
+    const viaRpc = () => this.sendAndConfirm(operation, context, priced.quote, async () => {
+      const { signed, ...sent } = await rpcSubmitter.submit(priced.transaction, source);
+      return { sent, replace: hashes => this.feeBump(operation, context, priced.quote, signed, source, hashes) };
+    });
+
+    switch (this.POLICY) {
+      case 'rpc_first':
+        return this.withFallback(operation, viaRpc, viaLaunchtube);
+      case 'race':
+        // Both copies are sent; the slower one fails on-chain (or lands as a no-op) once the first is confirmed
+        try {
+          return await Promise.any([viaLaunchtube(), viaRpc()]);
+        } catch (error) {
+          const [launchtubeError, rpcError] = (error as AggregateError).errors as Error[];
+          throw new Error(`${launchtubeError?.message}; RPC: ${rpcError?.message}`);
+        }
+      default:
+        return this.withFallback(operation, viaLaunchtube, viaRpc);
+    }
+  }
+
+  /**
+   * Reserve the quoted fee against the spending caps, send, and confirm; the reservation is settled to the fee charged
+   */
+  private async sendAndConfirm(
+    operation: string,
+    context: SubmissionContext,
+    quote: FeeQuote,
+    send: () => Promise<SentTransaction>
+  ): Promise<ConfirmedTransaction> {
+    const reservation = feeManager.reserve({ operation, blockIndex: context.blockIndex, maxFee: quote.maxFee });
+
+    let sentTransaction: SentTransaction;
+    try {
+      sentTransaction = await send();
+    } catch (error) {
+      feeManager.release(reservation);
+      throw error;
+    }
+
+    const { sent, replace } = sentTransaction;
+    // Launchtube responds with the (fee bump) hash it submitted
+    const transactionHash = sent.transactionHash ?? sent.hash;
+    if (typeof transactionHash !== 'string') {
+      // Sent but untraceable - the reservation stays counted at its maximum
+      throw new Error(`${sent.submittedVia} response carried no transaction hash - outcome unknown`);
+    }
+    feeManager.attach(reservation, transactionHash, sent.submittedVia);
+
+    const hashes = [transactionHash];
+    const escalation: TransactionEscalation | undefined = replace && context.deadlineAt !== undefined
+      ? { at: context.deadlineAt - Config.FEES.BUMP_LEAD_MS, replace: () => replace(hashes) }
+      : undefined;
+
+    const tracked = await transactionTracker.trackUntilFinal({
+      hash: transactionHash,
+      operation,
+      submittedVia: sent.submittedVia,
+      farmer: context.farmer,
+      blockIndex: context.blockIndex
+    }, undefined, escalation);
+
+    for (const hash of hashes) {
+      feeManager.settle(hash, transactionTracker.get(hash)?.feeCharged);
+    }
+
+    if (tracked.status !== 'SUCCESS') {
+      throw new TransactionNotConfirmedError(tracked);
+    }
+    return { ...sent, transactionHash: tracked.hash, ledger: tracked.ledger!, result: tracked.result };
+  }
+
+  /**
+   * Fee-bump an RPC transaction still pending near the block deadline (the bump hash is added to hashes)
+   */
+  private async feeBump(
+    operation: string,
+    context: SubmissionContext,
+    quote: FeeQuote,
+    signed: Transaction,
+    feeSource: Signer,
+    hashes: string[]
+  ): Promise<string | undefined> {
+    const bump = await feeManager.quoteBump(quote);
+    if (!bump) {
+      return undefined;
+    }
+
+    const reservation = feeManager.reserve({ operation, blockIndex: context.blockIndex, maxFee: bump.maxFee, feeBump: true });
+    try {
+      const transactionHash = await rpcSubmitter.feeBump(signed, feeSource, bump);
+      feeManager.attach(reservation, transactionHash, 'rpc');
+      hashes.push(transactionHash);
+      return transactionHash;
+    } catch (error) {
+      feeManager.release(reservation);
+      throw error;
+    }
+  }
+
+  private async withFallback(
+    operation: string,
+    primary: () => Promise<ConfirmedTransaction>,
+    fallback: () => Promise<ConfirmedTransaction>
+  ): Promise<ConfirmedTransaction> {
+    try {
+      return await primary();
+    } catch (primaryError) {
+      // The contract itself rejected it, or the fee caps did - another path would only pay (or be refused) again
+      if (primaryError instanceof TransactionNotConfirmedError && primaryError.transaction.status === 'FAILED') {
+        throw primaryError;
+      }
+      if (primaryError instanceof FeeCapExceededError) {
+        throw primaryError;
+      }
+
+      logger.warn('Primary submission path failed - trying fallback', {
+        operation,
+        policy: this.POLICY,
+        error: (primaryError as Error).message
+      });
+
+      try {
+        return await fallback();
+      } catch (fallbackError) {
+        throw new Error(`${(primaryError as Error).message}; fallback: ${(fallbackError as Error).message}`);
+      }
+    }
+  }
+
   /**
    * Send transaction via Launchtube with retry support
    */
-  private async sendViaLaunchtubeWithRetry(transaction: any, attempt: number): Promise<any> {
+  private async sendViaLaunchtubeWithRetry(priced: PricedTransaction, attempt: number): Promise<any> {
     try {
-      return await this.sendViaLaunchtube(transaction);
+      return await this.sendViaLaunchtube(priced);
     } catch (error) {
       const errorMessage = (error as Error).message;
       
@@ -172,34 +700,16 @@ export class WorkSubmissionService {
     }
   }
 
-  /**
-   * Check if an error is retryable
-   */
-  private isRetryableError(errorMessage: string): boolean {
-    const retryableErrors = [
-      'NOT_FOUND',           // Transaction not found in ledger
-      'timeout',             // Network timeout
-      'ECONNRESET',          // Connection reset
-      'ENOTFOUND',           // DNS resolution failed
-      'ETIMEDOUT',           // Request timeout
-      'fetch failed',        // General fetch failure
-      'network error'        // Network related errors
-    ];
-    
-    return retryableErrors.some(error => 
-      errorMessage.toLowerCase().includes(error.toLowerCase())
-    );
-  }
-
   /**
    * Send transaction via Launchtube (following reference implementation)
    */
-  private async sendViaLaunchtube(transaction: any): Promise<any> {
+  private async sendViaLaunchtube(priced: PricedTransaction): Promise<any> {
     const data = new FormData();
     
-    // Convert to XDR (same as reference)
-    const xdr = transaction.built!.toXDR();
+    // Convert to XDR (same as reference), with the quoted fee as Launchtube's fee
+    const xdr = priced.transaction.toXDR();
     data.set('xdr', xdr);
+    data.set('fee', priced.quote.maxFee.toString());
 
     // Submit to Launchtube (same as reference)
     const response = await fetch(this.launchtubeUrl, {
@@ -221,9 +731,11 @@ export class WorkSubmissionService {
   }
 
   /**
-   * Health check for the work submission service
+   * Health check for the work submission service (Launchtube reachable, or the RPC fallback usable)
    */
   async isHealthy(): Promise<boolean> {
+    const rpcUsable = this.POLICY !== 'launchtube_only' && this.feePayer !== null && rpcGateway.isAvailable();
+
     try {
       // Check if we can reach Launchtube
       const response = await fetch(this.launchtubeUrl + '/health', {
@@ -231,10 +743,10 @@ export class WorkSubmissionService {
           authorization: `Bearer ${this.launchtubeJwt}`
         }
       });
-      return response.ok;
+      return response.ok || rpcUsable;
     } catch (error) {
       logger.error('Work submission service health check failed', error as Error);
-      return false;
+      return rpcUsable;
     }
   }
 }
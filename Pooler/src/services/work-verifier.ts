@@ -0,0 +1,80 @@
+// Work Verifier for KALE Pool Mining Pooler
+// Recomputes a miner's claimed nonce/hash before it is submitted, so corrupt or under-target output never costs fees
+
+import { generateKaleHash } from '../../../Shared/utils/kale-hash';
+import { countLeadingZeros } from '../../../Shared/utils/kale-scoring';
+import type { FailureReason } from '../../../Shared/types/blockchain';
+
+export type WorkRejection =
+  | 'MALFORMED_OUTPUT'     // Nonce or hash not in the expected shape
+  | 'HASH_MISMATCH'        // Hash is not keccak256(index, nonce, entropy, farmer)
+  | 'ZEROS_BELOW_MINIMUM'; // Genuine hash, but fewer leading zeros than the block's min_zeros
+
+export interface MinedWork {
+  farmerHex: string; // Raw 32-byte farmer public key (hex)
+  blockIndex: number;
+  entropy: string; // 32-byte entropy (hex)
+  nonce: number;
+  hash: string; // Claimed hash (hex)
+}
+
+export interface VerifiedWork {
+  hash: string; // Recomputed hash (lowercase hex)
+  zeros: number;
+}
+
+/**
+ * Miner output that failed verification and was not submitted
+ */
+export class MinedWorkRejectedError extends Error {
+  constructor(readonly rejection: WorkRejection, message: string) {
+    super(`Mined work rejected (${rejection}): ${message}`);
+    this.name = 'MinedWorkRejectedError';
+  }
+
+  get failureReason(): FailureReason {
+    return {
+      category: 'miner',
+      code: this.rejection,
+      // More searching can reach the target; a miner that hashes wrongly will do so again
+      retryable: this.rejection === 'ZEROS_BELOW_MINIMUM',
+      message: this.message
+    };
+  }
+}
+
+const HASH_PATTERN = /^[0-9a-f]{64}$/i;
+
+/**
+ * Recompute the KALE hash for the claimed nonce and check it matches and meets min_zeros (when known).
+ * Throws MinedWorkRejectedError otherwise.
+ */
+export function verifyMinedWork(work: MinedWork, minZeros?: number): VerifiedWork {
+  if (!Number.isSafeInteger(work.nonce) || work.nonce < 0) {
+    throw new MinedWorkRejectedError('MALFORMED_OUTPUT', `nonce ${String(work.nonce)} is not a non-negative integer`);
+  }
+  if (typeof work.hash !== 'string' || !HASH_PATTERN.test(work.hash)) {
+    throw new MinedWorkRejectedError('MALFORMED_OUTPUT', `hash ${JSON.stringify(work.hash)} is not 32 bytes of hex`);
+  }
+
+  const recomputed = Buffer.from(generateKaleHash(
+    work.blockIndex,
+    work.nonce,
+    Buffer.from(work.entropy, 'hex'),
+    Buffer.from(work.farmerHex, 'hex')
+  )).toString('hex');
+
+  if (recomputed !== work.hash.toLowerCase()) {
+    throw new MinedWorkRejectedError(
+      'HASH_MISMATCH',
+      `nonce ${work.nonce} hashes to ${recomputed.substring(0, 16)}..., miner claimed ${work.hash.substring(0, 16)}...`
+    );
+  }
+
+  const zeros = countLeadingZeros(recomputed);
+  if (minZeros !== undefined && zeros < minZeros) {
+    throw new MinedWorkRejectedError('ZEROS_BELOW_MINIMUM', `hash has ${zeros} leading zeros, block min_zeros is ${minZeros}`);
+  }
+
+  return { hash: recomputed, zeros };
+}
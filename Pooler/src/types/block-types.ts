@@ -21,10 +21,26 @@ export interface KalePail {
   zeros: bigint | undefined;
 }
 
+export interface FarmState {
+  index: number;
+  paused: boolean;
+  wasmHash: string | null; // Hex hash of the contract's installed wasm
+}
+
+export type FarmStateEvent = 'farm_paused' | 'farm_resumed' | 'contract_upgraded';
+
+export interface FarmStateChange {
+  event: FarmStateEvent;
+  previous: FarmState | null;
+  current: FarmState;
+  detectedAt: Date;
+}
+
 export interface ContractData {
   index: number;
   block: KaleBlock | undefined;
   pail: KalePail | undefined;
+  farm?: FarmState;
 }
 
 export interface BlockDiscoveryEvent {
@@ -34,6 +50,7 @@ export interface BlockDiscoveryEvent {
   entropy: string;
   timestamp: Date;
   blockAge: number; // seconds since block creation
+  backfilled?: boolean; // skipped by discovery and fetched afterwards
 }
 
 export interface PoolerState {
@@ -41,6 +58,9 @@ export interface PoolerState {
   lastBlockTimestamp: Date | null;
   isMonitoring: boolean;
   consecutiveMissedBlocks: number;
+  missedBlockAlert: boolean; // consecutiveMissedBlocks went past maxMissedBlocks
+  totalBlocksBackfilled: number;
+  totalBlocksLost: number; // skipped and already gone from temporary storage
   totalBlocksDiscovered: number;
   startTime: Date;
   lastNotificationSent: Date | null;
@@ -73,6 +93,7 @@ export interface BackendNotification {
     max_zeros: number;
     min_gap: number;
     max_gap: number;
+    backfilled?: boolean;
   };
   metadata: {
     discoveredAt: string;
@@ -0,0 +1,145 @@
+// Tests for the Backend payload schemas and adapters
+// Legacy payloads are adapted to v1, validated field by field, and mapped onto planting notifications
+
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { Keypair } from '@stellar/stellar-sdk';
+import PoolerService from '../src/server';
+import {
+  adaptLegacyPlantedFarmers,
+  adaptLegacyPlantingStatus,
+  isLegacyPayload,
+  plantingStatusToNotification
+} from '../src/schemas/backend-payload-adapters';
+import { poolCoordinator, type PlantingNotification } from '../src/services/pool-coordinator';
+import { requestAuth } from '../src/services/request-auth';
+
+const WALLET = Keypair.random().publicKey();
+const ENTROPY = 'ab'.repeat(32);
+
+describe('Backend payload adapters', () => {
+  test('recognise unversioned payloads as legacy', () => {
+    expect(isLegacyPayload({ blockIndex: 1 })).toBe(true);
+    expect(isLegacyPayload({ schema_version: 1 })).toBe(false);
+    expect(isLegacyPayload([])).toBe(false);
+  });
+
+  test('map a legacy planting status with nested results onto v1', () => {
+    const status = adaptLegacyPlantingStatus({
+      blockIndex: 42,
+      poolerId: 'pooler-1',
+      results: { successfulPlants: 2, failedPlants: 0, duration: 1200 },
+      blockData: { entropy: ENTROPY, timestamp: 1_800_000_000, minGap: 1, maxGap: 20 },
+      plantedFarmers: [{ farmer_id: 'farmer-a', custodial_wallet: WALLET, stakeAmount: 5000 }]
+    });
+
+    expect(status).toEqual({
+      schema_version: 1,
+      block_index: 42,
+      pooler_id: 'pooler-1',
+      successful_plants: 2,
+      failed_plants: 0,
+      duration_ms: 1200,
+      block_data: { entropy: ENTROPY, timestamp: 1_800_000_000, min_gap: 1, max_gap: 20 },
+      planted_farmers: [{ farmerId: 'farmer-a', custodialWallet: WALLET, stakeAmount: '5000' }]
+    });
+  });
+
+  test('turn a planting status into a notification only when there is work to do', () => {
+    const status = adaptLegacyPlantingStatus({
+      block_index: 42,
+      block_data: { entropy: ENTROPY, timestamp: '2027-01-15T12:00:00Z', min_gap: 1, max_gap: 20, min_zeros: 5, max_zeros: 8 },
+      planted_farmers: [{ farmerId: 'farmer-a', custodialWallet: WALLET, stakeAmount: '5000', plantLedger: 900 }]
+    });
+
+    const notification = plantingStatusToNotification(status)!;
+    expect(notification.blockTimestamp).toBe(Date.parse('2027-01-15T12:00:00Z') / 1000);
+    expect(notification.blockParams).toEqual({ minGap: 1, maxGap: 20, minZeros: 5, maxZeros: 8 });
+    expect(notification.plantedFarmers[0]).toMatchObject({ farmerId: 'farmer-a', plantLedger: 900 });
+    expect(plantingStatusToNotification({ ...status, planted_farmers: [] })).toBeUndefined();
+  });
+
+  test('leave malformed fields for the validator', () => {
+    expect(adaptLegacyPlantedFarmers({ blockIndex: 1, plantedFarmers: 'everyone' }).plantedFarmers).toBe('everyone' as any);
+  });
+});
+
+describe('Backend payload validation', () => {
+  const service = new PoolerService();
+  const app = (service as any).app;
+  const realReceive = poolCoordinator.receivePlantingNotification;
+  const received: PlantingNotification[] = [];
+
+  beforeAll(async () => {
+    poolCoordinator.receivePlantingNotification = async (notification: PlantingNotification) => {
+      received.push(notification);
+    };
+    await app.ready();
+  });
+
+  afterAll(async () => {
+    poolCoordinator.receivePlantingNotification = realReceive;
+    await app.close();
+  });
+
+  function post(path: string, payload: unknown) {
+    const body = JSON.stringify(payload);
+    return app.inject({
+      method: 'POST',
+      url: path,
+      headers: { 'content-type': 'application/json', ...requestAuth.sign({ method: 'POST', path, body }) },
+      payload: body
+    });
+  }
+
+  test('accepts a v1 planted farmers payload and schedules its farmers', async () => {
+    const response = await post('/backend/planted-farmers', {
+      schema_version: 1,
+      blockIndex: 77,
+      entropy: ENTROPY,
+      blockTimestamp: 1_800_000_000,
+      blockParams: { minGap: 1, maxGap: 20 },
+      plantedFarmers: [{ farmerId: 'farmer-a', custodialWallet: WALLET, custodialKey: 'ref:key-a', stakeAmount: '100' }]
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(received.at(-1)).toMatchObject({ blockIndex: 77, plantedFarmers: [{ farmerId: 'farmer-a', custodialKey: 'ref:key-a' }] });
+  });
+
+  test('adapts a legacy payload before validating it', async () => {
+    const response = await post('/backend/planted-farmers', {
+      block_index: 78,
+      entropy: ENTROPY,
+      block_timestamp: 1_800_000_000,
+      planted_farmers: [{ farmer_id: 'farmer-b', custodial_wallet: WALLET, stake_amount: '100' }]
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(received.at(-1)!.blockIndex).toBe(78);
+  });
+
+  test('reports every failing field', async () => {
+    const response = await post('/backend/planted-farmers', {
+      schema_version: 1,
+      blockIndex: 79,
+      entropy: 'not-hex',
+      blockTimestamp: 1_800_000_000,
+      plantedFarmers: [{ farmerId: 'farmer-c', custodialWallet: 'nobody', stakeAmount: '1.5', bonus: true }]
+    });
+
+    expect(response.statusCode).toBe(400);
+    const body = response.json();
+    expect(body.schema).toBe('kale-pool/backend/planted-farmers/v1');
+    expect(body.fields.map((field: { field: string }) => field.field).sort()).toEqual([
+      'entropy',
+      'plantedFarmers[0].bonus',
+      'plantedFarmers[0].custodialWallet',
+      'plantedFarmers[0].stakeAmount'
+    ]);
+  });
+
+  test('rejects unsigned requests before validation', async () => {
+    const response = await app.inject({ method: 'POST', url: '/backend/planting-status', payload: { block_index: 1 } });
+
+    expect(response.statusCode).toBe(401);
+  });
+});
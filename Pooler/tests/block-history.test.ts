@@ -0,0 +1,122 @@
+// Tests for the Block History
+// Rolling record of discovered blocks, paged newest first and joined with the pool's farmer activity
+
+import { describe, expect, test } from 'bun:test';
+import { blockHistory } from '../src/services/block-history';
+import { harvestManager } from '../src/services/harvest-manager';
+import { jobStore } from '../src/services/job-store';
+import type { BlockDiscoveryEvent } from '../src/types/block-types';
+
+const BLOCK_TIME = 1_800_000_000;
+
+function discovery(index: number, overrides: Partial<BlockDiscoveryEvent> = {}): BlockDiscoveryEvent {
+  return {
+    previousIndex: index - 1,
+    newIndex: index,
+    entropy: 'aa'.repeat(32),
+    timestamp: new Date((BLOCK_TIME + 4) * 1000),
+    blockAge: 4,
+    block: {
+      index,
+      timestamp: BigInt(BLOCK_TIME),
+      min_gap: 2n,
+      max_gap: 40n,
+      min_stake: 100n,
+      max_stake: 170141183460469231731687303715884105727n,
+      min_zeros: 5n,
+      max_zeros: 9n,
+      normalized_total: 123n
+    },
+    ...overrides
+  };
+}
+
+function createHistory(maxBlocks: number): typeof blockHistory {
+  const history = new (blockHistory as any).constructor(':memory:') as typeof blockHistory;
+  Object.assign(history, { MAX_BLOCKS: maxBlocks });
+  return history;
+}
+
+describe('BlockHistory', () => {
+  test('decodes the block, keeping i128 values as strings', () => {
+    const history = createHistory(10);
+
+    history.record(discovery(9000));
+
+    expect(history.list()[0]).toEqual({
+      index: 9000,
+      timestamp: BLOCK_TIME,
+      entropy: 'aa'.repeat(32),
+      minGap: 2,
+      maxGap: 40,
+      minStake: '100',
+      maxStake: '170141183460469231731687303715884105727',
+      minZeros: 5,
+      maxZeros: 9,
+      stakedTotal: null,
+      normalizedTotal: '123',
+      discoveredAt: new Date((BLOCK_TIME + 4) * 1000).toISOString(),
+      discoveryLatencyMs: 4000,
+      backfilled: false
+    });
+    history.close();
+  });
+
+  test('keeps a rolling window, paged newest first', () => {
+    const history = createHistory(3);
+
+    for (let index = 9010; index < 9015; index++) {
+      history.record(discovery(index));
+    }
+
+    expect(history.list().map(entry => entry.index)).toEqual([9014, 9013, 9012]);
+    expect(history.list(1, 9014).map(entry => entry.index)).toEqual([9013]);
+    expect(history.getLatest()!.index).toBe(9014);
+    history.close();
+  });
+
+  test('updates a re-recorded block without changing when it was first seen', () => {
+    const history = createHistory(10);
+    history.record(discovery(9020, { backfilled: true }));
+
+    history.record(discovery(9020, { timestamp: new Date((BLOCK_TIME + 60) * 1000), block: { ...discovery(9020).block!, max_zeros: 11n } }));
+
+    const [entry] = history.list();
+    expect(entry).toMatchObject({ maxZeros: 11, discoveryLatencyMs: 4000, backfilled: true });
+    history.close();
+  });
+
+  test('joins the planted, worked and harvested farmers', () => {
+    const history = createHistory(10);
+    history.record(discovery(9030));
+    jobStore.saveBlock({
+      blockIndex: 9030,
+      entropy: 'aa'.repeat(32),
+      blockTimestamp: BLOCK_TIME,
+      plantedFarmers: ['farmer-a', 'farmer-b'].map(farmerId => ({
+        farmerId,
+        custodialWallet: `GA_${farmerId}`,
+        stakeAmount: '100',
+        plantingTime: new Date()
+      }))
+    });
+    jobStore.recordJobResult(9030, {
+      farmerId: 'farmer-a',
+      custodialWallet: 'GA_farmer-a',
+      status: 'success',
+      workTime: 1,
+      attempts: 1,
+      compensationRequired: false
+    });
+    harvestManager.queue(9030, [{ farmerId: 'farmer-a', custodialWallet: 'GA_farmer-a' }]);
+    (harvestManager as any).recordAttempt(harvestManager.getBlockHarvests(9030)[0], { success: true, rewards: [9n], transactionHash: 'tx-harvest' });
+
+    expect(history.get(9030)!.farmers).toEqual({
+      planted: ['farmer-a', 'farmer-b'],
+      worked: ['farmer-a'],
+      harvested: [{ farmerId: 'farmer-a', reward: '9', transactionHash: 'tx-harvest' }]
+    });
+    expect(history.get(9031)).toBeUndefined();
+    history.close();
+  });
+});
@@ -0,0 +1,88 @@
+// Tests for the Block Monitor
+// Blocks skipped by an index jump are backfilled from temporary storage and announced after the new block
+
+import { describe, expect, test } from 'bun:test';
+import BlockMonitor from '../src/services/block-monitor';
+import { blockHistory } from '../src/services/block-history';
+import type { BlockDiscoveryEvent, ContractData, KaleBlock } from '../src/types/block-types';
+
+function kaleBlock(index: number): KaleBlock {
+  return {
+    index,
+    timestamp: BigInt(Math.floor(Date.now() / 1000) - 10),
+    min_gap: 0n,
+    min_stake: 0n,
+    min_zeros: 0n,
+    max_gap: 0n,
+    max_stake: 0n,
+    max_zeros: 0n,
+    entropy: Buffer.alloc(32, index % 256)
+  };
+}
+
+/**
+ * Monitor at `currentIndex` whose stored blocks are `available` and whose Backend notifications are captured
+ */
+function createMonitor(currentIndex: number, available: (index: number) => boolean) {
+  const monitor = new BlockMonitor() as any;
+  const notified: BlockDiscoveryEvent[] = [];
+  const fetched: number[] = [];
+
+  monitor.state.currentBlockIndex = currentIndex;
+  monitor.getBlock = async (_contractId: string, index: number) => {
+    fetched.push(index);
+    return available(index) ? kaleBlock(index) : undefined;
+  };
+  monitor.notifyBackend = async (event: BlockDiscoveryEvent) => {
+    notified.push(event);
+  };
+
+  const discover = (index: number) => monitor.handleNewBlockDiscovered({ index, block: kaleBlock(index), pail: undefined } as ContractData);
+  return { monitor: monitor as BlockMonitor, notified, fetched, discover };
+}
+
+describe('BlockMonitor backfill', () => {
+  test('announces the new block first, then the skipped ones still in storage', async () => {
+    const { monitor, notified, discover } = createMonitor(8100, index => index !== 8103);
+
+    await discover(8105);
+
+    expect(notified.map(event => [event.newIndex, event.backfilled ?? false])).toEqual([
+      [8105, false],
+      [8101, true],
+      [8102, true],
+      [8104, true]
+    ]);
+    expect(monitor.getStatus().missedBlocks).toMatchObject({ consecutive: 4, backfilled: 3, lost: 1 });
+    expect(blockHistory.get(8102)).toBeDefined();
+  });
+
+  test('fetches only the most recent skipped blocks and raises the missed block alert', async () => {
+    const { monitor, fetched, discover } = createMonitor(8200, () => true);
+
+    await discover(8250);
+
+    expect(fetched[0]).toBe(8230);
+    expect(fetched).toHaveLength(20);
+    expect(monitor.getStatus().missedBlocks).toMatchObject({ consecutive: 49, alert: true, backfilled: 20, lost: 29 });
+  });
+
+  test('clears the alert once blocks arrive in sequence again', async () => {
+    const { monitor, notified, discover } = createMonitor(8300, () => true);
+
+    await discover(8310);
+    await discover(8311);
+
+    expect(notified.at(-1)!.newIndex).toBe(8311);
+    expect(monitor.getStatus().missedBlocks).toMatchObject({ consecutive: 0, alert: false });
+  });
+
+  test('does not backfill on the first discovery', async () => {
+    const { notified, fetched, discover } = createMonitor(0, () => true);
+
+    await discover(8400);
+
+    expect(fetched).toHaveLength(0);
+    expect(notified).toHaveLength(1);
+  });
+});
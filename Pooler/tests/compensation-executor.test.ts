@@ -0,0 +1,123 @@
+// Tests for the Compensation Executor
+// Backend instructions are validated, executed at most once, and every outcome is reported through the outbox
+
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { compensationExecutor, type CompensationInstruction } from '../src/services/compensation-executor';
+import { harvestManager } from '../src/services/harvest-manager';
+import { jobStore } from '../src/services/job-store';
+import { outbox } from '../src/services/outbox';
+import { workManager, type WorkRequest } from '../src/services/work-manager';
+
+const realFetch = globalThis.fetch;
+const realScheduleWork = workManager.scheduleWork;
+const realQueue = harvestManager.queue;
+
+function createExecutor(): typeof compensationExecutor {
+  return new (compensationExecutor as any).constructor();
+}
+
+function saveBlock(blockIndex: number, blockTimestamp: number): void {
+  jobStore.saveBlock({
+    blockIndex,
+    entropy: 'ef'.repeat(32),
+    blockTimestamp,
+    plantedFarmers: [{ farmerId: 'farmer-a', custodialWallet: 'GA_WALLET_A', stakeAmount: '250', plantingTime: new Date() }]
+  });
+}
+
+function instruction(overrides: Partial<CompensationInstruction>): CompensationInstruction {
+  return { instructionId: 'instruction-1', action: 'ignore', farmerId: 'farmer-a', blockIndex: 1, ...overrides };
+}
+
+describe('CompensationExecutor.parseInstructions', () => {
+  test('accepts camel and snake case fields and drops malformed entries', () => {
+    saveBlock(700, 1_800_000_000);
+
+    const instructions = compensationExecutor.parseInstructions([
+      { instruction_id: 'a', action: 'retry_work', farmer_id: 'farmer-a', block_index: '700' },
+      { instructionId: 'b', action: 'credit_farmer', farmerId: 'farmer-b', blockIndex: 700, amount: 125, custodialWallet: 'GA_WALLET_B' },
+      { instructionId: 'c', action: 'refund_everyone', farmerId: 'farmer-a', blockIndex: 700 },
+      { instructionId: 'd', action: 'ignore', blockIndex: 700 },
+      { instructionId: 'e', action: 'ignore', farmerId: 'farmer-a', blockIndex: 'soon' }
+    ]);
+
+    expect(instructions.map(entry => entry.instructionId)).toEqual(['a', 'b']);
+    expect(instructions[0]).toMatchObject({ action: 'retry_work', blockIndex: 700, custodialWallet: 'GA_WALLET_A' });
+    expect(instructions[1]).toMatchObject({ amount: '125', custodialWallet: 'GA_WALLET_B' });
+    expect(compensationExecutor.parseInstructions({ not: 'a list' })).toEqual([]);
+  });
+});
+
+describe('CompensationExecutor.execute', () => {
+  let scheduled: WorkRequest[];
+
+  beforeEach(() => {
+    scheduled = [];
+    globalThis.fetch = (async () => Response.json({ acknowledged: true })) as unknown as typeof fetch;
+    workManager.scheduleWork = (async (_timestamp: number, _blockIndex: number, _entropy: string, requests: WorkRequest[]) => {
+      scheduled.push(...requests);
+      return {
+        workResults: requests.map(request => ({
+          farmerId: request.farmerId,
+          custodialWallet: request.custodialWallet,
+          status: 'success',
+          workTime: 1,
+          attempts: 1,
+          compensationRequired: false
+        }))
+      };
+    }) as any;
+    harvestManager.queue = () => {};
+  });
+
+  afterEach(() => {
+    globalThis.fetch = realFetch;
+    workManager.scheduleWork = realScheduleWork;
+    harvestManager.queue = realQueue;
+  });
+
+  test('acknowledges credits and ignores, and reports the outcomes', async () => {
+    const executor = createExecutor();
+
+    const outcomes = await executor.execute(701, [
+      instruction({ instructionId: 'credit-701', action: 'credit_farmer', blockIndex: 701, amount: '50' }),
+      instruction({ instructionId: 'ignore-701', blockIndex: 701 })
+    ]);
+
+    expect(outcomes.map(outcome => [outcome.status, outcome.detail])).toEqual([['acknowledged', 'Credit of 50 noted'], ['acknowledged', undefined]]);
+    const report = outbox.list().find(message => message.eventType === 'compensation_report' && (message.payload as any).sourceBlockIndex === 701);
+    expect((report!.payload as any).outcomes).toHaveLength(2);
+  });
+
+  test('executes an instruction at most once', async () => {
+    const executor = createExecutor();
+
+    await executor.execute(702, [instruction({ instructionId: 'once-702', blockIndex: 702 })]);
+    const [again] = await executor.execute(702, [instruction({ instructionId: 'once-702', blockIndex: 702 })]);
+
+    expect(again!.status).toBe('skipped');
+  });
+
+  test('retries work only while the block is open', async () => {
+    const executor = createExecutor();
+    saveBlock(703, Math.floor(Date.now() / 1000) - 30);
+    saveBlock(704, Math.floor(Date.now() / 1000) - 3600);
+
+    const [open, closed, unknown] = await executor.execute(703, [
+      instruction({ instructionId: 'retry-703', action: 'retry_work', blockIndex: 703 }),
+      instruction({ instructionId: 'retry-704', action: 'retry_work', blockIndex: 704 }),
+      instruction({ instructionId: 'retry-999', action: 'retry_work', blockIndex: 999 })
+    ]);
+
+    expect(open!.status).toBe('completed');
+    expect(scheduled).toEqual([expect.objectContaining({ farmerId: 'farmer-a', custodialWallet: 'GA_WALLET_A', blockIndex: 703, stakeAmount: '250' })]);
+    expect(closed).toMatchObject({ status: 'failed', detail: 'Block already closed - work can no longer be submitted' });
+    expect(unknown).toMatchObject({ status: 'failed', detail: 'Block not known to this pooler' });
+  });
+
+  test('refuses to re-plant without a sealed custodial key', async () => {
+    const [outcome] = await createExecutor().execute(705, [instruction({ instructionId: 'replant-705', action: 'replant_next_block', blockIndex: 705 })]);
+
+    expect(outcome).toMatchObject({ status: 'failed', detail: 'Sealed custodial key required to re-plant' });
+  });
+});
@@ -0,0 +1,49 @@
+// Tests for the Configuration loader
+// HMAC signing keys: required in production, never the operator bearer token
+
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { ConfigurationError, loadConfig } from '../../Shared/config';
+
+describe('loadConfig HMAC keys', () => {
+  let savedEnv: NodeJS.ProcessEnv;
+
+  beforeEach(() => {
+    savedEnv = { ...process.env };
+  });
+
+  afterEach(() => {
+    process.env = savedEnv;
+  });
+
+  test('refuses to start in production without POOLER_HMAC_KEYS', () => {
+    process.env.NODE_ENV = 'production';
+    delete process.env.POOLER_HMAC_KEYS;
+
+    expect(() => loadConfig()).toThrow(ConfigurationError);
+    expect(() => loadConfig()).toThrow('POOLER_HMAC_KEYS must be set in production');
+  });
+
+  test('uses a development-only key outside production, not the bearer token', () => {
+    process.env.NODE_ENV = 'development';
+    delete process.env.POOLER_HMAC_KEYS;
+
+    const config = loadConfig();
+
+    expect(config.POOLER.HMAC_KEYS).toHaveLength(1);
+    expect(config.POOLER.HMAC_KEYS[0]!.id).toBe('dev');
+    expect(config.POOLER.HMAC_KEYS[0]!.secret).not.toBe(config.POOLER.AUTH_TOKEN);
+  });
+
+  test('rejects an HMAC secret equal to POOLER_AUTH_TOKEN', () => {
+    process.env.POOLER_AUTH_TOKEN = 'shared-secret-for-everything';
+    process.env.POOLER_HMAC_KEYS = 'current:shared-secret-for-everything';
+
+    expect(() => loadConfig()).toThrow('POOLER_HMAC_KEYS secrets must differ from POOLER_AUTH_TOKEN');
+  });
+
+  test('accepts separate keys in production', () => {
+    process.env.NODE_ENV = 'production';
+
+    expect(loadConfig().POOLER.HMAC_KEYS.map(key => key.id)).toEqual(['current', 'previous']);
+  });
+});
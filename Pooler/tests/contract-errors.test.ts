@@ -0,0 +1,76 @@
+// Tests for the Contract Error Classifier
+// Sample host, contract, transaction and transport errors mapped to typed failure reasons
+
+import { describe, expect, test } from 'bun:test';
+import { classifyFailure, toContractError } from '../src/services/contract-errors';
+import { MinedWorkRejectedError } from '../src/services/work-verifier';
+import { KaleContractError } from '../../Shared/types/blockchain';
+
+const SIMULATION_EVENT_LOG = '\nEvent log (newest first):\n   0: [Diagnostic Event] contract:CDL7..., topics:[error, Error(Contract, #14)], data:"escalating error to panic"';
+
+describe('classifyFailure', () => {
+  test('maps KALE contract errors to their name and retryability', () => {
+    const notReady = classifyFailure(new Error(`HostError: Error(Contract, #14)${SIMULATION_EVENT_LOG}`));
+    expect(notReady).toMatchObject({ category: 'contract', code: 'HarvestNotReady', retryable: true });
+    expect(notReady.contractError?.code).toBe(KaleContractError.HarvestNotReady);
+    expect(notReady.message).toBe('HostError: Error(Contract, #14)');
+
+    expect(classifyFailure('HostError: Error(Contract, #15)')).toMatchObject({ code: 'GapCountTooLow', retryable: true });
+    expect(classifyFailure('HostError: Error(Contract, #11)')).toMatchObject({ code: 'BlockMissing', retryable: false });
+    expect(classifyFailure('HostError: Error(Contract, #8)')).toMatchObject({ code: 'PailExists', retryable: false });
+  });
+
+  test('does not read other contracts\' error codes as KALE errors', () => {
+    const reason = classifyFailure('HostError: Error(Contract, #14)', { kaleContract: false });
+
+    expect(reason).toMatchObject({ category: 'contract', code: 'Contract#14', retryable: false });
+    expect(reason.contractError).toBeUndefined();
+  });
+
+  test('maps host errors to type and code', () => {
+    expect(classifyFailure('HostError: Error(Budget, ExceededLimit)')).toEqual({
+      category: 'host',
+      code: 'Budget.ExceededLimit',
+      retryable: false,
+      message: 'HostError: Error(Budget, ExceededLimit)'
+    });
+    expect(classifyFailure('HostError: Error(Auth, InvalidAction)')).toMatchObject({ category: 'host', code: 'Auth.InvalidAction' });
+  });
+
+  test('maps transaction result codes, retrying only the transient ones', () => {
+    expect(classifyFailure('Transaction failed: txBadSeq')).toMatchObject({ category: 'transaction', code: 'txBadSeq', retryable: true });
+    expect(classifyFailure('sendTransaction returned TRY_AGAIN_LATER')).toMatchObject({ code: 'TRY_AGAIN_LATER', retryable: true });
+    expect(classifyFailure('Transaction failed: txInsufficientBalance')).toMatchObject({ code: 'txInsufficientBalance', retryable: false });
+    expect(classifyFailure('invokeHostFunctionResourceLimitExceeded')).toMatchObject({ category: 'transaction', retryable: true });
+  });
+
+  test('maps timeouts, network and submission failures', () => {
+    expect(classifyFailure('Transaction abc NOT_FOUND after 30 attempts')).toMatchObject({ category: 'timeout', retryable: true });
+    expect(classifyFailure(new Error('fetch failed'))).toMatchObject({ category: 'network', code: 'NETWORK_ERROR', retryable: true });
+    expect(classifyFailure(new Error('connect ECONNREFUSED 127.0.0.1:8000'))).toMatchObject({ category: 'network' });
+    expect(classifyFailure('Launchtube rejected the transaction')).toMatchObject({ category: 'submission', retryable: false });
+  });
+
+  test('keeps reasons the pooler already knows', () => {
+    const error = new MinedWorkRejectedError('HASH_MISMATCH', 'bad hash');
+    expect(classifyFailure(error)).toEqual(error.failureReason);
+  });
+
+  test('falls back to the given category for anything else', () => {
+    expect(classifyFailure('something odd')).toMatchObject({ category: 'unknown', code: 'UNKNOWN', retryable: false });
+    expect(classifyFailure('something odd', { fallback: 'miner' })).toMatchObject({ category: 'miner', code: 'UNKNOWN' });
+  });
+
+  test('bounds the message to its first line', () => {
+    const reason = classifyFailure(`${'x'.repeat(400)}\nsecond line`);
+    expect(reason.message.length).toBe(301);
+    expect(reason.message).not.toContain('second line');
+  });
+});
+
+describe('toContractError', () => {
+  test('names known codes and falls back to the number', () => {
+    expect(toContractError(14, 'details')).toEqual({ code: 14, message: 'HarvestNotReady', retryable: true, details: 'details' });
+    expect(toContractError(99)).toMatchObject({ message: 'Contract#99', retryable: false });
+  });
+});
@@ -0,0 +1,93 @@
+// Tests for the KALE Contract Event Stream
+// getEvents paging with a cursor, event decoding and lag detection (stubbed RPC gateway)
+
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { Address, Keypair, nativeToScVal } from '@stellar/stellar-sdk';
+import { ContractEventStream } from '../src/services/contract-event-stream';
+import { rpcGateway } from '../src/services/rpc-gateway';
+
+const realCall = rpcGateway.call;
+const FARMER = Keypair.random().publicKey();
+
+let pages: any[] = [];
+let requests: any[] = [];
+
+function event(ledger: number, overrides: Record<string, unknown> = {}) {
+  return {
+    id: `event-${ledger}`,
+    ledger,
+    ledgerClosedAt: '2027-01-15T12:00:00Z',
+    txHash: `tx-${ledger}`,
+    pagingToken: `cursor-${ledger}`,
+    inSuccessfulContractCall: true,
+    topic: [nativeToScVal('plant', { type: 'symbol' }), Address.fromString(FARMER).toScVal()],
+    value: nativeToScVal([nativeToScVal(ledger - 1, { type: 'u32' }), nativeToScVal(2500n, { type: 'i128' })]),
+    ...overrides
+  };
+}
+
+describe('ContractEventStream', () => {
+  beforeEach(() => {
+    pages = [];
+    requests = [];
+    const server = {
+      getLatestLedger: async () => ({ sequence: 5000 }),
+      getEvents: async (request: any) => {
+        requests.push(request);
+        return pages.shift();
+      }
+    };
+    rpcGateway.call = (async (_operation: string, fn: (endpoint: any) => Promise<unknown>) => fn({ url: 'http://rpc.test', server })) as any;
+  });
+
+  afterEach(() => {
+    rpcGateway.call = realCall;
+  });
+
+  test('starts just behind the tip, then follows the cursor', async () => {
+    const stream = new ContractEventStream();
+    pages.push({ events: [event(4999)], latestLedger: 5000 }, { events: [], latestLedger: 5001 });
+
+    await stream.poll();
+    const second = await stream.poll();
+
+    expect(requests[0]).toMatchObject({ startLedger: 4998, limit: 100 });
+    expect(requests[1]).toMatchObject({ cursor: 'cursor-4999' });
+    expect(requests[1].startLedger).toBeUndefined();
+    expect(second).toMatchObject({ latestLedger: 5001, lagLedgers: 2, behind: false });
+  });
+
+  test('decodes the event type, farmer and block index, skipping failed calls', async () => {
+    const stream = new ContractEventStream();
+    pages.push({ events: [event(4999), event(5000, { inSuccessfulContractCall: false })], latestLedger: 5000 });
+
+    const { events } = await stream.poll();
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ id: 'event-4999', type: 'plant', farmer: FARMER, blockIndex: 4998, txHash: 'tx-4999' });
+    expect(events[0]!.value).toEqual([4998, 2500n]);
+    expect(stream.getPosition()).toEqual({ cursor: 'cursor-5000', lastLedger: 5000 });
+  });
+
+  test('flags a full page far behind the tip', async () => {
+    const stream = new ContractEventStream();
+    pages.push({ events: Array.from({ length: 100 }, (_, index) => event(4000 + index)), latestLedger: 5000 });
+
+    const batch = await stream.poll();
+
+    expect(batch.lagLedgers).toBe(5000 - 4099);
+    expect(batch.behind).toBe(true);
+  });
+
+  test('stays at the tip while no events arrive, and starts over after a reset', async () => {
+    const stream = new ContractEventStream();
+    pages.push({ events: [], latestLedger: 5000 }, { events: [], latestLedger: 5000 });
+
+    expect((await stream.poll()).lagLedgers).toBe(0);
+    stream.reset();
+    await stream.poll();
+
+    expect(stream.getPosition()).toEqual({ cursor: null, lastLedger: 5000 });
+    expect(requests[1].startLedger).toBe(4998);
+  });
+});
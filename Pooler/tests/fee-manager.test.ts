@@ -0,0 +1,139 @@
+// Tests for the Fee Manager
+// Fee-stat pricing, fee bump sizing, and spend caps and reporting (fresh in-memory manager, stubbed getFeeStats)
+
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { Account, Keypair, Operation, SorobanDataBuilder, TransactionBuilder } from '@stellar/stellar-sdk';
+import Config from '../../Shared/config';
+import { rpcGateway } from '../src/services/rpc-gateway';
+import { FeeCapExceededError, feeManager } from '../src/services/fee-manager';
+
+type Manager = typeof feeManager;
+
+const realCall = rpcGateway.call;
+const realFees = { ...Config.FEES };
+
+const feeStats = { sorobanInclusionFee: { p50: '150', p70: '300', p90: '900', p99: '4000' } };
+
+function simulatedXdr(resourceFee: number): string {
+  return new TransactionBuilder(new Account(Keypair.random().publicKey(), '10'), {
+    fee: '100',
+    networkPassphrase: Config.STELLAR.NETWORK_PASSPHRASE
+  })
+    .addOperation(Operation.invokeContractFunction({ contract: Config.STELLAR.CONTRACT_ID, function: 'work', args: [] }))
+    .setSorobanData(new SorobanDataBuilder().setResourceFee(resourceFee).build())
+    .setTimeout(30)
+    .build()
+    .toXDR();
+}
+
+describe('FeeManager pricing', () => {
+  let manager: Manager;
+  let statsCalls: number;
+  let statsFail: boolean;
+
+  beforeEach(() => {
+    manager = new (feeManager as any).constructor(':memory:');
+    statsCalls = 0;
+    statsFail = false;
+    const server = {
+      getFeeStats: async () => {
+        statsCalls++;
+        if (statsFail) {
+          throw new Error('fetch failed');
+        }
+        return feeStats;
+      }
+    };
+    rpcGateway.call = (async (_operation: string, fn: (endpoint: any) => Promise<unknown>) => fn({ url: 'http://rpc.test', server })) as any;
+  });
+
+  afterEach(() => {
+    rpcGateway.call = realCall;
+    manager.close();
+  });
+
+  test('bids the operation\'s percentile and adds the resource margin', async () => {
+    const { transaction, quote } = await manager.price('work', simulatedXdr(10000));
+
+    expect(quote).toEqual({ operation: 'work', inclusionFee: 900, resourceFee: 11500, maxFee: 12400 });
+    expect(transaction.fee).toBe('12400');
+
+    expect((await manager.price('plant', simulatedXdr(10000))).quote.inclusionFee).toBe(300);
+    expect((await manager.price('harvest', simulatedXdr(10000))).quote.inclusionFee).toBe(150);
+    expect(statsCalls).toBe(1);
+  });
+
+  test('falls back to the minimum bid without fee stats', async () => {
+    statsFail = true;
+
+    expect((await manager.price('work', simulatedXdr(1000))).quote.inclusionFee).toBe(100);
+  });
+
+  test('bumps to ten times the bid, or p99 when higher, within FEE_MAX_INCLUSION', async () => {
+    const quote = { operation: 'work', inclusionFee: 900, resourceFee: 11500, maxFee: 12400 };
+
+    expect(await manager.quoteBump(quote)).toEqual({ operation: 'work', inclusionFee: 9000, resourceFee: 11500, maxFee: 2 * (11500 + 9000) });
+    expect((await manager.quoteBump({ ...quote, inclusionFee: 100 }))!.inclusionFee).toBe(4000);
+    expect(await manager.quoteBump({ ...quote, inclusionFee: 20000 })).toBeUndefined();
+  });
+});
+
+describe('FeeManager spend caps', () => {
+  let manager: Manager;
+
+  beforeEach(() => {
+    manager = new (feeManager as any).constructor(':memory:');
+  });
+
+  afterEach(() => {
+    Object.assign(Config.FEES, realFees);
+    manager.close();
+  });
+
+  test('refuses a reservation that would pass the per-block cap', () => {
+    Config.FEES.MAX_PER_BLOCK = 25000;
+    manager.reserve({ operation: 'work', blockIndex: 700, maxFee: 20000 });
+
+    expect(() => manager.reserve({ operation: 'work', blockIndex: 700, maxFee: 10000 })).toThrow(FeeCapExceededError);
+    expect(() => manager.reserve({ operation: 'work', blockIndex: 701, maxFee: 10000 })).not.toThrow();
+  });
+
+  test('counts the fee charged once settled, and nothing for a released reservation', () => {
+    Config.FEES.MAX_PER_DAY = 30000;
+    const sent = manager.reserve({ operation: 'work', blockIndex: 702, maxFee: 20000 });
+    manager.attach(sent, 'tx-1', 'rpc');
+    const unsent = manager.reserve({ operation: 'work', blockIndex: 702, maxFee: 10000 });
+    manager.release(unsent);
+
+    let error: unknown;
+    try {
+      manager.reserve({ operation: 'work', maxFee: 15000 });
+    } catch (caught) {
+      error = caught;
+    }
+    expect(error).toBeInstanceOf(FeeCapExceededError);
+    expect((error as FeeCapExceededError).failureReason).toMatchObject({ code: 'FEE_CAP_EXCEEDED', retryable: false });
+
+    manager.settle('tx-1', 5000);
+    expect(() => manager.reserve({ operation: 'work', maxFee: 15000 })).not.toThrow();
+  });
+
+  test('reports spend by operation, path and block', () => {
+    Config.FEES.MAX_PER_DAY = 100000;
+    const work = manager.reserve({ operation: 'work', blockIndex: 703, maxFee: 12000 });
+    manager.attach(work, 'tx-work', 'rpc');
+    manager.settle('tx-work', 8000);
+    const bump = manager.reserve({ operation: 'work', blockIndex: 703, maxFee: 40000, feeBump: true });
+    manager.attach(bump, 'tx-bump', 'rpc');
+    manager.settle('tx-bump', undefined); // Superseded - never landed
+
+    const report = manager.getSpendReport();
+
+    expect(report.caps).toEqual({ perBlock: null, perDay: 100000 });
+    expect(report.today.charged).toBe(8000);
+    expect(report.today.reserved).toBe(0);
+    expect(report.today.remaining).toBe(92000);
+    expect(report.byOperation).toEqual([{ operation: 'work', submittedVia: 'rpc', transactions: 2, feeBumps: 1, charged: 8000 }]);
+    expect(report.recentBlocks).toEqual([{ blockIndex: 703, transactions: 2, charged: 8000 }]);
+  });
+});
@@ -0,0 +1,120 @@
+// Tests for the Harvest Manager
+// Pails are harvested once their block closes, retried within the attempt budget and reported through the outbox
+
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { harvestManager } from '../src/services/harvest-manager';
+import { outbox } from '../src/services/outbox';
+import type { HarvestSubmissionResult } from '../src/services/work-submission-service';
+
+const realFetch = globalThis.fetch;
+
+/**
+ * Fresh in-memory manager whose contract calls come from `results` (by block index)
+ */
+function createManager(farmIndex: number, results: Record<number, HarvestSubmissionResult[]>) {
+  const manager = new (harvestManager as any).constructor(':memory:') as typeof harvestManager;
+  const calls: Array<[string, number]> = [];
+  Object.assign(manager, {
+    MAX_ATTEMPTS: 2,
+    workSubmissionService: {
+      getFarmIndex: async () => farmIndex,
+      submitHarvest: async (wallet: string, blockIndex: number) => {
+        calls.push([wallet, blockIndex]);
+        return results[blockIndex]!.shift()!;
+      }
+    }
+  });
+  return { manager, calls };
+}
+
+function harvestReports(): any[] {
+  return outbox.list(undefined, 500).filter(message => message.eventType === 'harvest_completed').map(message => message.payload);
+}
+
+describe('HarvestManager', () => {
+  beforeEach(() => {
+    globalThis.fetch = (async () => Response.json({ acknowledged: true })) as unknown as typeof fetch;
+  });
+
+  afterEach(() => {
+    globalThis.fetch = realFetch;
+  });
+
+  test('harvests only blocks the farm has moved past and reports the rewards', async () => {
+    const { manager, calls } = createManager(11, {
+      10: [{ success: true, rewards: [1500n], transactionHash: 'tx-harvest-10' }]
+    });
+    manager.queue(10, [{ farmerId: 'farmer-a', custodialWallet: 'GA_WALLET_A' }]);
+    manager.queue(11, [{ farmerId: 'farmer-a', custodialWallet: 'GA_WALLET_A' }]);
+    manager.queue(10, [{ farmerId: 'farmer-a', custodialWallet: 'GA_WALLET_A' }]);
+
+    await manager.harvestDue();
+
+    expect(calls).toEqual([['GA_WALLET_A', 10]]);
+    expect(manager.getBlockHarvests(10)[0]).toMatchObject({ status: 'harvested', attempts: 1, reward: '1500', transactionHash: 'tx-harvest-10' });
+    expect(manager.getBlockHarvests(11)[0]!.status).toBe('queued');
+
+    const report = harvestReports().find(payload => payload.harvest_results[0]?.harvest_tx_hash === 'tx-harvest-10');
+    expect(report).toMatchObject({ total_rewards: '1500', harvest_blocks: [{ block_index: 10, farmer_ids: ['farmer-a'] }] });
+    manager.close();
+  });
+
+  test('retries failures until the attempt budget is spent, without counting not-ready blocks', async () => {
+    const { manager } = createManager(21, {
+      20: [
+        { success: false, notReady: true, error: 'Block not ready' },
+        { success: false, error: 'RPC timeout' },
+        { success: false, error: 'RPC timeout again' }
+      ]
+    });
+    manager.queue(20, [{ farmerId: 'farmer-b', custodialWallet: 'GA_WALLET_B' }]);
+
+    await manager.harvestDue();
+    expect(manager.getBlockHarvests(20)[0]).toMatchObject({ status: 'queued', attempts: 0 });
+
+    await manager.harvestDue();
+    expect(manager.getBlockHarvests(20)[0]).toMatchObject({ status: 'queued', attempts: 1 });
+
+    await manager.harvestDue();
+    expect(manager.getBlockHarvests(20)[0]).toMatchObject({ status: 'failed', attempts: 2, error: 'RPC timeout again' });
+
+    const report = harvestReports().find(payload => payload.failed_harvests[0]?.farmer_id === 'farmer-b');
+    expect(report.failed_harvests[0]).toEqual({ block_index: 20, farmer_id: 'farmer-b', error: 'HARVEST_FAILED', message: 'RPC timeout again' });
+    manager.close();
+  });
+
+  test('gives up at once on a final failure', async () => {
+    const { manager } = createManager(31, { 30: [{ success: false, final: true, error: 'Pail expired' }] });
+    manager.queue(30, [{ farmerId: 'farmer-c', custodialWallet: 'GA_WALLET_C' }]);
+
+    await manager.harvestDue();
+
+    expect(manager.getBlockHarvests(30)[0]).toMatchObject({ status: 'failed', attempts: 1 });
+    expect(manager.getStats()).toMatchObject({ queued: 0, harvested: 0, failed: 1, mode: 'kale' });
+    manager.close();
+  });
+
+  test('batches a farmer\'s pails through the tractor when configured', async () => {
+    const { manager, calls } = createManager(50, {});
+    const batches: Array<[string, number[]]> = [];
+    Object.assign(manager, {
+      USE_TRACTOR: true,
+      tractorHarvester: {
+        harvest: async (wallet: string, blockIndexes: number[]) => {
+          batches.push([wallet, blockIndexes]);
+          return new Map([[40, { success: true, rewards: [7n], transactionHash: 'tx-tractor' }]]);
+        }
+      }
+    });
+    manager.queue(40, [{ farmerId: 'farmer-d', custodialWallet: 'GA_WALLET_D' }]);
+    manager.queue(41, [{ farmerId: 'farmer-d', custodialWallet: 'GA_WALLET_D' }]);
+
+    await manager.harvestDue();
+
+    expect(calls).toHaveLength(0);
+    expect(batches).toEqual([['GA_WALLET_D', [40, 41]]]);
+    expect(manager.getBlockHarvests(40)[0]!.status).toBe('harvested');
+    expect(manager.getBlockHarvests(41)[0]).toMatchObject({ status: 'queued', attempts: 1, error: 'No tractor result for pail' });
+    manager.close();
+  });
+});
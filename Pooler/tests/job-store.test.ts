@@ -0,0 +1,97 @@
+// Tests for the Job Store
+// Planting notifications and per-farmer job state survive in SQLite, including the sealed custodial key
+
+import { afterAll, describe, expect, test } from 'bun:test';
+import { Database } from 'bun:sqlite';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { jobStore } from '../src/services/job-store';
+import type { PlantingNotification } from '../src/services/pool-coordinator';
+
+function notification(blockIndex: number): PlantingNotification {
+  return {
+    blockIndex,
+    entropy: 'ab'.repeat(32),
+    blockTimestamp: 1_800_000_000,
+    blockParams: { minGap: 1, maxGap: 20 },
+    plantedFarmers: [
+      {
+        farmerId: 'farmer-a',
+        custodialWallet: 'GA_WALLET_A',
+        custodialKey: 'sealed:v1.epk.iv.ciphertext',
+        stakeAmount: '10000000',
+        plantingTime: new Date('2027-01-15T12:00:00Z'),
+        plantLedger: 1000
+      },
+      { farmerId: 'farmer-b', custodialWallet: 'GA_WALLET_B', stakeAmount: '5', plantingTime: new Date('2027-01-15T12:00:00Z') }
+    ]
+  };
+}
+
+describe('JobStore', () => {
+  test('records a pending job per planted farmer, keeping the custodial key', () => {
+    jobStore.saveBlock(notification(100));
+
+    const jobs = jobStore.getBlockJobs(100);
+    expect(jobs.map(job => [job.farmerId, job.status])).toEqual([['farmer-a', 'pending'], ['farmer-b', 'pending']]);
+    expect(jobs[0]!.custodialKey).toBe('sealed:v1.epk.iv.ciphertext');
+    expect(jobs[0]!.plantingTime).toBe('2027-01-15T12:00:00.000Z');
+    expect(jobs[0]!.plantLedger).toBe(1000);
+    expect(jobs[1]!.custodialKey).toBeUndefined();
+    expect(jobStore.getBlock(100)!.blockParams).toEqual({ minGap: 1, maxGap: 20 });
+  });
+
+  test('keeps job state when a notification is re-delivered', () => {
+    jobStore.saveBlock(notification(101));
+    jobStore.updateJobStatus(101, 'farmer-a', 'mining');
+
+    jobStore.saveBlock(notification(101));
+
+    expect(jobStore.getBlockJobs(101)[0]!.status).toBe('mining');
+  });
+
+  test('stores results and lists only blocks still scheduled', () => {
+    jobStore.saveBlock(notification(102));
+    const result = { custodialWallet: 'GA_WALLET', workTime: 10, attempts: 1 };
+    jobStore.recordJobResult(102, { ...result, farmerId: 'farmer-a', status: 'success', nonce: 7, compensationRequired: false });
+    jobStore.recordJobResult(102, { ...result, farmerId: 'farmer-b', status: 'failed', error: 'no hash', compensationRequired: true });
+
+    const [completed, failed] = jobStore.getBlockJobs(102);
+    expect(completed!.status).toBe('completed');
+    expect(completed!.result!.nonce).toBe(7);
+    expect(failed!.status).toBe('failed');
+    expect(failed!.error).toBe('no hash');
+    expect(jobStore.isUnfinished(completed!)).toBe(false);
+
+    jobStore.completeBlock(102, 'completed');
+    expect(jobStore.getUnfinishedBlocks().map(unfinished => unfinished.block.blockIndex)).not.toContain(102);
+  });
+
+  describe('existing stores', () => {
+    const directory = mkdtempSync(join(tmpdir(), 'job-store-'));
+
+    afterAll(() => rmSync(directory, { recursive: true, force: true }));
+
+    test('gain the custodial key column', () => {
+      const path = join(directory, 'jobs.sqlite');
+      const legacy = new Database(path, { create: true });
+      legacy.exec(`
+        CREATE TABLE farmer_jobs (
+          block_index INTEGER NOT NULL, farmer_id TEXT NOT NULL, custodial_wallet TEXT NOT NULL,
+          stake_amount TEXT NOT NULL, planting_time TEXT, plant_ledger INTEGER,
+          status TEXT NOT NULL DEFAULT 'pending', result TEXT, error TEXT, updated_at TEXT NOT NULL,
+          PRIMARY KEY (block_index, farmer_id)
+        )
+      `);
+      legacy.close();
+
+      const JobStore = (jobStore as any).constructor;
+      const store = new JobStore(path);
+      store.saveBlock(notification(200));
+
+      expect(store.getBlockJobs(200)[0].custodialKey).toBe('sealed:v1.epk.iv.ciphertext');
+      store.close();
+    });
+  });
+});
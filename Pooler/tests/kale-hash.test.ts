@@ -0,0 +1,65 @@
+// Tests for the KALE hash utilities
+// Keccak-256 against published vectors and the KALE work hash preimage layout
+
+import { describe, expect, test } from 'bun:test';
+import {
+  KALE_HASH_INPUT_LENGTH,
+  buildKaleHashInput,
+  compareHashes,
+  generateKaleHash,
+  keccak256
+} from '../../Shared/utils/kale-hash';
+
+const hex = (bytes: Uint8Array) => Buffer.from(bytes).toString('hex');
+
+describe('keccak256', () => {
+  test('matches the published Keccak-256 vectors', () => {
+    expect(hex(keccak256(new Uint8Array(0)))).toBe('c5d2460186f7233c927e7db2dcc703c0e500b653ca82273b7bfad8045d85a470');
+    expect(hex(keccak256(Buffer.from('abc')))).toBe('4e03657aea45a94fc7d47ba826c8d667c0d1e6e33a64a036ec44f58fa12d6c45');
+  });
+
+  test('pads correctly around the 136-byte rate boundary', () => {
+    expect(hex(keccak256(new Uint8Array(135).fill(0x61)))).toBe('34367dc248bbd832f4e3e69dfaac2f92638bd0bbd18f2912ba4ef454919cf446');
+    expect(hex(keccak256(new Uint8Array(136).fill(0x61)))).toBe('a6c4d403279fe3e0af03729caada8374b5ca54d8065329a3ebcaeb4b60aa386e');
+    expect(hex(keccak256(new Uint8Array(200).fill(0x61)))).toBe('96ea54061def936c4be90b518992fdc6f12f535068a256229aca54267b4d084d');
+  });
+});
+
+describe('KALE work hash', () => {
+  const entropy = new Uint8Array(32).fill(0x11);
+  const farmer = new Uint8Array(32).fill(0x22);
+
+  test('lays out index u32 BE, nonce u64 BE, entropy and farmer key', () => {
+    const input = buildKaleHashInput(42, 1234567890123n, entropy, farmer);
+
+    expect(input.length).toBe(KALE_HASH_INPUT_LENGTH);
+    expect(hex(input.subarray(0, 4))).toBe('0000002a');
+    expect(hex(input.subarray(4, 12))).toBe('0000011f71fb04cb');
+    expect(input.subarray(12, 44)).toEqual(entropy);
+    expect(input.subarray(44, 76)).toEqual(farmer);
+  });
+
+  test('hashes the preimage with keccak256', () => {
+    const hash = generateKaleHash(42, 1234567890123n, entropy, farmer);
+
+    expect(hash).toEqual(keccak256(buildKaleHashInput(42, 1234567890123n, entropy, farmer)));
+    expect(hex(hash)).toBe('86994fad7c8d7e54a6ad362f92e50a4b05df18c48b741dbc9a2fa35187255f1e');
+  });
+
+  test('treats number and bigint nonces alike', () => {
+    expect(generateKaleHash(7, 99, entropy, farmer)).toEqual(generateKaleHash(7, 99n, entropy, farmer));
+  });
+
+  test('rejects entropy or farmer keys that are not 32 bytes', () => {
+    expect(() => buildKaleHashInput(1, 0, new Uint8Array(31), farmer)).toThrow('Entropy must be 32 bytes, got 31');
+    expect(() => buildKaleHashInput(1, 0, entropy, new Uint8Array(33))).toThrow('Farmer key must be 32 bytes, got 33');
+  });
+});
+
+describe('compareHashes', () => {
+  test('orders hashes as big-endian numbers', () => {
+    expect(compareHashes(Buffer.from('0001', 'hex'), Buffer.from('0100', 'hex'))).toBeLessThan(0);
+    expect(compareHashes(Buffer.from('ff00', 'hex'), Buffer.from('00ff', 'hex'))).toBeGreaterThan(0);
+    expect(compareHashes(Buffer.from('abcd', 'hex'), Buffer.from('abcd', 'hex'))).toBe(0);
+  });
+});
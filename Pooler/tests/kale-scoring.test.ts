@@ -0,0 +1,97 @@
+// Tests for the KALE scoring utilities
+// Leading zero nibbles, gap and stake parsing as the contract counts them
+
+import { describe, expect, test } from 'bun:test';
+import {
+  calculateGap,
+  countLeadingZeros,
+  estimateContribution,
+  normalizeValue,
+  parseStakeAmount,
+  SCORE_DECIMALS
+} from '../../Shared/utils/kale-scoring';
+
+describe('countLeadingZeros', () => {
+  test('counts zero nibbles, not zero bytes', () => {
+    expect(countLeadingZeros('ff' + '00'.repeat(31))).toBe(0);
+    expect(countLeadingZeros('0f' + 'ff'.repeat(31))).toBe(1);
+    expect(countLeadingZeros('00' + 'ff'.repeat(31))).toBe(2);
+    expect(countLeadingZeros('0000' + '01' + 'ff'.repeat(29))).toBe(5);
+  });
+
+  test('stops at the first non-zero nibble', () => {
+    expect(countLeadingZeros('10' + '00'.repeat(31))).toBe(0);
+    expect(countLeadingZeros('0010' + '00'.repeat(30))).toBe(2);
+  });
+
+  test('counts an all-zero hash as 64', () => {
+    expect(countLeadingZeros('00'.repeat(32))).toBe(64);
+  });
+
+  test('reads raw bytes and hex strings alike', () => {
+    const bytes = Buffer.from('000abc' + 'ff'.repeat(29), 'hex');
+    expect(countLeadingZeros(bytes)).toBe(countLeadingZeros(bytes.toString('hex')));
+    expect(countLeadingZeros(bytes)).toBe(3);
+  });
+});
+
+describe('calculateGap', () => {
+  test('is the ledgers between plant and work', () => {
+    expect(calculateGap(1000, 1024)).toBe(24);
+    expect(calculateGap(1000, 1000)).toBe(0);
+  });
+
+  test('rejects work before the plant', () => {
+    expect(() => calculateGap(1000, 999)).toThrow('Work ledger 999 is before plant ledger 1000');
+  });
+});
+
+describe('parseStakeAmount', () => {
+  test('accepts whole stroops', () => {
+    expect(parseStakeAmount('10000000')).toBe(10000000n);
+    expect(parseStakeAmount(' 42 ')).toBe(42n);
+    expect(parseStakeAmount(7)).toBe(7n);
+    expect(parseStakeAmount(170141183460469231731687303715884105727n)).toBe(170141183460469231731687303715884105727n);
+  });
+
+  test('rejects decimal, negative and non-numeric amounts', () => {
+    for (const amount of ['1.5', '-1', '1e7', '', 'abc']) {
+      expect(() => parseStakeAmount(amount)).toThrow('expected whole stroops');
+    }
+    for (const amount of [1.5, -1, Number.MAX_SAFE_INTEGER + 1, NaN]) {
+      expect(() => parseStakeAmount(amount)).toThrow('expected whole stroops');
+    }
+  });
+});
+
+describe('normalizeValue', () => {
+  const ONE = 10n ** BigInt(SCORE_DECIMALS);
+
+  test('scales into 0..1 within the range, clamping outside it', () => {
+    expect(normalizeValue(5n, 0n, 10n)).toBe(ONE / 2n);
+    expect(normalizeValue(-5n, 0n, 10n)).toBe(0n);
+    expect(normalizeValue(50n, 0n, 10n)).toBe(ONE);
+  });
+
+  test('gives full credit when every farmer sits at the bound', () => {
+    expect(normalizeValue(3n, 3n, 3n)).toBe(ONE);
+  });
+});
+
+describe('estimateContribution', () => {
+  const ONE = 10n ** BigInt(SCORE_DECIMALS);
+  const block = { min_gap: 0, max_gap: 20, min_stake: 0n, max_stake: 100n, min_zeros: 4, max_zeros: 8 };
+
+  test('sums the normalized gap, stake and zeros', () => {
+    const contribution = estimateContribution(block, { gap: 10, stake: 100n, zeros: 4 });
+
+    expect(contribution).toEqual({ gap: ONE / 2n, stake: ONE, zeros: 0n, total: ONE + ONE / 2n, share: undefined });
+  });
+
+  test('reports the share of the block total once it is known', () => {
+    const contribution = estimateContribution({ ...block, normalized_total: 6n * ONE }, { gap: 20, stake: 100n, zeros: 8 });
+
+    expect(contribution.total).toBe(3n * ONE);
+    expect(contribution.share).toBe(0.5);
+  });
+});
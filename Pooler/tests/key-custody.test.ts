@@ -0,0 +1,60 @@
+// Tests for Key Custody
+// Sealed custodial keys round-trip through a Signer and only open for the wallet they were sealed for
+
+import { describe, expect, test } from 'bun:test';
+import { Keypair, hash } from '@stellar/stellar-sdk';
+import { keyCustody } from '../src/services/key-custody';
+
+const farmer = Keypair.random();
+const authEntry = Buffer.from('kale auth entry preimage').toString('base64');
+
+describe('keyCustody', () => {
+  test('signs with a sealed key without exposing it', async () => {
+    const sealed = keyCustody.seal(farmer.secret(), farmer.publicKey());
+
+    expect(sealed.startsWith('sealed:v1.')).toBe(true);
+    expect(sealed).not.toContain(farmer.secret());
+    expect(keyCustody.isCustodyHandle(sealed)).toBe(true);
+
+    const { signedAuthEntry, signerAddress } = await keyCustody.signerFor(sealed, farmer.publicKey()).signAuthEntry(authEntry);
+    expect(signerAddress).toBe(farmer.publicKey());
+    expect(farmer.verify(hash(Buffer.from(authEntry, 'base64')), Buffer.from(signedAuthEntry, 'base64'))).toBe(true);
+  });
+
+  test('seals each key afresh', () => {
+    expect(keyCustody.seal(farmer.secret(), farmer.publicKey())).not.toBe(keyCustody.seal(farmer.secret(), farmer.publicKey()));
+  });
+
+  test('refuses to open a key for another wallet', async () => {
+    const other = Keypair.random();
+    const sealed = keyCustody.seal(farmer.secret(), farmer.publicKey());
+
+    await expect(keyCustody.signerFor(sealed, other.publicKey()).signAuthEntry(authEntry))
+      .rejects.toThrow('Sealed custodial key could not be opened for this wallet');
+  });
+
+  test('refuses a key sealed for the wrong wallet\'s address', async () => {
+    const other = Keypair.random();
+    const mislabelled = keyCustody.seal(farmer.secret(), other.publicKey());
+
+    await expect(keyCustody.signerFor(mislabelled, other.publicKey()).signAuthEntry(authEntry))
+      .rejects.toThrow('Sealed custodial key does not match the custodial wallet');
+  });
+
+  test('refuses tampered, malformed and plaintext keys', async () => {
+    const sealed = keyCustody.seal(farmer.secret(), farmer.publicKey());
+    const lastPart = sealed.slice(sealed.lastIndexOf('.') + 1);
+    const flipped = Buffer.from(lastPart, 'base64url');
+    flipped[0] = flipped[0]! ^ 0x01;
+    const tampered = sealed.slice(0, sealed.lastIndexOf('.') + 1) + flipped.toString('base64url');
+
+    await expect(keyCustody.signerFor(tampered, farmer.publicKey()).signAuthEntry(authEntry)).rejects.toThrow('could not be opened');
+    await expect(keyCustody.signerFor('sealed:v1.abc', farmer.publicKey()).signAuthEntry(authEntry)).rejects.toThrow('Malformed sealed custodial key');
+    await expect(keyCustody.signerFor(farmer.secret(), farmer.publicKey()).signAuthEntry(authEntry)).rejects.toThrow('Unsupported custodial key format');
+    expect(keyCustody.isCustodyHandle(farmer.secret())).toBe(false);
+  });
+
+  test('drops plaintext keys unless they are allowed', () => {
+    expect(keyCustody.acceptPlaintext(farmer.secret(), farmer.publicKey())).toBeUndefined();
+  });
+});
@@ -0,0 +1,80 @@
+// Tests for Log Redaction
+// Secret seeds, sensitive keys and Bearer tokens never reach a log sink; oversized context is bounded
+
+import { describe, expect, test } from 'bun:test';
+import { Keypair } from '@stellar/stellar-sdk';
+import { LogRedactor } from '../../Shared/utils/log-redaction';
+
+const redactor = new LogRedactor({
+  keyPatterns: ['*secret*', 'authorization', '*jwt*', '*token*', '*private_key*'],
+  maxStringLength: 200,
+  maxDepth: 3,
+  maxArrayItems: 3
+});
+const seed = Keypair.random().secret();
+
+describe('LogRedactor.redactString', () => {
+  test('masks secret seeds and Bearer tokens anywhere in a message', () => {
+    const masked = redactor.redactString(`Signing with ${seed} using Bearer abc.def-123`);
+
+    expect(masked).toBe('Signing with [REDACTED_SECRET_SEED] using Bearer [REDACTED]');
+  });
+
+  test('masks sensitive keys in JSON embedded in a message', () => {
+    const message = `Submitting work ${JSON.stringify({ farmer_id: 'f1', custodial_secret: 'hunter2', jwt: 42, authorization: 'x', ok: true })}`;
+
+    expect(redactor.redactString(message)).toBe(
+      'Submitting work {"farmer_id":"f1","custodial_secret":"[REDACTED]","jwt":"[REDACTED]","authorization":"[REDACTED]","ok":true}'
+    );
+  });
+
+  test('leaves public keys and ordinary text alone', () => {
+    const publicKey = Keypair.random().publicKey();
+    expect(redactor.redactString(`Farmer ${publicKey} planted`)).toBe(`Farmer ${publicKey} planted`);
+  });
+
+  test('truncates long strings', () => {
+    expect(redactor.redactString('x'.repeat(250))).toBe(`${'x'.repeat(200)}…[truncated 50 chars]`);
+  });
+});
+
+describe('LogRedactor.redact', () => {
+  test('masks sensitive keys at any depth, case-insensitively', () => {
+    expect(redactor.redact({
+      farmer_id: 'f1',
+      Authorization: 'Bearer abc',
+      wallet: { SECRET_KEY: seed, access_token: 'tok' }
+    })).toEqual({
+      farmer_id: 'f1',
+      Authorization: '[REDACTED]',
+      wallet: { SECRET_KEY: '[REDACTED]', access_token: '[REDACTED]' }
+    });
+  });
+
+  test('masks secret values under harmless keys', () => {
+    expect(redactor.redact({ note: `seed was ${seed}`, items: [seed] })).toEqual({
+      note: 'seed was [REDACTED_SECRET_SEED]',
+      items: ['[REDACTED_SECRET_SEED]']
+    });
+  });
+
+  test('never renders raw bytes', () => {
+    expect(redactor.redact({ key: new Uint8Array(32) })).toEqual({ key: '[Uint8Array 32 bytes]' });
+  });
+
+  test('bounds depth, array length and circular references', () => {
+    const circular: Record<string, unknown> = { name: 'loop' };
+    circular.self = circular;
+
+    expect(redactor.redact({ a: { b: { c: { d: 1 } } } })).toEqual({ a: { b: { c: '[Object]' } } });
+    expect(redactor.redact([1, 2, 3, 4, 5])).toEqual([1, 2, 3, '[… 2 more items]']);
+    expect(redactor.redact(circular)).toEqual({ name: 'loop', self: '[Circular]' });
+  });
+
+  test('renders errors and bigints as JSON-safe values', () => {
+    const redacted = redactor.redact({ error: new Error(`failed for ${seed}`), amount: 10n }) as any;
+
+    expect(redacted.amount).toBe('10');
+    expect(redacted.error.message).toBe('failed for [REDACTED_SECRET_SEED]');
+  });
+});
@@ -0,0 +1,49 @@
+// Tests for the Miner Backends
+// The in-process TypeScript hasher finds the best hash in its nonce range and stops when cancelled
+
+import { describe, expect, test } from 'bun:test';
+import { Keypair } from '@stellar/stellar-sdk';
+import { TypeScriptMinerBackend, type MinerRunRequest } from '../src/services/miner-backend';
+import { compareHashes, generateKaleHash } from '../../Shared/utils/kale-hash';
+
+const request: MinerRunRequest = {
+  farmerId: 'farmer-1',
+  farmerHex: Keypair.random().rawPublicKey().toString('hex'),
+  blockIndex: 321,
+  entropy: '5a'.repeat(32),
+  nonceCount: 2000
+};
+
+function hashAt(nonce: number): Uint8Array {
+  return generateKaleHash(request.blockIndex, nonce, Buffer.from(request.entropy, 'hex'), Buffer.from(request.farmerHex, 'hex'));
+}
+
+describe('TypeScriptMinerBackend', () => {
+  const backend = new TypeScriptMinerBackend();
+
+  test('returns the smallest hash in the nonce range', async () => {
+    const output = await backend.start(request).result;
+
+    expect(output).not.toBeNull();
+    expect(output!.hash).toBe(Buffer.from(hashAt(output!.nonce)).toString('hex'));
+    for (let nonce = 0; nonce < request.nonceCount; nonce++) {
+      expect(compareHashes(hashAt(nonce), Buffer.from(output!.hash, 'hex'))).toBeGreaterThanOrEqual(0);
+    }
+  });
+
+  test('searches from the start nonce', async () => {
+    const output = await backend.start({ ...request, startNonce: 10000, nonceCount: 500 }).result;
+
+    expect(output!.nonce).toBeGreaterThanOrEqual(10000);
+    expect(output!.nonce).toBeLessThan(10500);
+  });
+
+  test('stops early when cancelled and keeps the best hash so far', async () => {
+    const job = backend.start({ ...request, nonceCount: 10_000_000 });
+    job.cancel();
+    const output = await job.result;
+
+    expect(output).not.toBeNull();
+    expect(output!.nonce).toBeLessThan(10_000_000);
+  });
+});
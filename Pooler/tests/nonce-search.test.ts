@@ -0,0 +1,124 @@
+// Tests for the Nonce Search Strategy
+// Window ranges per backend kind, deadline and cutoff handling (fake miner backends, 500-nonce windows, 2 windows)
+
+import { describe, expect, test } from 'bun:test';
+import { NonceSearchStrategy } from '../src/services/nonce-search';
+import type { MinerBackend, MinerRunRequest } from '../src/services/miner-backend';
+
+const request = { farmerId: 'farmer-1', farmerHex: 'ab'.repeat(32), blockIndex: 77, entropy: '5a'.repeat(32) };
+const hooks = { onWindowStart: () => {}, isCancelled: () => false };
+
+/**
+ * Backend whose runs take `delayMs` and return a hash with `zeros` leading zeros; cancelling resolves at once
+ */
+function fakeBackend(supportsStartNonce: boolean, delayMs: number, zeros = 2) {
+  const runs: MinerRunRequest[] = [];
+  const backend: MinerBackend = {
+    name: supportsStartNonce ? 'fake-windowed' : 'fake-binary',
+    supportsStartNonce,
+    start(run: MinerRunRequest) {
+      runs.push(run);
+      const output = { nonce: (run.startNonce ?? 0) + run.nonceCount - 1, hash: '0'.repeat(zeros) + 'f'.repeat(64 - zeros) };
+      let finish: (value: typeof output) => void = () => {};
+      const result = new Promise<typeof output>(resolve => {
+        finish = resolve;
+      });
+      const timer = setTimeout(() => finish(output), delayMs);
+      return {
+        result,
+        cancel: () => {
+          clearTimeout(timer);
+          finish(output);
+        }
+      };
+    }
+  };
+  return { backend, runs };
+}
+
+describe('NonceSearchStrategy', () => {
+  test('mines successive windows on backends with a start nonce', async () => {
+    const { backend, runs } = fakeBackend(true, 5);
+    const strategy = new NonceSearchStrategy(backend);
+
+    const { report } = await strategy.search(request, {
+      minZeros: 4,
+      maxZeros: 6,
+      deadlineAt: Date.now() + 60000,
+      firstWindowTimeoutMs: 60000,
+      startNonce: 1000
+    }, hooks);
+
+    expect(runs.map(run => [run.startNonce, run.nonceCount])).toEqual([[1000, 500], [1500, 500]]);
+    expect(report.targetZeros).toBe(6);
+    expect(report.noncesSearched).toBe(1000);
+    expect(report.stopReason).toBe('max_windows');
+  });
+
+  test('sizes nonce-0 backend runs to the remaining time, past the nonces already covered', async () => {
+    const { backend, runs } = fakeBackend(false, 5);
+    const strategy = new NonceSearchStrategy(backend);
+
+    const { report } = await strategy.search(request, {
+      deadlineAt: Date.now() + 60000,
+      firstWindowTimeoutMs: 60000
+    }, hooks);
+
+    expect(runs).toHaveLength(2);
+    expect(runs.every(run => run.startNonce === undefined)).toBe(true);
+    expect(runs[0]!.nonceCount).toBe(500);
+    expect(runs[1]!.nonceCount).toBeGreaterThan(1000);
+    expect(report.windows).toBe(2);
+    expect(report.noncesSearched).toBe(runs[1]!.nonceCount);
+  });
+
+  test('stops once the target is reached', async () => {
+    const { backend, runs } = fakeBackend(true, 1, 8);
+    const strategy = new NonceSearchStrategy(backend);
+
+    const { output, report } = await strategy.search(request, {
+      minZeros: 4,
+      maxZeros: 6,
+      deadlineAt: Date.now() + 60000,
+      firstWindowTimeoutMs: 60000
+    }, hooks);
+
+    expect(runs).toHaveLength(1);
+    expect(output!.nonce).toBe(499);
+    expect(report.bestZeros).toBe(8);
+    expect(report.stopReason).toBe('target_reached');
+  });
+
+  test('does not start a window expected to finish after the deadline', async () => {
+    const { backend, runs } = fakeBackend(true, 20);
+    const strategy = new NonceSearchStrategy(backend);
+
+    const { report } = await strategy.search(request, {
+      deadlineAt: Date.now() + 5,
+      firstWindowTimeoutMs: 60000,
+      cutoffAt: Date.now() + 60000
+    }, hooks);
+
+    expect(runs).toHaveLength(1);
+    expect(report.noncesSearched).toBe(500);
+    expect(report.stopReason).toBe('deadline');
+  });
+
+  test('caps the first window at the cutoff and keeps what the backend salvaged', async () => {
+    const { backend } = fakeBackend(true, 10000);
+    const strategy = new NonceSearchStrategy(backend);
+    const startedAt = Date.now();
+
+    const { output, report } = await strategy.search(request, {
+      deadlineAt: startedAt - 1000, // Planned submit time already passed
+      firstWindowTimeoutMs: 60000,
+      cutoffAt: startedAt + 50
+    }, hooks);
+
+    expect(Date.now() - startedAt).toBeLessThan(5000);
+    expect(output).not.toBeNull();
+    expect(report.windows).toBe(1);
+    expect(report.noncesSearched).toBe(0);
+    expect(report.stopReason).toBe('deadline');
+  });
+});
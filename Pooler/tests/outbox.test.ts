@@ -0,0 +1,153 @@
+// Tests for the Notification Outbox
+// Idempotent queueing, exponential backoff, dead-lettering and replay (stubbed fetch)
+
+import { afterEach, beforeEach, describe, expect, setSystemTime, test } from 'bun:test';
+import Config from '../../Shared/config';
+import { outbox } from '../src/services/outbox';
+import PoolerService from '../src/server';
+
+const realFetch = globalThis.fetch;
+const settle = () => new Promise(resolve => setTimeout(resolve, 20));
+
+interface Delivery {
+  url: string;
+  headers: Record<string, string>;
+  body: string;
+}
+
+let deliveries: Delivery[] = [];
+let respond: () => Response = () => Response.json({ acknowledged: true });
+
+function stubFetch(): void {
+  globalThis.fetch = (async (url: string | URL, init?: RequestInit) => {
+    deliveries.push({ url: url.toString(), headers: init!.headers as Record<string, string>, body: init!.body as string });
+    return respond();
+  }) as typeof fetch;
+}
+
+/**
+ * Fresh in-memory outbox, so messages and retry state don't leak between tests
+ */
+function createOutbox(maxAttempts = 3) {
+  const store = new (outbox as any).constructor(':memory:') as typeof outbox;
+  Object.assign(store, { MAX_ATTEMPTS: maxAttempts, BASE_DELAY_MS: 1000, MAX_DELAY_MS: 3000 });
+  return store;
+}
+
+const message = {
+  eventType: 'work_completed',
+  idempotencyKey: 'work-completed:pooler:7',
+  url: 'http://backend.test/pooler/work-completed',
+  payload: { blockIndex: 7 },
+  authenticated: true
+};
+
+describe('Outbox', () => {
+  beforeEach(() => {
+    deliveries = [];
+    respond = () => Response.json({ acknowledged: true });
+    stubFetch();
+  });
+
+  afterEach(() => {
+    globalThis.fetch = realFetch;
+    setSystemTime();
+  });
+
+  test('delivers a message once per idempotency key, signed at delivery', async () => {
+    const store = createOutbox();
+    const delivered: any[] = [];
+    store.onDelivered('work_completed', (payload, response) => {
+      delivered.push([payload, response]);
+    });
+
+    expect(store.enqueue(message)).toBe(true);
+    expect(store.enqueue({ ...message, payload: { blockIndex: 8 } })).toBe(false);
+    await settle();
+
+    expect(deliveries).toHaveLength(1);
+    expect(deliveries[0]!.headers['Idempotency-Key']).toBe(message.idempotencyKey);
+    expect(deliveries[0]!.headers['x-kale-signature']).toMatch(/^[0-9a-f]{64}$/);
+    expect(JSON.parse(deliveries[0]!.body)).toEqual({ blockIndex: 7 });
+    expect(delivered).toEqual([[{ blockIndex: 7 }, { acknowledged: true }]]);
+    expect(store.list()[0]!.status).toBe('delivered');
+    store.close();
+  });
+
+  test('backs off exponentially, then dead-letters after the last attempt', async () => {
+    const store = createOutbox();
+    respond = () => new Response('unavailable', { status: 503 });
+    const start = Date.now();
+    setSystemTime(new Date(start));
+
+    store.enqueue(message);
+    await settle();
+    const [retrying] = store.list();
+    expect(retrying!.attempts).toBe(1);
+    expect(retrying!.lastError).toBe('Backend responded with status 503: unavailable');
+    const firstDelay = Date.parse(retrying!.nextAttemptAt) - start;
+    expect(firstDelay).toBeGreaterThanOrEqual(800);
+    expect(firstDelay).toBeLessThanOrEqual(1200);
+
+    // Not due yet - nothing is sent
+    await store.dispatchDue();
+    expect(deliveries).toHaveLength(1);
+
+    setSystemTime(new Date(start + 1500));
+    await store.dispatchDue();
+    const secondDelay = Date.parse(store.list()[0]!.nextAttemptAt) - (start + 1500);
+    expect(secondDelay).toBeGreaterThanOrEqual(1600);
+    expect(secondDelay).toBeLessThanOrEqual(2400);
+
+    setSystemTime(new Date(start + 5000));
+    await store.dispatchDue();
+    expect(deliveries).toHaveLength(3);
+    expect(store.list()[0]!.status).toBe('dead');
+    expect(store.getStats()).toMatchObject({ pending: 0, delivered: 0, dead: 1 });
+    store.close();
+  });
+
+  test('replays dead-lettered messages', async () => {
+    const store = createOutbox(1);
+    respond = () => new Response('down', { status: 500 });
+    store.enqueue(message);
+    await settle();
+    const [dead] = store.list('dead');
+
+    respond = () => Response.json({ acknowledged: true });
+    expect(store.replay(dead!.id)).toBe(true);
+    await settle();
+
+    expect(store.get(dead!.id)!.status).toBe('delivered');
+    expect(store.replay(dead!.id)).toBe(false);
+    expect(store.replayDead()).toBe(0);
+    store.close();
+  });
+});
+
+describe('Startup block discovery', () => {
+  beforeEach(() => {
+    deliveries = [];
+    respond = () => Response.json({ acknowledged: true });
+    stubFetch();
+  });
+
+  afterEach(() => {
+    globalThis.fetch = realFetch;
+  });
+
+  test('is queued under the block monitor key, so a block is announced once', async () => {
+    const block = { entropy: Buffer.alloc(32, 1), timestamp: BigInt(Math.floor(Date.now() / 1000) - 20) };
+    const notify = (PoolerService.prototype as any).sendBlockDiscoveryNotification;
+
+    notify(31337, block);
+    notify(31337, block);
+    await settle();
+
+    const queued = outbox.list().filter(entry => entry.idempotencyKey === `block-discovered:${Config.POOLER.ID}:31337`);
+    expect(queued).toHaveLength(1);
+    expect(queued[0]!.status).toBe('delivered');
+    expect(queued[0]!.payload).toMatchObject({ blockIndex: 31337, source: 'startup_check', entropy: '01'.repeat(32) });
+    expect(deliveries.filter(delivery => delivery.url.endsWith('/pooler/block-discovered'))).toHaveLength(1);
+  });
+});
@@ -0,0 +1,85 @@
+// Tests for the Pool Coordinator
+// Work left unfinished by a previous run or held by a farm pause is rescheduled from the job store
+
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { jobStore } from '../src/services/job-store';
+import { poolCoordinator, type PlantingNotification } from '../src/services/pool-coordinator';
+
+const realFetch = globalThis.fetch;
+const realStartBlockWork = (poolCoordinator as any).startBlockWork;
+let started: PlantingNotification[] = [];
+
+beforeEach(() => {
+  started = [];
+  globalThis.fetch = (async () => Response.json({ acknowledged: true })) as unknown as typeof fetch;
+  (poolCoordinator as any).startBlockWork = (notification: PlantingNotification) => started.push(notification);
+});
+
+afterEach(() => {
+  globalThis.fetch = realFetch;
+  (poolCoordinator as any).startBlockWork = realStartBlockWork;
+});
+
+describe('PoolCoordinator.recoverPendingWork', () => {
+  test('reschedules unfinished farmers of an open block with their custodial keys', async () => {
+    const blockIndex = 5000;
+    jobStore.saveBlock({
+      blockIndex,
+      entropy: 'cd'.repeat(32),
+      blockTimestamp: Math.floor(Date.now() / 1000) - 30,
+      plantedFarmers: [
+        { farmerId: 'farmer-a', custodialWallet: 'GA_WALLET_A', custodialKey: 'ref:key-a', stakeAmount: '100', plantingTime: new Date() },
+        { farmerId: 'farmer-b', custodialWallet: 'GA_WALLET_B', custodialKey: 'ref:key-b', stakeAmount: '100', plantingTime: new Date() }
+      ]
+    });
+    jobStore.updateJobStatus(blockIndex, 'farmer-a', 'mining');
+    jobStore.updateJobStatus(blockIndex, 'farmer-b', 'completed');
+
+    const { rescheduled } = await poolCoordinator.recoverPendingWork(blockIndex);
+
+    expect(rescheduled).toEqual([blockIndex]);
+    expect(started[0]!.plantedFarmers).toHaveLength(1);
+    expect(started[0]!.plantedFarmers[0]).toMatchObject({ farmerId: 'farmer-a', custodialKey: 'ref:key-a' });
+  });
+});
+
+describe('PoolCoordinator farm pause', () => {
+  test('stores plantings while paused and schedules them on resume', async () => {
+    const blockIndex = 5100;
+    await poolCoordinator.setFarmPaused(true);
+
+    await poolCoordinator.receivePlantingNotification({
+      blockIndex,
+      entropy: 'cd'.repeat(32),
+      blockTimestamp: Math.floor(Date.now() / 1000) - 30,
+      plantedFarmers: [{ farmerId: 'farmer-c', custodialWallet: 'GA_WALLET_C', stakeAmount: '100', plantingTime: new Date() }]
+    });
+    expect(started).toHaveLength(0);
+    expect(jobStore.getBlockJobs(blockIndex)[0]!.status).toBe('pending');
+
+    await poolCoordinator.setFarmPaused(false, blockIndex);
+
+    expect(started.map(notification => notification.blockIndex)).toEqual([blockIndex]);
+  });
+
+  test('leaves a batch with held farmers open', async () => {
+    const blockIndex = 5200;
+    jobStore.saveBlock({
+      blockIndex,
+      entropy: 'cd'.repeat(32),
+      blockTimestamp: Math.floor(Date.now() / 1000) - 30,
+      plantedFarmers: [{ farmerId: 'farmer-d', custodialWallet: 'GA_WALLET_D', stakeAmount: '100', plantingTime: new Date() }]
+    });
+
+    await (poolCoordinator as any).handleWorkCompletion(blockIndex, {
+      blockIndex,
+      poolerId: 'pooler',
+      workResults: [],
+      heldFarmerIds: ['farmer-d'],
+      totalWorkTime: 0,
+      timestamp: new Date().toISOString()
+    });
+
+    expect(jobStore.getBlock(blockIndex)!.status).toBe('scheduled');
+  });
+});
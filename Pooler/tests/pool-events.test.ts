@@ -0,0 +1,146 @@
+// Tests for the Pool Event Bus and its WebSocket endpoint
+// Filtered fan-out, replay after an event id, and the /events/ws stream with live filter updates
+
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { EventSocket } from '../src/services/event-socket';
+import { poolEvents, type PoolEvent } from '../src/services/pool-events';
+
+describe('PoolEventBus', () => {
+  test('delivers only events matching the filter, including block-wide farmer lists', () => {
+    const received: PoolEvent[] = [];
+    const unsubscribe = poolEvents.subscribe({ types: ['work_started', 'planting_received'], farmerId: 'farmer-x' }, event => {
+      received.push(event);
+    });
+
+    poolEvents.publish('work_started', {}, { blockIndex: 1, farmerId: 'farmer-x' });
+    poolEvents.publish('work_started', {}, { blockIndex: 1, farmerId: 'farmer-y' });
+    poolEvents.publish('work_finished', {}, { blockIndex: 1, farmerId: 'farmer-x' });
+    poolEvents.publish('planting_received', {}, { blockIndex: 1, farmerIds: ['farmer-w', 'farmer-x'] });
+    unsubscribe();
+    poolEvents.publish('work_started', {}, { blockIndex: 2, farmerId: 'farmer-x' });
+
+    expect(received.map(event => [event.type, event.blockIndex])).toEqual([['work_started', 1], ['planting_received', 1]]);
+  });
+
+  test('keeps publishing when a subscriber throws', () => {
+    const received: PoolEvent[] = [];
+    const unsubscribeBroken = poolEvents.subscribe({}, () => {
+      throw new Error('broken subscriber');
+    });
+    const unsubscribe = poolEvents.subscribe({}, event => {
+      received.push(event);
+    });
+
+    poolEvents.publish('error', { source: 'test' });
+    unsubscribeBroken();
+    unsubscribe();
+
+    expect(received).toHaveLength(1);
+  });
+
+  test('replays buffered events after an id', () => {
+    const lastEventId = poolEvents.getStats().lastEventId;
+    poolEvents.publish('work_submitted', {}, { blockIndex: 77 });
+    poolEvents.publish('work_submitted', {}, { blockIndex: 78 });
+
+    expect(poolEvents.since(lastEventId, { blockIndex: 78 }).map(event => event.id)).toEqual([lastEventId + 2]);
+  });
+
+  test('parses query filters and rejects unknown types or bad block indexes', () => {
+    expect(poolEvents.parseFilter({ types: 'work_started, error', block_index: '12', farmer_id: 'farmer-x' })).toEqual({
+      types: ['work_started', 'error'],
+      blockIndex: 12,
+      farmerId: 'farmer-x'
+    });
+    expect(poolEvents.parseFilter({ types: 'work_started,teleported' })).toEqual({ error: 'Unknown event types: teleported' });
+    expect(poolEvents.parseFilter({ block_index: '-3' })).toEqual({ error: 'block_index must be a block index' });
+  });
+});
+
+describe('EventSocket', () => {
+  let server: Server;
+  let eventSocket: EventSocket;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    server = createServer();
+    eventSocket = new EventSocket('/events/ws');
+    eventSocket.attach(server);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `ws://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    eventSocket.close();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  /**
+   * Open a client and collect its parsed messages
+   */
+  async function connect(query: string): Promise<{ socket: WebSocket; messages: any[]; next: () => Promise<any> }> {
+    const socket = new WebSocket(`${baseUrl}/events/ws${query}`);
+    const messages: any[] = [];
+    const waiting: Array<(message: any) => void> = [];
+    socket.addEventListener('message', event => {
+      const message = JSON.parse(String(event.data));
+      messages.push(message);
+      waiting.shift()?.(message);
+    });
+    await new Promise((resolve, reject) => {
+      socket.addEventListener('open', resolve);
+      socket.addEventListener('error', reject);
+    });
+
+    let read = 0;
+    const next = () => read < messages.length
+      ? Promise.resolve(messages[read++])
+      : new Promise<any>(resolve => waiting.push(message => {
+        read++;
+        resolve(message);
+      }));
+    return { socket, messages, next };
+  }
+
+  test('streams matching events and follows subscribe messages', async () => {
+    const { socket, next } = await connect('?types=work_finished&block_index=4400');
+    expect(await next()).toEqual({ type: 'subscribed', filter: { types: ['work_finished'], blockIndex: 4400 } });
+
+    poolEvents.publish('work_finished', { status: 'success' }, { blockIndex: 4399, farmerId: 'farmer-a' });
+    poolEvents.publish('work_finished', { status: 'success' }, { blockIndex: 4400, farmerId: 'farmer-a' });
+    expect(await next()).toMatchObject({ type: 'work_finished', blockIndex: 4400, data: { status: 'success' } });
+
+    socket.send(JSON.stringify({ type: 'subscribe', types: ['harvest_result'] }));
+    expect(await next()).toEqual({ type: 'subscribed', filter: { types: ['harvest_result'] } });
+    poolEvents.publish('work_finished', {}, { blockIndex: 4400 });
+    poolEvents.publish('harvest_result', { status: 'harvested' }, { blockIndex: 4401 });
+    expect(await next()).toMatchObject({ type: 'harvest_result', blockIndex: 4401 });
+
+    socket.send('not json');
+    expect(await next()).toEqual({ type: 'error', error: 'Messages must be JSON' });
+    socket.send(JSON.stringify({ type: 'subscribe', types: ['teleported'] }));
+    expect(await next()).toEqual({ type: 'error', error: 'Unknown event types: teleported' });
+
+    socket.close();
+  });
+
+  test('refuses connections with an invalid filter', async () => {
+    await expect(connect('?types=teleported')).rejects.toBeDefined();
+  });
+
+  test('forgets clients once they disconnect', async () => {
+    const { socket, next } = await connect('');
+    await next();
+    expect(eventSocket.getStats().clients).toBe(1);
+
+    await new Promise(resolve => {
+      socket.addEventListener('close', resolve);
+      socket.close();
+    });
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    expect(eventSocket.getStats().clients).toBe(0);
+  });
+});
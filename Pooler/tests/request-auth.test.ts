@@ -0,0 +1,69 @@
+// Tests for Request Authentication
+// HMAC signatures over the canonical request, the timestamp window, nonce replay and operator Bearer tokens
+
+import { describe, expect, test } from 'bun:test';
+import type { IncomingHttpHeaders } from 'http';
+import { createHmac, randomBytes } from 'crypto';
+import { AUTH_HEADERS, requestAuth, type SignableRequest } from '../src/services/request-auth';
+
+const request: SignableRequest = { method: 'POST', path: '/pooler/work-completed?x=1', body: '{"blockIndex":1}' };
+
+// Headers signed as the Backend would with one of the configured keys (see tests/setup.ts)
+function signAs(keyId: string, secret: string, timestamp = Date.now()): IncomingHttpHeaders {
+  const nonce = randomBytes(16).toString('hex');
+  const canonical = [timestamp, nonce, request.method, request.path, request.body].join('\n');
+  return {
+    [AUTH_HEADERS.KEY_ID]: keyId,
+    [AUTH_HEADERS.TIMESTAMP]: timestamp.toString(),
+    [AUTH_HEADERS.NONCE]: nonce,
+    [AUTH_HEADERS.SIGNATURE]: createHmac('sha256', secret).update(canonical).digest('hex')
+  };
+}
+
+describe('requestAuth.verify', () => {
+  test('accepts its own signed requests', () => {
+    expect(requestAuth.verify(request, requestAuth.sign(request))).toEqual({ ok: true, keyId: 'current' });
+  });
+
+  test('accepts every configured key, so secrets can rotate', () => {
+    expect(requestAuth.verify(request, signAs('previous', 'test-hmac-secret-previous'))).toEqual({ ok: true, keyId: 'previous' });
+  });
+
+  test('rejects a replayed nonce', () => {
+    const headers = requestAuth.sign(request);
+
+    expect(requestAuth.verify(request, headers).ok).toBe(true);
+    expect(requestAuth.verify(request, headers)).toEqual({ ok: false, status: 403, error: 'Replayed request' });
+  });
+
+  test('rejects a request changed after signing without using up its nonce', () => {
+    const headers = requestAuth.sign(request);
+
+    expect(requestAuth.verify({ ...request, body: '{"blockIndex":2}' }, headers)).toMatchObject({ ok: false, status: 403, error: 'Invalid request signature' });
+    expect(requestAuth.verify({ ...request, path: '/pooler/work-completed' }, headers)).toMatchObject({ status: 403 });
+    expect(requestAuth.verify({ ...request, method: 'PUT' }, headers)).toMatchObject({ status: 403 });
+    expect(requestAuth.verify(request, headers).ok).toBe(true);
+  });
+
+  test('rejects signatures made with the wrong secret', () => {
+    expect(requestAuth.verify(request, signAs('current', 'not-the-configured-secret'))).toMatchObject({ status: 403, error: 'Invalid request signature' });
+  });
+
+  test('rejects unknown keys, stale timestamps, bad nonces and missing headers', () => {
+    expect(requestAuth.verify(request, signAs('retired', 'test-hmac-secret-current'))).toMatchObject({ status: 401, error: 'Unknown signing key' });
+    expect(requestAuth.verify(request, signAs('current', 'test-hmac-secret-current', Date.now() - 10 * 60 * 1000)))
+      .toMatchObject({ status: 401, error: 'Request timestamp outside the allowed window' });
+    expect(requestAuth.verify(request, { ...requestAuth.sign(request), [AUTH_HEADERS.NONCE]: 'short' }))
+      .toMatchObject({ status: 401, error: 'Invalid request nonce' });
+    expect(requestAuth.verify(request, {})).toMatchObject({ status: 401, error: 'Signed request headers required' });
+  });
+});
+
+describe('requestAuth.verifyBearer', () => {
+  test('accepts only the configured operator token', () => {
+    expect(requestAuth.verifyBearer('Bearer test-operator-token')).toEqual({ ok: true, keyId: 'bearer' });
+    expect(requestAuth.verifyBearer('Bearer test-operator-token-2')).toMatchObject({ ok: false, status: 403 });
+    expect(requestAuth.verifyBearer('test-operator-token')).toMatchObject({ ok: false, status: 401 });
+    expect(requestAuth.verifyBearer(undefined)).toMatchObject({ ok: false, status: 401 });
+  });
+});
@@ -0,0 +1,114 @@
+// Tests for the RPC Gateway
+// Failover on endpoint errors, cooldown after repeated failures and ranking by ledger lag
+
+import { describe, expect, test } from 'bun:test';
+import { rpcGateway } from '../src/services/rpc-gateway';
+
+const URLS = ['http://rpc-a.test', 'http://rpc-b.test', 'http://rpc-c.test'];
+
+/**
+ * Fresh gateway whose endpoints report the given latest ledgers (an Error makes the probe fail)
+ */
+function createGateway(ledgers: Array<number | Error> = []): typeof rpcGateway {
+  const gateway = new (rpcGateway as any).constructor(URLS) as typeof rpcGateway;
+  (gateway as any).endpoints.forEach((endpoint: any, index: number) => {
+    endpoint.server = {
+      getLatestLedger: async () => {
+        const ledger = ledgers[index];
+        if (ledger instanceof Error) {
+          throw ledger;
+        }
+        return { sequence: ledger ?? 1000 };
+      }
+    };
+  });
+  return gateway;
+}
+
+describe('RpcGateway.call', () => {
+  test('fails over on endpoint errors', async () => {
+    const gateway = createGateway();
+    const tried: string[] = [];
+
+    const result = await gateway.call('getLedgerEntries', async endpoint => {
+      tried.push(endpoint.url);
+      if (endpoint.url === tried[0]) {
+        throw new Error('connect ECONNREFUSED 127.0.0.1:8000');
+      }
+      return endpoint.url;
+    });
+
+    expect(tried).toHaveLength(2);
+    expect(result).toBe(tried[1]!);
+    expect(gateway.getHealth().find(health => health.url === tried[0])!.lastError).toBe('connect ECONNREFUSED 127.0.0.1:8000');
+  });
+
+  test('throws request errors without trying other endpoints', async () => {
+    const gateway = createGateway();
+    let calls = 0;
+
+    const call = gateway.call('getLedgerEntries', async () => {
+      calls++;
+      throw new Error('Contract data not found');
+    });
+
+    await expect(call).rejects.toThrow('Contract data not found');
+    expect(calls).toBe(1);
+  });
+
+  test('throws the last endpoint error once every endpoint failed', async () => {
+    const gateway = createGateway();
+
+    const call = gateway.call('simulateTransaction', async endpoint => {
+      throw new Error(`Request failed with status code 503 at ${endpoint.url}`);
+    });
+
+    await expect(call).rejects.toThrow('status code 503');
+  });
+
+  test('cools an endpoint down after repeated failures and tries it last', async () => {
+    const gateway = createGateway([new Error('request timed out'), 1000, 1000]);
+    for (let round = 0; round < 3; round++) {
+      await gateway.refreshHealth();
+    }
+    const tried: string[] = [];
+
+    await expect(gateway.call('getLatestLedger', async endpoint => {
+      tried.push(endpoint.url);
+      throw new Error('socket hang up');
+    })).rejects.toThrow('socket hang up');
+
+    expect(tried.at(-1)).toBe('http://rpc-a.test');
+    expect(gateway.getHealth().find(entry => entry.url === 'http://rpc-a.test')).toMatchObject({
+      healthy: false,
+      consecutiveFailures: 4,
+      lastError: 'socket hang up'
+    });
+  });
+});
+
+describe('RpcGateway health', () => {
+  test('marks endpoints lagging the best ledger as unhealthy', async () => {
+    const gateway = createGateway([1000, 1010, 1009]);
+
+    await gateway.refreshHealth();
+
+    const health = gateway.getHealth();
+    expect(health.map(entry => [entry.url, entry.healthy, entry.ledgerLag])).toEqual([
+      ['http://rpc-b.test', true, 0],
+      ['http://rpc-c.test', true, 1],
+      ['http://rpc-a.test', false, 10]
+    ]);
+  });
+
+  test('reports unavailable when every endpoint is cooling down', async () => {
+    const gateway = createGateway([new Error('fetch failed'), new Error('fetch failed'), new Error('fetch failed')]);
+
+    for (let round = 0; round < 3; round++) {
+      await gateway.refreshHealth();
+    }
+
+    expect(gateway.isAvailable()).toBe(false);
+    expect(gateway.getHealth().every(entry => entry.errorRate === 1)).toBe(true);
+  });
+});
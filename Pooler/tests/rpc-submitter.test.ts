@@ -0,0 +1,171 @@
+// Tests for direct RPC submission and the submission policy
+// Re-sourced signed envelopes, sendTransaction outcomes, and Launchtube/RPC routing per SUBMISSION_POLICY (stubbed RPC)
+
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { Account, Keypair, Operation, SorobanDataBuilder, Transaction, TransactionBuilder } from '@stellar/stellar-sdk';
+import Config from '../../Shared/config';
+import { rpcGateway } from '../src/services/rpc-gateway';
+import { rpcSubmitter } from '../src/services/rpc-submitter';
+import { feeManager } from '../src/services/fee-manager';
+import { keyCustody } from '../src/services/key-custody';
+import { WorkSubmissionService } from '../src/services/work-submission-service';
+
+const realCall = rpcGateway.call;
+const realSubmit = rpcSubmitter.submit;
+const realPrice = feeManager.price;
+
+const farmer = Keypair.random();
+const signer = keyCustody.signerFor(keyCustody.seal(farmer.secret(), farmer.publicKey()), farmer.publicKey());
+
+/**
+ * Simulated contract call as the contract client builds it (sourced from a throwaway account)
+ */
+function simulatedCall(): Transaction {
+  return new TransactionBuilder(new Account(Keypair.random().publicKey(), '10'), {
+    fee: '12345',
+    networkPassphrase: Config.STELLAR.NETWORK_PASSPHRASE
+  })
+    .addOperation(Operation.invokeContractFunction({ contract: Config.STELLAR.CONTRACT_ID, function: 'work', args: [] }))
+    .setSorobanData(new SorobanDataBuilder().setResourceFee(5000).build())
+    .setTimeout(30)
+    .build();
+}
+
+describe('RpcSubmitter', () => {
+  let sent: Transaction[];
+  let sendResponse: Record<string, unknown>;
+
+  beforeEach(() => {
+    sent = [];
+    sendResponse = { status: 'PENDING' };
+    const server = {
+      getAccount: async (publicKey: string) => new Account(publicKey, '41'),
+      sendTransaction: async (transaction: Transaction) => {
+        sent.push(transaction);
+        return { hash: transaction.hash().toString('hex'), ...sendResponse };
+      }
+    };
+    rpcGateway.call = (async (_operation: string, fn: (endpoint: any) => Promise<unknown>) => fn({ url: 'http://rpc.test', server })) as any;
+  });
+
+  afterEach(() => {
+    rpcGateway.call = realCall;
+  });
+
+  test('re-sources the call to the signer, keeps its fee and signs it', async () => {
+    const simulated = simulatedCall();
+
+    const result = await rpcSubmitter.submit(simulated, signer);
+
+    expect(result.submittedVia).toBe('rpc');
+    expect(sent).toHaveLength(1);
+    expect(sent[0]!.source).toBe(farmer.publicKey());
+    expect(sent[0]!.sequence).toBe('42');
+    expect(sent[0]!.fee).toBe(simulated.fee);
+    expect(sent[0]!.signatures).toHaveLength(1);
+    expect(farmer.verify(sent[0]!.hash(), sent[0]!.signatures[0]!.signature())).toBe(true);
+    expect(result.transactionHash).toBe(sent[0]!.hash().toString('hex'));
+  });
+
+  test('throws on a rejected or throttled send', async () => {
+    sendResponse = { status: 'TRY_AGAIN_LATER' };
+    await expect(rpcSubmitter.submit(simulatedCall(), signer)).rejects.toThrow('TRY_AGAIN_LATER');
+
+    sendResponse = { status: 'ERROR' };
+    await expect(rpcSubmitter.submit(simulatedCall(), signer)).rejects.toThrow('RPC sendTransaction rejected');
+  });
+});
+
+describe('WorkSubmissionService submission policy', () => {
+  let service: WorkSubmissionService;
+  let paths: string[];
+  let launchtubeFails: boolean;
+  let rpcFails: boolean;
+
+  /**
+   * Route a transaction with both paths stubbed; confirmation is taken as immediate
+   */
+  function submit(policy: string, context: Record<string, unknown> = { signer }) {
+    const internals = service as any;
+    internals.POLICY = policy;
+    return internals.submitTransaction('work', { built: simulatedCall() }, context);
+  }
+
+  beforeEach(() => {
+    service = new WorkSubmissionService();
+    paths = [];
+    launchtubeFails = false;
+    rpcFails = false;
+
+    const internals = service as any;
+    feeManager.price = (async (_operation: string, xdr: string) => ({
+      transaction: TransactionBuilder.fromXDR(xdr, Config.STELLAR.NETWORK_PASSPHRASE),
+      quote: { maxFee: 20000n }
+    })) as any;
+    internals.sendViaLaunchtubeWithRetry = async () => {
+      paths.push('launchtube');
+      if (launchtubeFails) {
+        throw new Error('Launchtube submission failed: no credits');
+      }
+      return { hash: 'launchtube-hash' };
+    };
+    rpcSubmitter.submit = (async () => {
+      paths.push('rpc');
+      if (rpcFails) {
+        throw new Error('RPC sendTransaction: TRY_AGAIN_LATER (network error - retry)');
+      }
+      return { transactionHash: 'rpc-hash', submittedVia: 'rpc', signed: simulatedCall() };
+    }) as any;
+    internals.sendAndConfirm = async (_operation: string, _context: unknown, _quote: unknown, send: () => Promise<any>) => {
+      const { sent } = await send();
+      return { ...sent, transactionHash: sent.transactionHash ?? sent.hash, ledger: 1010 };
+    };
+  });
+
+  afterEach(() => {
+    rpcSubmitter.submit = realSubmit;
+    feeManager.price = realPrice;
+  });
+
+  test('launchtube_first only uses RPC once Launchtube fails', async () => {
+    expect((await submit('launchtube_first')).submittedVia).toBe('launchtube');
+    expect(paths).toEqual(['launchtube']);
+
+    launchtubeFails = true;
+    expect((await submit('launchtube_first')).transactionHash).toBe('rpc-hash');
+    expect(paths).toEqual(['launchtube', 'launchtube', 'rpc']);
+  });
+
+  test('rpc_first falls back to Launchtube', async () => {
+    rpcFails = true;
+
+    const confirmed = await submit('rpc_first');
+
+    expect(confirmed.submittedVia).toBe('launchtube');
+    expect(paths).toEqual(['rpc', 'launchtube']);
+  });
+
+  test('reports both errors when every path fails', async () => {
+    launchtubeFails = true;
+    rpcFails = true;
+
+    await expect(submit('launchtube_first')).rejects.toThrow('no credits; fallback: RPC sendTransaction: TRY_AGAIN_LATER');
+  });
+
+  test('race sends both and takes the first confirmed', async () => {
+    launchtubeFails = true;
+
+    const confirmed = await submit('race');
+
+    expect(paths.sort()).toEqual(['launchtube', 'rpc']);
+    expect(confirmed.transactionHash).toBe('rpc-hash');
+  });
+
+  test('uses Launchtube alone without a source account or under launchtube_only', async () => {
+    launchtubeFails = true;
+
+    await expect(submit('rpc_first', {})).rejects.toThrow('no credits');
+    await expect(submit('launchtube_only')).rejects.toThrow('no credits');
+    expect(paths).toEqual(['launchtube', 'launchtube']);
+  });
+});
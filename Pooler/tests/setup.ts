@@ -0,0 +1,13 @@
+// Test Setup for KALE Pool Mining Pooler
+// Minimal environment so modules that load Config (and their SQLite-backed singletons) import under `bun test`
+
+process.env.CONTRACT_ID ??= 'CDL74RF5BLYR2YBLCCI7F5FB6TPSCLKEJUBSD2RSVWZ4YHF3VMFAIGWA';
+process.env.JOB_STORE_PATH ??= ':memory:';
+process.env.POOLER_AUTH_TOKEN ??= 'test-operator-token';
+process.env.POOLER_HMAC_KEYS ??= 'current:test-hmac-secret-current,previous:test-hmac-secret-previous';
+process.env.LOG_LEVEL ??= 'error';
+process.env.NODE_ENV ??= 'test';
+process.env.WORKER_POOL_SIZE ??= '2';
+process.env.MINER_BACKEND ??= 'typescript';
+process.env.MINER_WINDOW_NONCES ??= '500';
+process.env.MINER_MAX_WINDOWS ??= '2';
@@ -0,0 +1,99 @@
+// Tests for the Tractor Harvester
+// Batched kale-tractor harvests with per-pail rewards, batch splitting and single-pail fallbacks
+
+import { describe, expect, test } from 'bun:test';
+import { TractorContractError, TractorHarvester } from '../src/services/tractor-harvester';
+import type { HarvestSubmissionResult, WorkSubmissionService } from '../src/services/work-submission-service';
+
+const FARMER = 'GA_FARMER';
+
+/**
+ * Submission service answering tractor batches with `tractor` and single harvests with `single`
+ */
+function createHarvester(
+  tractor: (pails: number[]) => HarvestSubmissionResult,
+  single: (pail: number) => HarvestSubmissionResult = () => ({ success: true, rewards: [1n], transactionHash: 'tx-single' })
+) {
+  const batches: number[][] = [];
+  const singles: number[] = [];
+  const service = {
+    submitTractorHarvest: async (_farmer: string, pails: number[]) => {
+      batches.push(pails);
+      return tractor(pails);
+    },
+    submitHarvest: async (_farmer: string, pail: number) => {
+      singles.push(pail);
+      return single(pail);
+    }
+  } as unknown as WorkSubmissionService;
+
+  return { harvester: new TractorHarvester(service), batches, singles };
+}
+
+const oversized: HarvestSubmissionResult = {
+  success: false,
+  error: 'Budget exceeded',
+  failureReason: { category: 'host', code: 'Budget.ExceededLimit', retryable: false, message: 'Budget exceeded' }
+};
+
+describe('TractorHarvester', () => {
+  test('splits pails into batches and gives each pail its own reward', async () => {
+    const pails = Array.from({ length: 25 }, (_, index) => 100 + index);
+    const { harvester, batches, singles } = createHarvester(batch => ({
+      success: true,
+      transactionHash: `tx-${batch[0]}`,
+      rewards: batch.map(pail => BigInt(pail))
+    }));
+
+    const results = await harvester.harvest(FARMER, [...pails, 100].reverse());
+
+    expect(batches.map(batch => batch.length)).toEqual([20, 5]);
+    expect(batches[0]![0]).toBe(100);
+    expect(singles).toHaveLength(0);
+    expect(results.get(124)).toEqual({ success: true, transactionHash: 'tx-120', rewards: [124n] });
+  });
+
+  test('harvests zero-reward pails singly to tell early from worthless', async () => {
+    const { harvester, singles } = createHarvester(() => ({ success: true, transactionHash: 'tx-batch', rewards: [5n, 0n] }));
+
+    const results = await harvester.harvest(FARMER, [1, 2]);
+
+    expect(singles).toEqual([2]);
+    expect(results.get(1)!.rewards).toEqual([5n]);
+    expect(results.get(2)!.transactionHash).toBe('tx-single');
+  });
+
+  test('falls back to single harvests when the tractor finds nothing harvestable', async () => {
+    const { harvester, singles } = createHarvester(() => ({ success: false, errorCode: TractorContractError.NoHarvestablePails }));
+
+    await harvester.harvest(FARMER, [7, 8]);
+
+    expect(singles).toEqual([7, 8]);
+  });
+
+  test('halves oversized batches until they fit', async () => {
+    const { harvester, batches } = createHarvester(batch => batch.length > 2
+      ? oversized
+      : { success: true, transactionHash: 'tx-small', rewards: batch.map(() => 3n) });
+
+    const results = await harvester.harvest(FARMER, [1, 2, 3, 4, 5]);
+
+    expect(batches).toEqual([[1, 2, 3, 4, 5], [1, 2, 3], [1, 2], [3], [4, 5]]);
+    expect([...results.values()].every(result => result.success)).toBe(true);
+  });
+
+  test('does not retry batches refused by the fee caps', async () => {
+    const refused: HarvestSubmissionResult = {
+      success: false,
+      error: 'Fee cap exceeded',
+      failureReason: { category: 'submission', code: 'FEE_CAP_EXCEEDED', retryable: false, message: 'Fee cap exceeded' }
+    };
+    const { harvester, batches, singles } = createHarvester(() => refused);
+
+    const results = await harvester.harvest(FARMER, [1, 2, 3]);
+
+    expect(batches).toHaveLength(1);
+    expect(singles).toHaveLength(0);
+    expect(results.get(3)).toBe(refused);
+  });
+});
@@ -0,0 +1,160 @@
+// Tests for the Transaction Tracker
+// Submitted transactions polled to SUCCESS, FAILED or NOT_FOUND (fresh in-memory tracker, stubbed getTransaction)
+
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { nativeToScVal } from '@stellar/stellar-sdk';
+import { Api } from '@stellar/stellar-sdk/rpc';
+import { rpcGateway } from '../src/services/rpc-gateway';
+import { transactionTracker } from '../src/services/transaction-tracker';
+
+type Tracker = typeof transactionTracker;
+
+const realCall = rpcGateway.call;
+
+const success = (ledger: number) => ({
+  status: Api.GetTransactionStatus.SUCCESS,
+  ledger,
+  returnValue: nativeToScVal(24n, { type: 'u64' }),
+  resultXdr: { feeCharged: () => 1234n }
+});
+
+// A work call the contract trapped in (no diagnostic events)
+const failure = (ledger: number) => ({
+  status: Api.GetTransactionStatus.FAILED,
+  ledger,
+  resultXdr: {
+    feeCharged: () => 900n,
+    result: () => ({
+      switch: () => ({ name: 'txFailed' }),
+      results: () => [{
+        tr: () => ({
+          switch: () => ({ name: 'invokeHostFunction' }),
+          invokeHostFunctionResult: () => ({ switch: () => ({ name: 'invokeHostFunctionTrapped' }) })
+        })
+      }]
+    })
+  },
+  resultMetaXdr: { v3: () => { throw new Error('not v3 meta'); } }
+});
+
+const notFound = { status: Api.GetTransactionStatus.NOT_FOUND };
+
+describe('TransactionTracker', () => {
+  let tracker: Tracker;
+  let responses: Map<string, unknown[]>;
+
+  const input = (hash: string) => ({ hash, operation: 'work', submittedVia: 'rpc' as const, farmer: 'farmer-1', blockIndex: 640 });
+
+  beforeEach(() => {
+    tracker = new (transactionTracker as any).constructor(':memory:');
+    Object.assign(tracker, { POLL_INTERVAL_MS: 5, CONFIRM_TIMEOUT_MS: 100 });
+    responses = new Map();
+
+    // Each hash answers its queued responses in turn, then repeats the last one
+    const server = {
+      getTransaction: async (hash: string) => {
+        const queued = responses.get(hash) ?? [notFound];
+        const response = queued.length > 1 ? queued.shift() : queued[0];
+        if (response instanceof Error) {
+          throw response;
+        }
+        return response;
+      }
+    };
+    rpcGateway.call = (async (_operation: string, fn: (endpoint: any) => Promise<unknown>) => fn({ url: 'http://rpc.test', server })) as any;
+  });
+
+  afterEach(() => {
+    rpcGateway.call = realCall;
+    tracker.close();
+  });
+
+  test('polls past NOT_FOUND and poll errors until the transaction is confirmed', async () => {
+    responses.set('tx-ok', [notFound, new Error('socket hang up'), success(1010)]);
+
+    const tracked = await tracker.trackUntilFinal(input('tx-ok'));
+
+    expect(tracked.status).toBe('SUCCESS');
+    expect(tracked.ledger).toBe(1010);
+    expect(tracked.result).toBe('24');
+    expect(tracked.feeCharged).toBe(1234);
+    expect(tracked.polls).toBe(3);
+    expect(tracked.farmer).toBe('farmer-1');
+    expect(tracked.blockIndex).toBe(640);
+  });
+
+  test('records the result code of a transaction that failed on-chain', async () => {
+    responses.set('tx-failed', [failure(1011)]);
+
+    const tracked = await tracker.trackUntilFinal(input('tx-failed'));
+
+    expect(tracked.status).toBe('FAILED');
+    expect(tracked.ledger).toBe(1011);
+    expect(tracked.error).toBe('txFailed/invokeHostFunctionTrapped');
+  });
+
+  test('marks a transaction not seen by its deadline NOT_FOUND', async () => {
+    const tracked = await tracker.trackUntilFinal(input('tx-lost'), Date.now() + 30);
+
+    expect(tracked.status).toBe('NOT_FOUND');
+    expect(tracked.error).toContain('(timeout)');
+    expect(tracked.polls).toBeGreaterThan(1);
+  });
+
+  test('keeps the original record when the same envelope is re-sent', async () => {
+    responses.set('tx-again', [success(1012)]);
+    await tracker.trackUntilFinal(input('tx-again'));
+
+    const resent = await tracker.trackUntilFinal({ ...input('tx-again'), submittedVia: 'launchtube' });
+
+    expect(resent.submittedVia).toBe('rpc');
+    expect(resent.polls).toBe(2);
+  });
+
+  test('tracks a fee bump sent for a transaction still pending at its escalation time', async () => {
+    responses.set('tx-bump', [notFound, success(1013)]);
+    let replacements = 0;
+
+    const tracked = await tracker.trackUntilFinal(input('tx-slow'), Date.now() + 100, {
+      at: Date.now(),
+      replace: async () => {
+        replacements++;
+        return 'tx-bump';
+      }
+    });
+
+    expect(replacements).toBe(1);
+    expect(tracked.hash).toBe('tx-bump');
+    expect(tracked.status).toBe('SUCCESS');
+    expect(tracker.get('tx-slow')!.status).toBe('NOT_FOUND');
+    expect(tracker.get('tx-slow')!.error).toBe('Superseded by tx-bump');
+  });
+
+  test('keeps tracking the original when the fee bump cannot be sent', async () => {
+    responses.set('tx-slow', [notFound, success(1014)]);
+
+    const tracked = await tracker.trackUntilFinal(input('tx-slow'), Date.now() + 100, {
+      at: Date.now(),
+      replace: async () => {
+        throw new Error('RPC sendTransaction rejected: txInsufficientBalance');
+      }
+    });
+
+    expect(tracked.hash).toBe('tx-slow');
+    expect(tracked.status).toBe('SUCCESS');
+  });
+
+  test('lists and counts transactions by status', async () => {
+    responses.set('tx-ok', [success(1010)]);
+    responses.set('tx-failed', [failure(1011)]);
+    await tracker.trackUntilFinal(input('tx-ok'));
+    await tracker.trackUntilFinal(input('tx-failed'));
+    await tracker.trackUntilFinal(input('tx-lost'), Date.now() + 10);
+
+    expect(tracker.getStats()).toEqual({ PENDING: 0, SUCCESS: 1, FAILED: 1, NOT_FOUND: 1 });
+    expect(tracker.list('FAILED').map(transaction => transaction.hash)).toEqual(['tx-failed']);
+    expect(tracker.list()).toHaveLength(3);
+    expect(tracker.isStatus('FAILED')).toBe(true);
+    expect(tracker.isStatus('DROPPED')).toBe(false);
+  });
+});
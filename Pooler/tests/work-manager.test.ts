@@ -0,0 +1,245 @@
+// Tests for the Work Manager
+// Farmers are mined on a bounded worker pool (TypeScript miner backend, stubbed contract submission)
+
+import { describe, expect, test } from 'bun:test';
+import { Keypair } from '@stellar/stellar-sdk';
+import { generateKaleHash } from '../../Shared/utils/kale-hash';
+import { countLeadingZeros } from '../../Shared/utils/kale-scoring';
+import { jobStore } from '../src/services/job-store';
+import { WorkManager, type WorkRequest } from '../src/services/work-manager';
+import type { MinerBackend, MinerRunRequest } from '../src/services/miner-backend';
+import type { WorkSubmissionRequest } from '../src/services/work-submission-service';
+
+const BLOCK_INDEX = 900;
+const ENTROPY = '3c'.repeat(32);
+
+interface Harness {
+  manager: WorkManager;
+  submissions: WorkSubmissionRequest[];
+  minerRuns: MinerRunRequest[];
+  maxConcurrentRuns: () => number;
+}
+
+/**
+ * Work manager whose miner runs are counted and whose contract submissions always succeed
+ */
+function createHarness(): Harness {
+  const manager = new WorkManager();
+  const internals = manager as any;
+  const backend: MinerBackend = internals.minerBackend;
+  const startRun = backend.start.bind(backend);
+
+  const submissions: WorkSubmissionRequest[] = [];
+  const minerRuns: MinerRunRequest[] = [];
+  let activeRuns = 0;
+  let maxActiveRuns = 0;
+
+  internals.minerBackend.start = (request: MinerRunRequest) => {
+    minerRuns.push(request);
+    activeRuns++;
+    maxActiveRuns = Math.max(maxActiveRuns, activeRuns);
+    const job = startRun(request);
+    job.result.finally(() => activeRuns--);
+    return job;
+  };
+  internals.workSubmissionService = {
+    submitWork: async (request: WorkSubmissionRequest) => {
+      submissions.push(request);
+      return { success: true, transactionHash: `tx-${submissions.length}`, gap: 10, ledger: 1010, confirmedLedger: 1010 };
+    },
+    getBlock: async () => null
+  };
+
+  return { manager, submissions, minerRuns, maxConcurrentRuns: () => maxActiveRuns };
+}
+
+function workRequests(count: number): WorkRequest[] {
+  return Array.from({ length: count }, (_, index) => ({
+    farmerId: `farmer-${index}`,
+    custodialWallet: Keypair.random().publicKey(),
+    blockIndex: BLOCK_INDEX,
+    entropy: ENTROPY,
+    stakeAmount: '10000000',
+    plantingTime: new Date(Date.now() - 60000), // Max gap already reached - work starts at once
+    plantLedger: 1000
+  }));
+}
+
+// Block opened 10s ago, so the submit deadline is minutes away
+const blockTimestamp = () => Math.floor(Date.now() / 1000) - 10;
+const blockParams = { minGap: 0, maxGap: 1 };
+
+describe('WorkManager worker pool', () => {
+  test('mines every farmer without exceeding the pool size', async () => {
+    const { manager, submissions, maxConcurrentRuns } = createHarness();
+    const requests = workRequests(5);
+
+    const batch = await manager.scheduleWork(blockTimestamp(), BLOCK_INDEX, ENTROPY, requests, blockParams);
+
+    expect(batch.workResults.map(result => result.farmerId)).toEqual(requests.map(request => request.farmerId));
+    expect(batch.workResults.every(result => result.status === 'success')).toBe(true);
+    expect(submissions).toHaveLength(5);
+    expect(maxConcurrentRuns()).toBeGreaterThan(1);
+    expect(maxConcurrentRuns()).toBeLessThanOrEqual(2);
+  });
+
+  test('returns every worker to the pool afterwards', async () => {
+    const { manager } = createHarness();
+
+    await manager.scheduleWork(blockTimestamp(), BLOCK_INDEX, ENTROPY, workRequests(3), blockParams);
+
+    const status = manager.getWorkStatus();
+    expect(status.poolSize).toBe(2);
+    expect(status.activeWorkers).toBe(0);
+    expect(status.idleWorkers).toBe(2);
+    expect(status.queuedFarmers).toBe(0);
+    expect(status.workers.reduce((total, worker) => total + worker.completedJobs, 0)).toBe(3);
+  });
+
+  test('submits the verified nonce and hash for each farmer', async () => {
+    const { manager, submissions } = createHarness();
+    const [request] = workRequests(1);
+
+    const batch = await manager.scheduleWork(blockTimestamp(), BLOCK_INDEX, ENTROPY, [request!], blockParams);
+    const result = batch.workResults[0]!;
+
+    expect(submissions[0]!.farmerPublicKey).toBe(request!.custodialWallet);
+    expect(submissions[0]!.nonce).toBe(BigInt(result.nonce!));
+    expect(Buffer.from(submissions[0]!.hash).toString('hex')).toBe(result.hash!);
+    expect(result.transactionHash).toBe('tx-1');
+  });
+});
+
+describe('WorkManager recovery', () => {
+  test('is skipped on backends that cannot start past nonce 0', async () => {
+    const { manager, minerRuns } = createHarness();
+    const internals = manager as any;
+    internals.minerBackend = { name: 'binary', supportsStartNonce: false, start: internals.minerBackend.start };
+    const [request] = workRequests(1);
+    const plan = internals.workScheduler.planFarmerWork({
+      farmerId: request!.farmerId,
+      blockIndex: BLOCK_INDEX,
+      blockTimeMs: blockTimestamp() * 1000,
+      plantingTime: request!.plantingTime,
+      plantLedger: request!.plantLedger,
+      gapParams: blockParams
+    });
+
+    const recovered = await internals.attemptRecovery(internals.workers[0], BLOCK_INDEX, ENTROPY, request, plan, blockParams);
+
+    expect(recovered).toBeNull();
+    expect(minerRuns).toHaveLength(0);
+  });
+});
+
+describe('WorkManager rejected work', () => {
+  const minZerosParams = { ...blockParams, minZeros: 2 };
+
+  /**
+   * First nonce from `from` whose real KALE hash has leading zeros matching `accept`
+   */
+  function mine(run: { farmerHex: string; blockIndex: number; entropy: string }, from: number, accept: (zeros: number) => boolean) {
+    for (let nonce = from; ; nonce++) {
+      const hash = Buffer.from(generateKaleHash(run.blockIndex, nonce, Buffer.from(run.entropy, 'hex'), Buffer.from(run.farmerHex, 'hex'))).toString('hex');
+      if (accept(countLeadingZeros(hash))) {
+        return { nonce, hash };
+      }
+    }
+  }
+
+  /**
+   * Searches return work short of min_zeros from nonce 0, and work meeting it from any later start nonce
+   */
+  function stubSearch(manager: WorkManager, output = mine) {
+    const startNonces: Array<number | undefined> = [];
+    (manager as any).nonceSearch = {
+      search: async (run: { farmerHex: string; blockIndex: number; entropy: string }, params: { startNonce?: number }) => {
+        startNonces.push(params.startNonce);
+        const found = params.startNonce === undefined
+          ? output(run, 0, zeros => zeros < 2)
+          : output(run, params.startNonce, zeros => zeros >= 2);
+        return { output: found, report: { windows: 1, noncesSearched: 1 } };
+      }
+    };
+    return startNonces;
+  }
+
+  test('re-mines past the searched nonces when the result is short of min_zeros', async () => {
+    const { manager, submissions } = createHarness();
+    const startNonces = stubSearch(manager);
+
+    const batch = await manager.scheduleWork(blockTimestamp(), BLOCK_INDEX, ENTROPY, workRequests(1), minZerosParams);
+    const result = batch.workResults[0]!;
+
+    expect(startNonces).toEqual([undefined, 500 * 2]);
+    expect(result.status).toBe('recovered');
+    expect(result.zeros).toBeGreaterThanOrEqual(2);
+    expect(submissions).toHaveLength(1);
+  });
+
+  test('falls through to compensation when the backend cannot search further', async () => {
+    const { manager, submissions } = createHarness();
+    (manager as any).minerBackend = { name: 'binary', supportsStartNonce: false };
+    const startNonces = stubSearch(manager);
+
+    const batch = await manager.scheduleWork(blockTimestamp(), BLOCK_INDEX, ENTROPY, workRequests(1), minZerosParams);
+    const result = batch.workResults[0]!;
+
+    expect(startNonces).toEqual([undefined]);
+    expect(result.status).toBe('failed');
+    expect(result.compensationRequired).toBe(true);
+    expect(result.failureReason?.code).toBe('ZEROS_BELOW_MINIMUM');
+    expect(submissions).toHaveLength(0);
+  });
+
+  test('does not re-mine work the miner hashed wrongly', async () => {
+    const { manager, submissions } = createHarness();
+    const startNonces = stubSearch(manager, (run, from, accept) => ({ ...mine(run, from, accept), hash: 'ff'.repeat(32) }));
+
+    const batch = await manager.scheduleWork(blockTimestamp(), BLOCK_INDEX, ENTROPY, workRequests(1), minZerosParams);
+    const result = batch.workResults[0]!;
+
+    expect(startNonces).toEqual([undefined]);
+    expect(result.compensationRequired).toBe(true);
+    expect(result.failureReason?.code).toBe('HASH_MISMATCH');
+    expect(submissions).toHaveLength(0);
+  });
+});
+
+describe('WorkManager farm pause', () => {
+  function saveJobs(requests: WorkRequest[]): void {
+    jobStore.saveBlock({
+      blockIndex: BLOCK_INDEX,
+      entropy: ENTROPY,
+      blockTimestamp: blockTimestamp(),
+      plantedFarmers: requests.map(request => ({ ...request, plantingTime: request.plantingTime! }))
+    });
+  }
+
+  test('holds every farmer as pending when the farm is paused before mining', async () => {
+    const { manager, submissions, minerRuns } = createHarness();
+    const requests = workRequests(2);
+    saveJobs(requests);
+    manager.setPauseCheck(() => true);
+
+    const batch = await manager.scheduleWork(blockTimestamp(), BLOCK_INDEX, ENTROPY, requests, blockParams);
+
+    expect(batch.workResults).toHaveLength(0);
+    expect(batch.heldFarmerIds).toEqual(['farmer-0', 'farmer-1']);
+    expect(minerRuns).toHaveLength(0);
+    expect(submissions).toHaveLength(0);
+  });
+
+  test('drops mined work instead of submitting it once the farm pauses', async () => {
+    const { manager, submissions, minerRuns } = createHarness();
+    const requests = workRequests(1);
+    saveJobs(requests);
+    manager.setPauseCheck(() => minerRuns.length > 0);
+
+    const batch = await manager.scheduleWork(blockTimestamp(), BLOCK_INDEX, ENTROPY, requests, blockParams);
+
+    expect(batch.heldFarmerIds).toEqual(['farmer-0']);
+    expect(submissions).toHaveLength(0);
+    expect(jobStore.getBlockJobs(BLOCK_INDEX).find(job => job.farmerId === 'farmer-0')!.status).toBe('pending');
+  });
+});
@@ -0,0 +1,138 @@
+// Tests for the Work Scheduler
+// Per-farmer work moments from the block's gap bounds, the submit deadline and the mining estimate
+
+import { afterEach, beforeEach, describe, expect, setSystemTime, test } from 'bun:test';
+import { WorkScheduler } from '../src/services/work-scheduler';
+
+// Defaults: 6s ledgers, 300s blocks, 20s submit margin, 60s mining estimate
+const NOW = 1_800_000_000_000;
+const LEDGER_MS = 6000;
+const DEADLINE_AT = NOW + 300000 - 20000;
+
+function plan(scheduler: WorkScheduler, overrides: Partial<Parameters<WorkScheduler['planFarmerWork']>[0]> = {}) {
+  return scheduler.planFarmerWork({
+    farmerId: 'farmer-1',
+    blockIndex: 10,
+    blockTimeMs: NOW,
+    plantingTime: new Date(NOW),
+    plantLedger: 5000,
+    gapParams: { minGap: 10, maxGap: 30 },
+    ...overrides
+  });
+}
+
+describe('WorkScheduler.planFarmerWork', () => {
+  let scheduler: WorkScheduler;
+
+  beforeEach(() => {
+    setSystemTime(new Date(NOW));
+    scheduler = new WorkScheduler(150);
+  });
+
+  afterEach(() => {
+    setSystemTime();
+  });
+
+  test('aims for max_gap when it lands before the deadline', () => {
+    const workPlan = plan(scheduler);
+
+    expect(workPlan.reason).toBe('max_gap');
+    expect(workPlan.plannedSubmitAt).toBe(NOW + 30 * LEDGER_MS);
+    expect(workPlan.plannedStartAt).toBe(NOW + 30 * LEDGER_MS - 60000);
+    expect(workPlan.targetGap).toBe(30);
+    expect(workPlan.plannedWorkLedger).toBe(5030);
+    expect(workPlan.deadlineAt).toBe(DEADLINE_AT);
+  });
+
+  test('submits at the deadline when max_gap would land after it', () => {
+    const workPlan = plan(scheduler, { gapParams: { minGap: 10, maxGap: 60 } });
+
+    expect(workPlan.reason).toBe('deadline');
+    expect(workPlan.plannedSubmitAt).toBe(DEADLINE_AT);
+    expect(workPlan.targetGap).toBe(Math.floor((DEADLINE_AT - NOW) / LEDGER_MS));
+  });
+
+  test('never plans earlier than min_gap allows, even past the deadline', () => {
+    const plantedAt = NOW + 250000;
+    const workPlan = plan(scheduler, { plantingTime: new Date(plantedAt) });
+
+    expect(workPlan.reason).toBe('min_gap');
+    expect(workPlan.plannedSubmitAt).toBe(plantedAt + 10 * LEDGER_MS);
+    expect(workPlan.targetGap).toBe(10);
+  });
+
+  test('falls back to the fixed delay without gap bounds', () => {
+    const workPlan = plan(scheduler, { gapParams: undefined, plantLedger: undefined });
+
+    expect(workPlan.reason).toBe('fallback_delay');
+    expect(workPlan.plannedSubmitAt).toBe(NOW + 150000 + 60000);
+    expect(workPlan.targetGap).toBeUndefined();
+    expect(workPlan.plannedWorkLedger).toBeUndefined();
+  });
+
+  test('never starts in the past', () => {
+    const workPlan = plan(scheduler, { plantingTime: new Date(NOW - 600000) });
+
+    expect(workPlan.plannedSubmitAt).toBeLessThan(NOW);
+    expect(workPlan.plannedStartAt).toBe(NOW);
+  });
+});
+
+describe('WorkScheduler tracking', () => {
+  let scheduler: WorkScheduler;
+
+  beforeEach(() => {
+    setSystemTime(new Date(NOW));
+    scheduler = new WorkScheduler(150);
+  });
+
+  afterEach(() => {
+    setSystemTime();
+  });
+
+  test('holds results until the planned submit time, never past the deadline', () => {
+    const workPlan = plan(scheduler);
+
+    expect(scheduler.getSubmitHoldMs(workPlan)).toBe(30 * LEDGER_MS);
+    expect(scheduler.getSubmitHoldMs({ ...workPlan, plannedSubmitAt: DEADLINE_AT + 60000 })).toBe(DEADLINE_AT - NOW);
+
+    setSystemTime(new Date(DEADLINE_AT + 1));
+    expect(scheduler.getSubmitHoldMs(workPlan)).toBe(0);
+  });
+
+  test('moves the mining estimate toward measured mining time', () => {
+    const workPlan = plan(scheduler);
+    scheduler.markStarted(workPlan);
+    setSystemTime(new Date(NOW + 10000));
+    scheduler.markMined(workPlan);
+
+    expect(scheduler.getScheduleStatus().estimatedMiningMs).toBe(60000 * 0.8 + 10000 * 0.2);
+  });
+
+  test('reports planned against actual submit time', () => {
+    const workPlan = plan(scheduler);
+    scheduler.markStarted(workPlan);
+    setSystemTime(new Date(workPlan.plannedSubmitAt + 1500));
+    scheduler.markSubmitting(workPlan);
+
+    const report = scheduler.markCompleted(workPlan);
+    expect(report.submitDriftMs).toBe(1500);
+    expect(report.metDeadline).toBe(true);
+    expect(workPlan.status).toBe('completed');
+
+    const late = plan(scheduler, { farmerId: 'farmer-2' });
+    setSystemTime(new Date(DEADLINE_AT + 1));
+    scheduler.markSubmitting(late);
+    expect(scheduler.markCompleted(late).metDeadline).toBe(false);
+  });
+
+  test('keeps only the most recent plans', () => {
+    for (let index = 0; index < 510; index++) {
+      plan(scheduler, { farmerId: `farmer-${index}` });
+    }
+
+    const plans = scheduler.getScheduleStatus().plans;
+    expect(plans).toHaveLength(500);
+    expect(plans[0]!.farmerId).toBe('farmer-10');
+  });
+});
@@ -0,0 +1,72 @@
+// Tests for the Work Verifier
+// Miner output is recomputed before submission; corrupt or under-target work is rejected
+
+import { describe, expect, test } from 'bun:test';
+import { Keypair } from '@stellar/stellar-sdk';
+import { MinedWorkRejectedError, verifyMinedWork, type MinedWork } from '../src/services/work-verifier';
+import { generateKaleHash } from '../../Shared/utils/kale-hash';
+import { countLeadingZeros } from '../../Shared/utils/kale-scoring';
+
+const farmerHex = Keypair.random().rawPublicKey().toString('hex');
+const entropy = 'ab'.repeat(32);
+
+function minedWork(nonce: number): MinedWork {
+  const hash = Buffer.from(generateKaleHash(77, nonce, Buffer.from(entropy, 'hex'), Buffer.from(farmerHex, 'hex'))).toString('hex');
+  return { farmerHex, blockIndex: 77, entropy, nonce, hash };
+}
+
+function rejectionOf(work: MinedWork, minZeros?: number): MinedWorkRejectedError {
+  try {
+    verifyMinedWork(work, minZeros);
+  } catch (error) {
+    expect(error).toBeInstanceOf(MinedWorkRejectedError);
+    return error as MinedWorkRejectedError;
+  }
+  throw new Error('Expected the work to be rejected');
+}
+
+describe('verifyMinedWork', () => {
+  test('accepts a genuine hash and returns it with its zero count', () => {
+    const work = minedWork(12345);
+    const verified = verifyMinedWork({ ...work, hash: work.hash.toUpperCase() });
+
+    expect(verified.hash).toBe(work.hash);
+    expect(verified.zeros).toBe(countLeadingZeros(work.hash));
+  });
+
+  test('rejects a hash that does not belong to the nonce', () => {
+    const work = minedWork(12345);
+    const rejection = rejectionOf({ ...work, nonce: 12346 });
+
+    expect(rejection.rejection).toBe('HASH_MISMATCH');
+    expect(rejection.failureReason).toMatchObject({ category: 'miner', code: 'HASH_MISMATCH', retryable: false });
+  });
+
+  test('rejects work for another farmer, block or entropy', () => {
+    const work = minedWork(12345);
+
+    expect(rejectionOf({ ...work, farmerHex: Keypair.random().rawPublicKey().toString('hex') }).rejection).toBe('HASH_MISMATCH');
+    expect(rejectionOf({ ...work, blockIndex: 78 }).rejection).toBe('HASH_MISMATCH');
+    expect(rejectionOf({ ...work, entropy: 'cd'.repeat(32) }).rejection).toBe('HASH_MISMATCH');
+  });
+
+  test('rejects malformed nonces and hashes', () => {
+    const work = minedWork(1);
+
+    expect(rejectionOf({ ...work, nonce: -1 }).rejection).toBe('MALFORMED_OUTPUT');
+    expect(rejectionOf({ ...work, nonce: 1.5 }).rejection).toBe('MALFORMED_OUTPUT');
+    expect(rejectionOf({ ...work, hash: work.hash.slice(2) }).rejection).toBe('MALFORMED_OUTPUT');
+    expect(rejectionOf({ ...work, hash: 'zz' + work.hash.slice(2) }).rejection).toBe('MALFORMED_OUTPUT');
+  });
+
+  test('rejects genuine work below the block minimum as retryable', () => {
+    const work = minedWork(12345);
+    const zeros = countLeadingZeros(work.hash);
+
+    expect(verifyMinedWork(work, zeros).zeros).toBe(zeros);
+
+    const rejection = rejectionOf(work, zeros + 1);
+    expect(rejection.rejection).toBe('ZEROS_BELOW_MINIMUM');
+    expect(rejection.failureReason.retryable).toBe(true);
+  });
+});
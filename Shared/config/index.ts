@@ -3,6 +3,7 @@
 
 import { config } from 'dotenv';
 import { existsSync } from 'fs';
+import { cpus } from 'os';
 import { join } from 'path';
 
 config()
@@ -45,6 +46,14 @@ interface KalePoolConfig {
   NODE_ENV: string;
   LOG_LEVEL: string;
   
+  // Log redaction (applied before any log sink writes)
+  LOGGING: {
+    REDACT_KEYS: string[]; // Case-insensitive key globs whose values are replaced with [REDACTED] (context fields and JSON inside messages)
+    MAX_STRING_LENGTH: number;
+    MAX_DEPTH: number;
+    MAX_ARRAY_ITEMS: number;
+  };
+  
   // Backend API settings  
   BACKEND: {
     HOST: string;
@@ -62,6 +71,8 @@ interface KalePoolConfig {
     PORT: number;
     ID: string;
     AUTH_TOKEN: string;
+    HMAC_KEYS: Array<{ id: string; secret: string }>; // First key signs; every key verifies (rotation)
+    HMAC_MAX_SKEW_MS: number; // Signed request timestamps older/newer than this are rejected
   };
   
   // Database configuration
@@ -76,6 +87,7 @@ interface KalePoolConfig {
   STELLAR: {
     NETWORK: string;
     RPC_URL: string;
+    RPC_URLS: string[]; // RPC_URL first, then failover endpoints
     CONTRACT_ID: string;
     NETWORK_PASSPHRASE: string;
   };
@@ -86,6 +98,35 @@ interface KalePoolConfig {
     JWT: string;
   };
   
+  // Transaction submission (Launchtube and direct RPC)
+  SUBMISSION: {
+    POLICY: 'launchtube_only' | 'launchtube_first' | 'rpc_first' | 'race';
+    FEE_PAYER_ADDRESS: string; // Pool account that sources RPC submissions when no farmer signer is at hand
+    FEE_PAYER_KEY: string; // Fee payer secret key as a custody handle (sealed:v1... or ref:...)
+    CONFIRM_TIMEOUT_MS: number; // Submitted transactions not confirmed by then count as not found
+    CONFIRM_POLL_MS: number;
+  };
+  
+  // Transaction fees (stroops) - bids from RPC fee stats, fee bumps and spending caps
+  FEES: {
+    WORK_PERCENTILE: number; // Soroban inclusion fee percentile bid for work (time-critical)
+    PLANT_PERCENTILE: number;
+    HARVEST_PERCENTILE: number; // Harvest and tractor harvest
+    MAX_INCLUSION_FEE: number; // Ceiling on any inclusion bid, fee bumps included
+    RESOURCE_MARGIN_PERCENT: number; // Added to the simulated resource fee
+    STATS_TTL_MS: number;
+    BUMP_LEAD_MS: number; // Fee-bump a work transaction still pending this close to the block deadline
+    MAX_PER_BLOCK: number; // 0 = no cap
+    MAX_PER_DAY: number; // UTC day, 0 = no cap
+  };
+  
+  // RPC gateway health tracking
+  RPC_GATEWAY: {
+    HEALTH_CHECK_INTERVAL_MS: number;
+    MAX_LEDGER_LAG: number;
+    FAILURE_COOLDOWN_MS: number;
+  };
+  
   // Block monitoring configuration
   BLOCK_MONITOR: {
     POLL_INTERVAL_MS: number;
@@ -93,6 +134,61 @@ interface KalePoolConfig {
     MAX_ERROR_COUNT: number;
     MAX_MISSED_BLOCKS: number;
     RETRY_ATTEMPTS: number;
+    DISCOVERY_MODE: 'polling' | 'events';
+    EVENT_POLL_INTERVAL_MS: number;
+    MAX_EVENT_LAG_LEDGERS: number;
+  };
+  
+  // Work manager configuration
+  WORK_MANAGER: {
+    WORKER_POOL_SIZE: number;
+  };
+  
+  // Work scheduling configuration
+  WORK_SCHEDULER: {
+    SUBMIT_MARGIN_MS: number;
+    ESTIMATED_MINING_MS: number;
+  };
+  
+  // Durable job store (planting notifications and per-farmer work state)
+  JOB_STORE: {
+    PATH: string;
+  };
+  
+  // Backend notification outbox
+  OUTBOX: {
+    MAX_ATTEMPTS: number;
+    BASE_DELAY_MS: number;
+    MAX_DELAY_MS: number;
+    POLL_INTERVAL_MS: number;
+  };
+  
+  // Rolling block history
+  BLOCK_HISTORY: {
+    MAX_BLOCKS: number;
+  };
+  
+  // Automatic harvesting of worked pails
+  HARVEST: {
+    ENABLED: boolean;
+    POLL_INTERVAL_MS: number;
+    MAX_ATTEMPTS: number;
+    TRACTOR_CONTRACT_ID: string; // Empty = harvest each pail through the KALE contract
+  };
+  
+  // Custodial key custody (keys arrive sealed to the pooler's X25519 key)
+  KEY_CUSTODY: {
+    PRIVATE_KEY: string; // Base64 raw X25519 private key; empty = generated per run (sealed keys don't survive a restart)
+    ALLOW_PLAINTEXT: boolean; // Accept legacy plaintext secret keys, sealed as soon as they arrive
+  };
+  
+  // Miner backend configuration
+  MINER: {
+    BACKEND: 'binary' | 'typescript';
+    BINARY_PATH: string;
+    BINARY_ARGS: string[];
+    WINDOW_NONCES: number;
+    MAX_WINDOWS: number;
   };
   
   // Backend API integration
@@ -155,6 +251,21 @@ function validateBooleanEnvironmentVariable(name: string, value: string | undefi
   return stringValue.toLowerCase() === 'true';
 }
 
+const DEFAULT_REDACT_KEYS = ['*secret*', 'authorization', '*jwt*', '*password*', '*token*', '*private_key*', '*privatekey*', 'cookie', 'set-cookie', 'x-kale-signature'];
+
+function parseRedactKeys(keys: string | undefined): string[] {
+  const extra = (keys || '').split(',').map(key => key.trim()).filter(key => key.length > 0);
+  return [...new Set([...DEFAULT_REDACT_KEYS, ...extra])];
+}
+
+function parseArgumentList(args: string | undefined): string[] {
+  if (!args) {
+    return [];
+  }
+  
+  return args.split(' ').map(arg => arg.trim()).filter(arg => arg.length > 0);
+}
+
 function parseCorsOrigins(corsOrigin: string | undefined): string[] {
   if (!corsOrigin) {
     return ['http://localhost:3000']; // default
@@ -163,6 +274,27 @@ function parseCorsOrigins(corsOrigin: string | undefined): string[] {
   return corsOrigin.split(',').map(origin => origin.trim()).filter(origin => origin.length > 0);
 }
 
+function parseUrlList(primary: string, urls: string | undefined): string[] {
+  const list = (urls || '').split(',').map(url => url.trim()).filter(url => url.length > 0);
+  return [primary, ...list.filter(url => url !== primary)];
+}
+
+// Development-only HMAC key; production refuses to start without POOLER_HMAC_KEYS
+const DEV_HMAC_KEY = { id: 'dev', secret: 'dev-hmac-key-for-testing-only' };
+
+function parseHmacKeys(keys: string | undefined, nodeEnv: string): Array<{ id: string; secret: string }> {
+  if (!keys) {
+    return nodeEnv === 'production' ? [] : [DEV_HMAC_KEY];
+  }
+
+  return keys.split(',').map(entry => entry.trim()).filter(entry => entry.length > 0).map(entry => {
+    const separator = entry.indexOf(':');
+    return separator === -1
+      ? { id: '', secret: entry }
+      : { id: entry.slice(0, separator).trim(), secret: entry.slice(separator + 1).trim() };
+  });
+}
+
 function loadConfig(): KalePoolConfig {
   try {
     const config: KalePoolConfig = {
@@ -170,6 +302,14 @@ function loadConfig(): KalePoolConfig {
       NODE_ENV: validateEnvironmentVariable('NODE_ENV', process.env.NODE_ENV, false) || 'development',
       LOG_LEVEL: validateEnvironmentVariable('LOG_LEVEL', process.env.LOG_LEVEL, false) || 'info',
       
+      // Log redaction
+      LOGGING: {
+        REDACT_KEYS: parseRedactKeys(process.env.LOG_REDACT_KEYS),
+        MAX_STRING_LENGTH: validateNumericEnvironmentVariable('LOG_MAX_STRING_LENGTH', process.env.LOG_MAX_STRING_LENGTH, false, 4096),
+        MAX_DEPTH: validateNumericEnvironmentVariable('LOG_MAX_DEPTH', process.env.LOG_MAX_DEPTH, false, 8),
+        MAX_ARRAY_ITEMS: validateNumericEnvironmentVariable('LOG_MAX_ARRAY_ITEMS', process.env.LOG_MAX_ARRAY_ITEMS, false, 50),
+      },
+      
       // Backend API settings
       BACKEND: {
         HOST: validateEnvironmentVariable('HOST', process.env.HOST, false) || '0.0.0.0',
@@ -187,6 +327,8 @@ function loadConfig(): KalePoolConfig {
         PORT: validateNumericEnvironmentVariable('POOLER_PORT', process.env.POOLER_PORT, false, 3001),
         ID: validateEnvironmentVariable('POOLER_ID', process.env.POOLER_ID, false) || '12345678-1234-5678-9abc-123456789000',
         AUTH_TOKEN: validateEnvironmentVariable('POOLER_AUTH_TOKEN', process.env.POOLER_AUTH_TOKEN, false) || 'dev-api-key-for-testing-only',
+        HMAC_KEYS: parseHmacKeys(process.env.POOLER_HMAC_KEYS, process.env.NODE_ENV || 'development'),
+        HMAC_MAX_SKEW_MS: validateNumericEnvironmentVariable('POOLER_HMAC_MAX_SKEW_MS', process.env.POOLER_HMAC_MAX_SKEW_MS, false, 300000),
       },
       
       // Database configuration
@@ -201,6 +343,7 @@ function loadConfig(): KalePoolConfig {
       STELLAR: {
         NETWORK: validateEnvironmentVariable('STELLAR_NETWORK', process.env.STELLAR_NETWORK, false) || 'mainnet',
         RPC_URL: validateEnvironmentVariable('RPC_URL', process.env.RPC_URL, false) || 'https://mainnet.sorobanrpc.com',
+        RPC_URLS: parseUrlList(process.env.RPC_URL || 'https://mainnet.sorobanrpc.com', process.env.RPC_URLS),
         CONTRACT_ID: validateEnvironmentVariable('CONTRACT_ID', process.env.CONTRACT_ID),
         NETWORK_PASSPHRASE: validateEnvironmentVariable('NETWORK_PASSPHRASE', process.env.NETWORK_PASSPHRASE, false) || 'Public Global Stellar Network ; September 2015',
       },
@@ -211,6 +354,35 @@ function loadConfig(): KalePoolConfig {
         JWT: validateEnvironmentVariable('LAUNCHTUBE_JWT', process.env.LAUNCHTUBE_JWT, false) || '',
       },
       
+      // Transaction submission
+      SUBMISSION: {
+        POLICY: (validateEnvironmentVariable('SUBMISSION_POLICY', process.env.SUBMISSION_POLICY, false) || 'launchtube_first') as KalePoolConfig['SUBMISSION']['POLICY'],
+        FEE_PAYER_ADDRESS: validateEnvironmentVariable('POOL_FEE_PAYER_ADDRESS', process.env.POOL_FEE_PAYER_ADDRESS, false) || '',
+        FEE_PAYER_KEY: validateEnvironmentVariable('POOL_FEE_PAYER_KEY', process.env.POOL_FEE_PAYER_KEY, false) || '',
+        CONFIRM_TIMEOUT_MS: validateNumericEnvironmentVariable('TX_CONFIRM_TIMEOUT_MS', process.env.TX_CONFIRM_TIMEOUT_MS, false, 60000),
+        CONFIRM_POLL_MS: validateNumericEnvironmentVariable('TX_CONFIRM_POLL_MS', process.env.TX_CONFIRM_POLL_MS, false, 1000),
+      },
+      
+      // Transaction fees
+      FEES: {
+        WORK_PERCENTILE: validateNumericEnvironmentVariable('FEE_WORK_PERCENTILE', process.env.FEE_WORK_PERCENTILE, false, 90),
+        PLANT_PERCENTILE: validateNumericEnvironmentVariable('FEE_PLANT_PERCENTILE', process.env.FEE_PLANT_PERCENTILE, false, 70),
+        HARVEST_PERCENTILE: validateNumericEnvironmentVariable('FEE_HARVEST_PERCENTILE', process.env.FEE_HARVEST_PERCENTILE, false, 50),
+        MAX_INCLUSION_FEE: validateNumericEnvironmentVariable('FEE_MAX_INCLUSION', process.env.FEE_MAX_INCLUSION, false, 100000),
+        RESOURCE_MARGIN_PERCENT: validateNumericEnvironmentVariable('FEE_RESOURCE_MARGIN_PERCENT', process.env.FEE_RESOURCE_MARGIN_PERCENT, false, 15),
+        STATS_TTL_MS: validateNumericEnvironmentVariable('FEE_STATS_TTL_MS', process.env.FEE_STATS_TTL_MS, false, 10000),
+        BUMP_LEAD_MS: validateNumericEnvironmentVariable('FEE_BUMP_LEAD_MS', process.env.FEE_BUMP_LEAD_MS, false, 30000),
+        MAX_PER_BLOCK: validateNumericEnvironmentVariable('FEE_MAX_PER_BLOCK', process.env.FEE_MAX_PER_BLOCK, false, 0),
+        MAX_PER_DAY: validateNumericEnvironmentVariable('FEE_MAX_PER_DAY', process.env.FEE_MAX_PER_DAY, false, 0),
+      },
+      
+      // RPC gateway health tracking
+      RPC_GATEWAY: {
+        HEALTH_CHECK_INTERVAL_MS: validateNumericEnvironmentVariable('RPC_HEALTH_CHECK_INTERVAL_MS', process.env.RPC_HEALTH_CHECK_INTERVAL_MS, false, 15000),
+        MAX_LEDGER_LAG: validateNumericEnvironmentVariable('RPC_MAX_LEDGER_LAG', process.env.RPC_MAX_LEDGER_LAG, false, 3),
+        FAILURE_COOLDOWN_MS: validateNumericEnvironmentVariable('RPC_FAILURE_COOLDOWN_MS', process.env.RPC_FAILURE_COOLDOWN_MS, false, 30000),
+      },
+      
       // Block monitoring configuration
       BLOCK_MONITOR: {
         POLL_INTERVAL_MS: validateNumericEnvironmentVariable('BLOCK_POLL_INTERVAL_MS', process.env.BLOCK_POLL_INTERVAL_MS, false, 5000),
@@ -218,6 +390,61 @@ function loadConfig(): KalePoolConfig {
         MAX_ERROR_COUNT: validateNumericEnvironmentVariable('MAX_ERROR_COUNT', process.env.MAX_ERROR_COUNT, false, 10),
         MAX_MISSED_BLOCKS: validateNumericEnvironmentVariable('MAX_MISSED_BLOCKS', process.env.MAX_MISSED_BLOCKS, false, 5),
         RETRY_ATTEMPTS: validateNumericEnvironmentVariable('RETRY_ATTEMPTS', process.env.RETRY_ATTEMPTS, false, 3),
+        DISCOVERY_MODE: (validateEnvironmentVariable('BLOCK_DISCOVERY_MODE', process.env.BLOCK_DISCOVERY_MODE, false) || 'polling') as KalePoolConfig['BLOCK_MONITOR']['DISCOVERY_MODE'],
+        EVENT_POLL_INTERVAL_MS: validateNumericEnvironmentVariable('EVENT_POLL_INTERVAL_MS', process.env.EVENT_POLL_INTERVAL_MS, false, 2000),
+        MAX_EVENT_LAG_LEDGERS: validateNumericEnvironmentVariable('MAX_EVENT_LAG_LEDGERS', process.env.MAX_EVENT_LAG_LEDGERS, false, 12),
+      },
+      
+      // Work manager configuration
+      WORK_MANAGER: {
+        WORKER_POOL_SIZE: validateNumericEnvironmentVariable('WORKER_POOL_SIZE', process.env.WORKER_POOL_SIZE, false, cpus().length || 1),
+      },
+      
+      // Work scheduling configuration
+      WORK_SCHEDULER: {
+        SUBMIT_MARGIN_MS: validateNumericEnvironmentVariable('WORK_SUBMIT_MARGIN_MS', process.env.WORK_SUBMIT_MARGIN_MS, false, 20000),
+        ESTIMATED_MINING_MS: validateNumericEnvironmentVariable('WORK_ESTIMATED_MINING_MS', process.env.WORK_ESTIMATED_MINING_MS, false, 60000),
+      },
+      
+      // Durable job store
+      JOB_STORE: {
+        PATH: validateEnvironmentVariable('JOB_STORE_PATH', process.env.JOB_STORE_PATH, false) || join(process.cwd(), 'data', 'pooler-jobs.sqlite'),
+      },
+      
+      // Backend notification outbox
+      OUTBOX: {
+        MAX_ATTEMPTS: validateNumericEnvironmentVariable('OUTBOX_MAX_ATTEMPTS', process.env.OUTBOX_MAX_ATTEMPTS, false, 10),
+        BASE_DELAY_MS: validateNumericEnvironmentVariable('OUTBOX_BASE_DELAY_MS', process.env.OUTBOX_BASE_DELAY_MS, false, 2000),
+        MAX_DELAY_MS: validateNumericEnvironmentVariable('OUTBOX_MAX_DELAY_MS', process.env.OUTBOX_MAX_DELAY_MS, false, 300000),
+        POLL_INTERVAL_MS: validateNumericEnvironmentVariable('OUTBOX_POLL_INTERVAL_MS', process.env.OUTBOX_POLL_INTERVAL_MS, false, 5000),
+      },
+      
+      // Rolling block history
+      BLOCK_HISTORY: {
+        MAX_BLOCKS: validateNumericEnvironmentVariable('BLOCK_HISTORY_MAX_BLOCKS', process.env.BLOCK_HISTORY_MAX_BLOCKS, false, 2000),
+      },
+      
+      // Automatic harvesting of worked pails
+      HARVEST: {
+        ENABLED: validateBooleanEnvironmentVariable('HARVEST_ENABLED', process.env.HARVEST_ENABLED, false, true),
+        POLL_INTERVAL_MS: validateNumericEnvironmentVariable('HARVEST_POLL_INTERVAL_MS', process.env.HARVEST_POLL_INTERVAL_MS, false, 60000),
+        MAX_ATTEMPTS: validateNumericEnvironmentVariable('HARVEST_MAX_ATTEMPTS', process.env.HARVEST_MAX_ATTEMPTS, false, 5),
+        TRACTOR_CONTRACT_ID: validateEnvironmentVariable('TRACTOR_CONTRACT_ID', process.env.TRACTOR_CONTRACT_ID, false) || '',
+      },
+      
+      // Custodial key custody
+      KEY_CUSTODY: {
+        PRIVATE_KEY: validateEnvironmentVariable('POOLER_CUSTODY_PRIVATE_KEY', process.env.POOLER_CUSTODY_PRIVATE_KEY, false) || '',
+        ALLOW_PLAINTEXT: validateBooleanEnvironmentVariable('CUSTODY_ALLOW_PLAINTEXT_KEYS', process.env.CUSTODY_ALLOW_PLAINTEXT_KEYS, false, false),
+      },
+      
+      // Miner backend configuration
+      MINER: {
+        BACKEND: (validateEnvironmentVariable('MINER_BACKEND', process.env.MINER_BACKEND, false) || 'binary') as KalePoolConfig['MINER']['BACKEND'],
+        BINARY_PATH: validateEnvironmentVariable('MINER_BINARY_PATH', process.env.MINER_BINARY_PATH, false) || join(__dirname, '..', '..', 'ext', 'kale-farmer', 'release', 'kale-farmer'),
+        BINARY_ARGS: parseArgumentList(process.env.MINER_BINARY_ARGS),
+        WINDOW_NONCES: validateNumericEnvironmentVariable('MINER_WINDOW_NONCES', process.env.MINER_WINDOW_NONCES, false, 10000000),
+        MAX_WINDOWS: validateNumericEnvironmentVariable('MINER_MAX_WINDOWS', process.env.MINER_MAX_WINDOWS, false, 10),
       },
       
       // Backend API integration
@@ -241,6 +468,10 @@ function loadConfig(): KalePoolConfig {
       throw new ConfigurationError(`LOG_LEVEL must be one of: error, warn, info, debug. Got: ${config.LOG_LEVEL}`);
     }
     
+    if (config.LOGGING.MAX_STRING_LENGTH < 64 || config.LOGGING.MAX_DEPTH < 1 || config.LOGGING.MAX_ARRAY_ITEMS < 1) {
+      throw new ConfigurationError(`LOG_MAX_STRING_LENGTH must be at least 64, LOG_MAX_DEPTH and LOG_MAX_ARRAY_ITEMS at least 1`);
+    }
+    
     if (config.BACKEND.PORT < 1024 || config.BACKEND.PORT > 65535) {
       throw new ConfigurationError(`PORT must be between 1024 and 65535. Got: ${config.BACKEND.PORT}`);
     }
@@ -253,10 +484,91 @@ function loadConfig(): KalePoolConfig {
       throw new ConfigurationError(`RPC_URL must be a valid URL starting with http/https. Got: ${config.STELLAR.RPC_URL}`);
     }
     
+    if (config.WORK_MANAGER.WORKER_POOL_SIZE < 1) {
+      throw new ConfigurationError(`WORKER_POOL_SIZE must be at least 1. Got: ${config.WORK_MANAGER.WORKER_POOL_SIZE}`);
+    }
+    
+    if (!['polling', 'events'].includes(config.BLOCK_MONITOR.DISCOVERY_MODE)) {
+      throw new ConfigurationError(`BLOCK_DISCOVERY_MODE must be one of: polling, events. Got: ${config.BLOCK_MONITOR.DISCOVERY_MODE}`);
+    }
+    
+    if (!['binary', 'typescript'].includes(config.MINER.BACKEND)) {
+      throw new ConfigurationError(`MINER_BACKEND must be one of: binary, typescript. Got: ${config.MINER.BACKEND}`);
+    }
+    
+    if (config.OUTBOX.MAX_ATTEMPTS < 1) {
+      throw new ConfigurationError(`OUTBOX_MAX_ATTEMPTS must be at least 1. Got: ${config.OUTBOX.MAX_ATTEMPTS}`);
+    }
+    
+    if (config.HARVEST.MAX_ATTEMPTS < 1) {
+      throw new ConfigurationError(`HARVEST_MAX_ATTEMPTS must be at least 1. Got: ${config.HARVEST.MAX_ATTEMPTS}`);
+    }
+    
+    if (config.MINER.WINDOW_NONCES < 1 || config.MINER.MAX_WINDOWS < 1) {
+      throw new ConfigurationError(`MINER_WINDOW_NONCES and MINER_MAX_WINDOWS must be at least 1. Got: ${config.MINER.WINDOW_NONCES}, ${config.MINER.MAX_WINDOWS}`);
+    }
+    
+    const invalidRpcUrl = config.STELLAR.RPC_URLS.find(url => !url.startsWith('http'));
+    if (invalidRpcUrl) {
+      throw new ConfigurationError(`RPC_URLS entries must be valid URLs starting with http/https. Got: ${invalidRpcUrl}`);
+    }
+    
+    if (config.NODE_ENV === 'production' && !process.env.POOLER_HMAC_KEYS) {
+      throw new ConfigurationError('POOLER_HMAC_KEYS must be set in production - Backend requests are signed with these keys');
+    }
+    
+    if (config.POOLER.HMAC_KEYS.length === 0 || config.POOLER.HMAC_KEYS.some(key => !key.id || key.secret.length < 16)) {
+      throw new ConfigurationError('POOLER_HMAC_KEYS must be a comma-separated list of keyId:secret entries with secrets of at least 16 characters');
+    }
+    
+    if (new Set(config.POOLER.HMAC_KEYS.map(key => key.id)).size !== config.POOLER.HMAC_KEYS.length) {
+      throw new ConfigurationError('POOLER_HMAC_KEYS key ids must be unique');
+    }
+    
+    if (config.POOLER.HMAC_KEYS.some(key => key.secret === config.POOLER.AUTH_TOKEN)) {
+      throw new ConfigurationError('POOLER_HMAC_KEYS secrets must differ from POOLER_AUTH_TOKEN');
+    }
+    
+    if (config.KEY_CUSTODY.PRIVATE_KEY && Buffer.from(config.KEY_CUSTODY.PRIVATE_KEY, 'base64').length !== 32) {
+      throw new ConfigurationError('POOLER_CUSTODY_PRIVATE_KEY must be a base64-encoded 32-byte X25519 private key');
+    }
+    
     if (!config.LAUNCHTUBE.URL.startsWith('http')) {
       throw new ConfigurationError(`LAUNCHTUBE_URL must be a valid URL starting with http/https. Got: ${config.LAUNCHTUBE.URL}`);
     }
     
+    if (!['launchtube_only', 'launchtube_first', 'rpc_first', 'race'].includes(config.SUBMISSION.POLICY)) {
+      throw new ConfigurationError(`SUBMISSION_POLICY must be one of: launchtube_only, launchtube_first, rpc_first, race. Got: ${config.SUBMISSION.POLICY}`);
+    }
+    
+    if (!config.SUBMISSION.FEE_PAYER_ADDRESS !== !config.SUBMISSION.FEE_PAYER_KEY) {
+      throw new ConfigurationError('POOL_FEE_PAYER_ADDRESS and POOL_FEE_PAYER_KEY must be set together');
+    }
+    
+    if (config.SUBMISSION.FEE_PAYER_KEY && !/^(sealed:v1\.|ref:)/.test(config.SUBMISSION.FEE_PAYER_KEY)) {
+      throw new ConfigurationError('POOL_FEE_PAYER_KEY must be sealed to the pooler custody key (sealed:v1...) or a custody reference (ref:...)');
+    }
+    
+    if (config.SUBMISSION.CONFIRM_TIMEOUT_MS < 10000) {
+      throw new ConfigurationError(`TX_CONFIRM_TIMEOUT_MS must be at least 10000. Got: ${config.SUBMISSION.CONFIRM_TIMEOUT_MS}`);
+    }
+    
+    // Percentiles RPC getFeeStats reports
+    const feePercentiles = [10, 20, 30, 40, 50, 60, 70, 80, 90, 95, 99];
+    for (const [name, percentile] of [
+      ['FEE_WORK_PERCENTILE', config.FEES.WORK_PERCENTILE],
+      ['FEE_PLANT_PERCENTILE', config.FEES.PLANT_PERCENTILE],
+      ['FEE_HARVEST_PERCENTILE', config.FEES.HARVEST_PERCENTILE]
+    ] as const) {
+      if (!feePercentiles.includes(percentile)) {
+        throw new ConfigurationError(`${name} must be one of: ${feePercentiles.join(', ')}. Got: ${percentile}`);
+      }
+    }
+    
+    if (config.FEES.MAX_INCLUSION_FEE < 100) {
+      throw new ConfigurationError(`FEE_MAX_INCLUSION must be at least the 100 stroop base fee. Got: ${config.FEES.MAX_INCLUSION_FEE}`);
+    }
+    
     return config;
     
   } catch (error) {
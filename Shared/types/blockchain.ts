@@ -159,9 +159,29 @@ export enum KaleContractError {
 export interface ContractError {
   code: KaleContractError;
   message: string;
+  retryable: boolean; // The same call can succeed later (e.g. once the block closes or the gap grows)
   details?: any;
 }
 
+// Where a failed submission went wrong
+export type FailureCategory =
+  | 'contract'     // KALE contract error (Error(Contract, #N))
+  | 'host'         // Soroban host error (budget, storage, auth, ...)
+  | 'transaction'  // Transaction-level result (bad sequence, fee, expiry, ...)
+  | 'submission'   // Launchtube / RPC refused the submission
+  | 'network'      // Connectivity to RPC or Launchtube
+  | 'timeout'      // Not confirmed in time
+  | 'miner'        // Nonce search failed or its output didn't verify - nothing was submitted
+  | 'unknown';
+
+export interface FailureReason {
+  category: FailureCategory;
+  code: string; // Contract error name, host error (Budget.ExceededLimit), result code (txBadSeq), ...
+  retryable: boolean;
+  message: string;
+  contractError?: ContractError;
+}
+
 // ======================
 // TRANSACTION BUILDING
 // ======================
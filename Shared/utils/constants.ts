@@ -91,6 +91,7 @@ export const STELLAR_CONFIG = {
   BASE_RESERVE: 5000000, // 0.5 XLM
   TRUSTLINE_RESERVE: 5000000, // 0.5 XLM additional per trustline
   TRANSACTION_TIMEOUT: 180, // 3 minutes
+  LEDGER_CLOSE_SECONDS: 6, // Average mainnet ledger close time
   MAX_OPERATIONS_PER_TRANSACTION: 100
 } as const;
 
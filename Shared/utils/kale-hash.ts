@@ -0,0 +1,199 @@
+// KALE Hash Utilities for KALE Pool Mining System
+// Pure TypeScript Keccak-256 and the KALE work hash (no native miner required)
+
+// ======================
+// KECCAK-256
+// ======================
+
+// Keccak-f[1600] round constants, split into 32-bit halves
+const ROUND_CONSTANTS = [
+  0x0000000000000001n, 0x0000000000008082n, 0x800000000000808An, 0x8000000080008000n,
+  0x000000000000808Bn, 0x0000000080000001n, 0x8000000080008081n, 0x8000000000008009n,
+  0x000000000000008An, 0x0000000000000088n, 0x0000000080008009n, 0x000000008000000An,
+  0x000000008000808Bn, 0x800000000000008Bn, 0x8000000000008089n, 0x8000000000008003n,
+  0x8000000000008002n, 0x8000000000000080n, 0x000000000000800An, 0x800000008000000An,
+  0x8000000080008081n, 0x8000000000008080n, 0x0000000080000001n, 0x8000000080008008n
+];
+const RC_LO = Uint32Array.from(ROUND_CONSTANTS, rc => Number(rc & 0xffffffffn));
+const RC_HI = Uint32Array.from(ROUND_CONSTANTS, rc => Number(rc >> 32n));
+
+// Rho rotation offsets and pi lane order (tiny_sha3 formulation)
+const RHO_OFFSETS = [1, 3, 6, 10, 15, 21, 28, 36, 45, 55, 2, 14, 27, 41, 56, 8, 25, 43, 62, 18, 39, 61, 20, 44];
+const PI_LANES = [10, 7, 11, 17, 18, 3, 5, 16, 8, 21, 24, 4, 15, 23, 19, 13, 12, 2, 20, 14, 22, 9, 6, 1];
+
+const KECCAK256_RATE_BYTES = 136;
+
+/**
+ * Keccak-f[1600] permutation over 25 lanes stored as (lo, hi) 32-bit pairs
+ */
+function keccakF1600(state: Uint32Array): void {
+  const bcLo = new Uint32Array(5);
+  const bcHi = new Uint32Array(5);
+
+  for (let round = 0; round < 24; round++) {
+    // Theta
+    for (let x = 0; x < 5; x++) {
+      bcLo[x] = state[2 * x]! ^ state[2 * x + 10]! ^ state[2 * x + 20]! ^ state[2 * x + 30]! ^ state[2 * x + 40]!;
+      bcHi[x] = state[2 * x + 1]! ^ state[2 * x + 11]! ^ state[2 * x + 21]! ^ state[2 * x + 31]! ^ state[2 * x + 41]!;
+    }
+    for (let x = 0; x < 5; x++) {
+      const next = (x + 1) % 5;
+      const prev = (x + 4) % 5;
+      const tLo = bcLo[prev]! ^ ((bcLo[next]! << 1) | (bcHi[next]! >>> 31));
+      const tHi = bcHi[prev]! ^ ((bcHi[next]! << 1) | (bcLo[next]! >>> 31));
+      for (let y = 0; y < 25; y += 5) {
+        state[2 * (y + x)] = state[2 * (y + x)]! ^ tLo;
+        state[2 * (y + x) + 1] = state[2 * (y + x) + 1]! ^ tHi;
+      }
+    }
+
+    // Rho and pi
+    let currentLo = state[2]!;
+    let currentHi = state[3]!;
+    for (let i = 0; i < 24; i++) {
+      const lane = PI_LANES[i]!;
+      const shift = RHO_OFFSETS[i]!;
+      const nextLo = state[2 * lane]!;
+      const nextHi = state[2 * lane + 1]!;
+
+      let rotatedLo: number;
+      let rotatedHi: number;
+      if (shift === 32) {
+        rotatedLo = currentHi;
+        rotatedHi = currentLo;
+      } else if (shift < 32) {
+        rotatedLo = (currentLo << shift) | (currentHi >>> (32 - shift));
+        rotatedHi = (currentHi << shift) | (currentLo >>> (32 - shift));
+      } else {
+        const s = shift - 32;
+        rotatedLo = (currentHi << s) | (currentLo >>> (32 - s));
+        rotatedHi = (currentLo << s) | (currentHi >>> (32 - s));
+      }
+
+      state[2 * lane] = rotatedLo;
+      state[2 * lane + 1] = rotatedHi;
+      currentLo = nextLo;
+      currentHi = nextHi;
+    }
+
+    // Chi
+    for (let y = 0; y < 25; y += 5) {
+      for (let x = 0; x < 5; x++) {
+        bcLo[x] = state[2 * (y + x)]!;
+        bcHi[x] = state[2 * (y + x) + 1]!;
+      }
+      for (let x = 0; x < 5; x++) {
+        state[2 * (y + x)] = bcLo[x]! ^ (~bcLo[(x + 1) % 5]! & bcLo[(x + 2) % 5]!);
+        state[2 * (y + x) + 1] = bcHi[x]! ^ (~bcHi[(x + 1) % 5]! & bcHi[(x + 2) % 5]!);
+      }
+    }
+
+    // Iota
+    state[0] = state[0]! ^ RC_LO[round]!;
+    state[1] = state[1]! ^ RC_HI[round]!;
+  }
+}
+
+/**
+ * XOR a byte into the sponge state at the given byte offset (little-endian lanes)
+ */
+function xorStateByte(state: Uint32Array, offset: number, byte: number): void {
+  const lane = offset >> 3;
+  const byteInLane = offset & 7;
+  if (byteInLane < 4) {
+    state[2 * lane] = state[2 * lane]! ^ (byte << (8 * byteInLane));
+  } else {
+    state[2 * lane + 1] = state[2 * lane + 1]! ^ (byte << (8 * (byteInLane - 4)));
+  }
+}
+
+/**
+ * Keccak-256 (original Keccak padding, as used by Soroban's env.crypto().keccak256)
+ */
+export function keccak256(data: Uint8Array): Uint8Array {
+  const state = new Uint32Array(50);
+  let offset = 0;
+
+  // Absorb full blocks
+  while (data.length - offset >= KECCAK256_RATE_BYTES) {
+    for (let i = 0; i < KECCAK256_RATE_BYTES; i++) {
+      xorStateByte(state, i, data[offset + i]!);
+    }
+    keccakF1600(state);
+    offset += KECCAK256_RATE_BYTES;
+  }
+
+  // Absorb the final partial block with Keccak padding (0x01 ... 0x80)
+  const remaining = data.length - offset;
+  for (let i = 0; i < remaining; i++) {
+    xorStateByte(state, i, data[offset + i]!);
+  }
+  xorStateByte(state, remaining, 0x01);
+  xorStateByte(state, KECCAK256_RATE_BYTES - 1, 0x80);
+  keccakF1600(state);
+
+  // Squeeze 32 bytes
+  const output = new Uint8Array(32);
+  for (let i = 0; i < 32; i++) {
+    const lane = i >> 3;
+    const byteInLane = i & 7;
+    const word = byteInLane < 4 ? state[2 * lane]! : state[2 * lane + 1]!;
+    output[i] = (word >>> (8 * (byteInLane & 3))) & 0xff;
+  }
+  return output;
+}
+
+// ======================
+// KALE WORK HASH
+// ======================
+
+export const KALE_HASH_INPUT_LENGTH = 76; // index (4) + nonce (8) + entropy (32) + farmer (32)
+
+/**
+ * Build the 76-byte KALE hash preimage: index u32 BE, nonce u64 BE, entropy, farmer key
+ */
+export function buildKaleHashInput(
+  blockIndex: number,
+  nonce: number | bigint,
+  entropy: Uint8Array,
+  farmer: Uint8Array
+): Uint8Array {
+  if (entropy.length !== 32) {
+    throw new Error(`Entropy must be 32 bytes, got ${entropy.length}`);
+  }
+  if (farmer.length !== 32) {
+    throw new Error(`Farmer key must be 32 bytes, got ${farmer.length}`);
+  }
+
+  const input = new Uint8Array(KALE_HASH_INPUT_LENGTH);
+  const view = new DataView(input.buffer);
+  view.setUint32(0, blockIndex, false);
+  view.setBigUint64(4, BigInt(nonce), false);
+  input.set(entropy, 12);
+  input.set(farmer, 44);
+  return input;
+}
+
+/**
+ * Compute the KALE work hash for a farmer's nonce
+ */
+export function generateKaleHash(
+  blockIndex: number,
+  nonce: number | bigint,
+  entropy: Uint8Array,
+  farmer: Uint8Array
+): Uint8Array {
+  return keccak256(buildKaleHashInput(blockIndex, nonce, entropy, farmer));
+}
+
+/**
+ * Compare two hashes as big-endian numbers (smaller hash = more leading zeros)
+ */
+export function compareHashes(a: Uint8Array, b: Uint8Array): number {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i] !== b[i]) {
+      return a[i]! - b[i]!;
+    }
+  }
+  return a.length - b.length;
+}
@@ -0,0 +1,125 @@
+// KALE Work Scoring for KALE Pool Mining System
+// Gap, leading zeros and normalized contribution computed the way the KALE contract does
+
+// ======================
+// TYPES
+// ======================
+
+// Block totals needed for normalization (numbers or i128/u32 values straight from the contract)
+export interface BlockScoringTotals {
+  min_gap: number | bigint;
+  max_gap: number | bigint;
+  min_stake: number | bigint;
+  max_stake: number | bigint;
+  min_zeros: number | bigint;
+  max_zeros: number | bigint;
+  normalized_total?: number | bigint;
+}
+
+export interface PailScore {
+  gap: number;
+  stake: bigint;
+  zeros: number;
+}
+
+export interface NormalizedContribution {
+  gap: bigint;
+  stake: bigint;
+  zeros: bigint;
+  total: bigint;
+  share?: number; // Fraction of the block's normalized total (0..1), when the total is known
+}
+
+export const SCORE_DECIMALS = 7;
+const SCORE_SCALE = 10n ** BigInt(SCORE_DECIMALS);
+
+// ======================
+// GAP AND ZEROS
+// ======================
+
+/**
+ * Count leading zero nibbles of a work hash, as the contract does on the raw bytes
+ */
+export function countLeadingZeros(hash: Uint8Array | string): number {
+  const bytes = typeof hash === 'string' ? Buffer.from(hash, 'hex') : hash;
+
+  let zeros = 0;
+  for (const byte of bytes) {
+    if (byte === 0) {
+      zeros += 2;
+      continue;
+    }
+    if (byte >> 4 === 0) {
+      zeros += 1;
+    }
+    break;
+  }
+  return zeros;
+}
+
+/**
+ * Ledgers between the farmer's plant and work (contract: work ledger - pail sequence)
+ */
+export function calculateGap(plantLedger: number, workLedger: number): number {
+  if (workLedger < plantLedger) {
+    throw new Error(`Work ledger ${workLedger} is before plant ledger ${plantLedger}`);
+  }
+  return workLedger - plantLedger;
+}
+
+/**
+ * Parse a stake amount in stroops (the Backend's `stakeAmount`: an i128 as a whole-number string). Decimal KALE
+ * amounts are rejected rather than guessed at, since the result is planted as-is.
+ */
+export function parseStakeAmount(amount: string | number | bigint): bigint {
+  if (typeof amount === 'bigint') {
+    return amount;
+  }
+  if (typeof amount === 'number') {
+    if (!Number.isSafeInteger(amount) || amount < 0) {
+      throw new Error(`Invalid stake amount: ${amount} (expected whole stroops)`);
+    }
+    return BigInt(amount);
+  }
+
+  const text = amount.trim();
+  if (!/^\d+$/.test(text)) {
+    throw new Error(`Invalid stake amount: ${text} (expected whole stroops)`);
+  }
+  return BigInt(text);
+}
+
+// ======================
+// NORMALIZATION
+// ======================
+
+/**
+ * Scale a value into 0..1 (fixed point, 7 decimals) within the block's min/max range
+ */
+export function normalizeValue(value: bigint, min: bigint, max: bigint): bigint {
+  if (max <= min) {
+    // Every farmer sits at the bound - all get full credit
+    return SCORE_SCALE;
+  }
+
+  const clamped = value < min ? min : value > max ? max : value;
+  return ((clamped - min) * SCORE_SCALE) / (max - min);
+}
+
+/**
+ * Estimate a farmer's normalized contribution (gap, stake, zeros) against the block totals.
+ * The block's min/max keep moving until it closes, so this is exact only for a finished block.
+ */
+export function estimateContribution(block: BlockScoringTotals, pail: PailScore): NormalizedContribution {
+  const gap = normalizeValue(BigInt(pail.gap), BigInt(block.min_gap), BigInt(block.max_gap));
+  const stake = normalizeValue(pail.stake, BigInt(block.min_stake), BigInt(block.max_stake));
+  const zeros = normalizeValue(BigInt(pail.zeros), BigInt(block.min_zeros), BigInt(block.max_zeros));
+  const total = gap + stake + zeros;
+
+  const normalizedTotal = block.normalized_total !== undefined ? BigInt(block.normalized_total) : 0n;
+  const share = normalizedTotal > 0n
+    ? Number((total * SCORE_SCALE) / normalizedTotal) / Number(SCORE_SCALE)
+    : undefined;
+
+  return { gap, stake, zeros, total, share };
+}
@@ -0,0 +1,125 @@
+// Log Redaction for KALE Pool Mining System
+// Masks secrets (by key pattern and by value) and bounds the size of log messages and context before they are written
+
+export interface RedactionOptions {
+  keyPatterns: string[]; // Case-insensitive globs (`*` = any run of characters) matched against object keys
+  maxStringLength: number;
+  maxDepth: number;
+  maxArrayItems: number;
+}
+
+const REDACTED = '[REDACTED]';
+
+// Values that are secret wherever they appear, whatever the key
+const VALUE_RULES: Array<{ pattern: RegExp; replacement: string }> = [
+  { pattern: /\bS[A-Z2-7]{55}\b/g, replacement: '[REDACTED_SECRET_SEED]' }, // Stellar secret seed
+  { pattern: /\bBearer\s+[A-Za-z0-9._~+/=-]+/g, replacement: `Bearer ${REDACTED}` }
+];
+
+// A `"key": value` pair inside JSON embedded in a string (e.g. a message built with JSON.stringify)
+const EMBEDDED_JSON_FIELD = /"((?:[^"\\]|\\.)*)"(\s*:\s*)("(?:[^"\\]|\\.)*"|-?\d[\d.eE+-]*|true|false)/g;
+
+export class LogRedactor {
+  private keyMatchers: RegExp[];
+
+  constructor(private options: RedactionOptions) {
+    this.keyMatchers = options.keyPatterns.map(pattern => globToRegExp(pattern));
+  }
+
+  /**
+   * Whether a field name matches one of the redacted key patterns
+   */
+  isSensitiveKey(key: string): boolean {
+    return this.keyMatchers.some(matcher => matcher.test(key));
+  }
+
+  /**
+   * Mask secret values and embedded JSON fields with sensitive keys inside a string, and truncate it to the configured length
+   */
+  redactString(value: string): string {
+    const maskedFields = value.replace(EMBEDDED_JSON_FIELD, (field, key: string, separator: string) =>
+      this.isSensitiveKey(key) ? `"${key}"${separator}"${REDACTED}"` : field
+    );
+    const masked = VALUE_RULES.reduce((text, rule) => text.replace(rule.pattern, rule.replacement), maskedFields);
+    if (masked.length <= this.options.maxStringLength) {
+      return masked;
+    }
+    return `${masked.slice(0, this.options.maxStringLength)}…[truncated ${masked.length - this.options.maxStringLength} chars]`;
+  }
+
+  /**
+   * JSON-safe copy of a log context with sensitive keys, secret values, oversized and circular parts replaced
+   */
+  redact(value: unknown): unknown {
+    return this.visit(value, 0, new WeakSet());
+  }
+
+  private visit(value: unknown, depth: number, seen: WeakSet<object>): unknown {
+    if (typeof value === 'string') {
+      return this.redactString(value);
+    }
+    if (typeof value === 'bigint') {
+      return value.toString();
+    }
+    if (typeof value === 'function' || typeof value === 'symbol') {
+      return `[${typeof value}]`;
+    }
+    if (value === null || typeof value !== 'object') {
+      return value;
+    }
+
+    if (value instanceof Date) {
+      return Number.isNaN(value.getTime()) ? 'Invalid Date' : value.toISOString();
+    }
+    if (value instanceof Uint8Array) {
+      return `[${value.constructor.name} ${value.length} bytes]`; // Raw bytes may be key material
+    }
+    if (seen.has(value)) {
+      return '[Circular]';
+    }
+    if (depth >= this.options.maxDepth) {
+      return Array.isArray(value) ? `[Array(${value.length})]` : '[Object]';
+    }
+
+    seen.add(value);
+    try {
+      if (value instanceof Error) {
+        return this.visitEntries(
+          { ...value, name: value.name, message: value.message, stack: value.stack },
+          depth,
+          seen
+        );
+      }
+      if (value instanceof Map) {
+        return this.visitEntries(Object.fromEntries(value), depth, seen);
+      }
+      if (Array.isArray(value) || value instanceof Set) {
+        const items = Array.from(value);
+        const kept = items.slice(0, this.options.maxArrayItems).map(item => this.visit(item, depth + 1, seen));
+        if (items.length > kept.length) {
+          kept.push(`[… ${items.length - kept.length} more items]`);
+        }
+        return kept;
+      }
+      return this.visitEntries(value as Record<string, unknown>, depth, seen);
+    } finally {
+      seen.delete(value); // Shared (non-circular) references are still rendered
+    }
+  }
+
+  private visitEntries(value: Record<string, unknown>, depth: number, seen: WeakSet<object>): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    for (const [key, field] of Object.entries(value)) {
+      if (field === undefined) {
+        continue;
+      }
+      result[key] = this.isSensitiveKey(key) ? REDACTED : this.visit(field, depth + 1, seen);
+    }
+    return result;
+  }
+}
+
+function globToRegExp(pattern: string): RegExp {
+  const source = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+  return new RegExp(`^${source}$`, 'i');
+}
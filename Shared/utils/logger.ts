@@ -4,11 +4,20 @@
 import * as path from 'path';
 import * as fs from 'fs';
 import Config from '../config';
+import { LogRedactor } from './log-redaction';
 
 // Define log directories
 const logsDir = path.join(process.cwd(), 'logs');
 const archiveDir = path.join(logsDir, 'archive');
 
+// Every message and context passes through the redactor before console or file output
+const redactor = new LogRedactor({
+  keyPatterns: Config.LOGGING.REDACT_KEYS,
+  maxStringLength: Config.LOGGING.MAX_STRING_LENGTH,
+  maxDepth: Config.LOGGING.MAX_DEPTH,
+  maxArrayItems: Config.LOGGING.MAX_ARRAY_ITEMS
+});
+
 // Archive old logs when server starts
 function archiveOldLogs() {
   // Create logs and archive directories if they don't exist
@@ -168,7 +177,7 @@ class KaleLogger {
     const entry: UnifiedLogEntry = {
       timestamp: getISTTimestamp(),
       level: level,
-      message: message,
+      message: redactor.redactString(message),
       source: this.serviceName.includes('Pooler') ? 'pooler' : 'backend',
       service: this.serviceName
     };
@@ -191,9 +200,9 @@ class KaleLogger {
       entry.function = "anonymous";
     }
 
-    // Add context if provided
+    // Add context if provided (redacted and size-bounded)
     if (context) {
-      (entry as any).context = context;
+      (entry as any).context = redactor.redact(context);
     }
 
     return entry;